@@ -73,7 +73,9 @@ export default [
         process: 'readonly',
         Buffer: 'readonly',
         __dirname: 'readonly',
-        __filename: 'readonly'
+        __filename: 'readonly',
+        fetch: 'readonly',
+        AbortController: 'readonly'
       }
     },
     plugins: {
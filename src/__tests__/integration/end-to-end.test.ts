@@ -7,7 +7,7 @@ import { AlterTableTool } from '../../tools/alter-table.js';
 import { ListTablesTool } from '../../tools/list-tables.js';
 import { DescribeTableTool } from '../../tools/describe-table.js';
 import { LibSQLConnectionPool } from '../../lib/database.js';
-import type { DatabaseConfig } from '../../types/index.js';
+import type { DatabaseConfig, DatabaseConnection } from '../../types/index.js';
 import type { ToolExecutionContext } from '../../lib/base-tool.js';
 
 /**
@@ -673,4 +673,52 @@ describe('End-to-End Integration Tests', () => {
       await noAuthPool.close();
     });
   });
+
+  describe('Connection Settings', () => {
+    it('should keep connection settings after a transaction on a local file', async () => {
+      const { mkdtemp, rm } = await import('fs/promises');
+      const { tmpdir } = await import('os');
+      const { join } = await import('path');
+      const dir = await mkdtemp(join(tmpdir(), 'mcp-libsql-init-'));
+      const settingsPool = new LibSQLConnectionPool({
+        url: `file:${join(dir, 'settings.db')}`,
+        minConnections: 1,
+        maxConnections: 1,
+        connectionInit: { foreignKeys: false, busyTimeout: 4321, cacheSize: 1234 }
+      });
+
+      const readSettings = async (connection: DatabaseConnection) => ({
+        foreignKeys: (await connection.execute('PRAGMA foreign_keys')).rows[0]?.['foreign_keys'],
+        busyTimeout: (await connection.execute('PRAGMA busy_timeout')).rows[0]?.['timeout'],
+        cacheSize: (await connection.execute('PRAGMA cache_size')).rows[0]?.['cache_size']
+      });
+
+      try {
+        await settingsPool.initialize();
+        const connection = await settingsPool.getConnection();
+
+        await connection.transaction(async tx => {
+          await tx.execute('CREATE TABLE settings_check (id INTEGER PRIMARY KEY)');
+        });
+        expect(await readSettings(connection)).toEqual({
+          foreignKeys: 0,
+          busyTimeout: 4321,
+          cacheSize: 1234
+        });
+
+        const transaction = await connection.beginTransaction();
+        await transaction.commit();
+        expect(await readSettings(connection)).toEqual({
+          foreignKeys: 0,
+          busyTimeout: 4321,
+          cacheSize: 1234
+        });
+
+        settingsPool.releaseConnection(connection);
+      } finally {
+        await settingsPool.close();
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
 });
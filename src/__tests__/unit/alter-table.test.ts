@@ -137,6 +137,24 @@ describe('AlterTableTool', () => {
       });
     });
 
+    it('should not take the operation from strings or comments', () => {
+      const queries = [
+        "ALTER TABLE users 'add column email TEXT'",
+        'ALTER TABLE users -- rename to people\n',
+        'ALTER TABLE users /* drop column email */'
+      ];
+
+      queries.forEach(query => {
+        const result = tool.inputSchema.safeParse({ query });
+        expect(result.success).toBe(false);
+      });
+      expect(
+        tool.inputSchema.safeParse({
+          query: 'ALTER TABLE main."user list" ADD [rename to] TEXT DEFAULT \'drop column\''
+        }).success
+      ).toBe(true);
+    });
+
     it('should apply default values correctly', () => {
       const input = { query: 'ALTER TABLE users ADD COLUMN email TEXT' };
       const result = tool.inputSchema.parse(input);
@@ -354,6 +372,23 @@ describe('AlterTableTool', () => {
       expect(result.content[0].text).toContain('25ms, 1 affected'); // Mocked performance metrics
     });
 
+    it('should return the table and operation as structured content', async () => {
+      mockConnection.transaction = vi.fn(async callback => {
+        return await callback(mockTransaction);
+      });
+      (mockTransaction.execute as any).mockResolvedValue({ rowsAffected: 0 });
+
+      context.arguments = { query: 'ALTER TABLE users RENAME COLUMN name TO full_name' };
+
+      const result = await tool.execute(context);
+
+      expect(result.structuredContent).toEqual({
+        tableName: 'users',
+        operation: 'RENAME COLUMN',
+        metrics: { executionTime: expect.any(Number), rowsAffected: 0 }
+      });
+    });
+
     it('should extract and display table information correctly', async () => {
       const testCases = [
         {
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { z } from 'zod';
+import { McpError, type GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import {
+  BasePrompt,
+  PromptRegistry,
+  type PromptExecutionContext
+} from '../../lib/base-prompt.js';
+import type { DatabaseConnection } from '../../types/index.js';
+import type { TableDescription } from '../../utils/schema-introspection.js';
+
+class TestPrompt extends BasePrompt {
+  readonly name = 'test-prompt';
+  readonly description = 'A test prompt';
+  readonly argumentsSchema = z.object({
+    subject: z.string().min(1, 'Subject cannot be empty').describe('What to talk about'),
+    tone: z.string().optional()
+  });
+
+  protected async buildPrompt(context: PromptExecutionContext): Promise<GetPromptResult> {
+    return {
+      messages: [this.userMessage(`Talk about ${context.arguments['subject']}`)]
+    };
+  }
+
+  renderTable(table: TableDescription): string {
+    return this.formatTable(table);
+  }
+}
+
+describe('BasePrompt', () => {
+  let prompt: TestPrompt;
+  let context: PromptExecutionContext;
+
+  beforeEach(() => {
+    prompt = new TestPrompt();
+    context = {
+      connection: {
+        execute: vi.fn() as any,
+        transaction: vi.fn() as any,
+        close: vi.fn() as any,
+        isHealthy: vi.fn() as any
+      } as DatabaseConnection,
+      arguments: { subject: 'databases' }
+    };
+  });
+
+  it('should build a prompt definition from the arguments schema', () => {
+    expect(prompt.getPromptDefinition()).toEqual({
+      name: 'test-prompt',
+      description: 'A test prompt',
+      arguments: [
+        { name: 'subject', description: 'What to talk about', required: true },
+        { name: 'tone', required: false }
+      ]
+    });
+  });
+
+  it('should build messages from validated arguments', async () => {
+    const result = await prompt.getPrompt(context);
+
+    expect(result.messages).toEqual([
+      { role: 'user', content: { type: 'text', text: 'Talk about databases' } }
+    ]);
+  });
+
+  it('should reject invalid arguments with an McpError', async () => {
+    context.arguments = { subject: '' };
+
+    await expect(prompt.getPrompt(context)).rejects.toThrow(McpError);
+    await expect(prompt.getPrompt(context)).rejects.toThrow('Subject cannot be empty');
+  });
+
+  it('should format tables with columns, indexes and foreign keys', () => {
+    const text = prompt.renderTable({
+      name: 'posts',
+      type: 'table',
+      sql: 'CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER NOT NULL)',
+      columns: [
+        { cid: 0, name: 'id', type: 'INTEGER', notnull: 0, dflt_value: null, pk: 1 },
+        { cid: 1, name: 'user_id', type: 'INTEGER', notnull: 1, dflt_value: null, pk: 0 },
+        { cid: 2, name: 'status', type: 'TEXT', notnull: 0, dflt_value: "'draft'", pk: 0 }
+      ],
+      indexes: [
+        { name: 'idx_posts_user', unique: false, origin: 'c', partial: false, columns: ['user_id'] }
+      ],
+      foreignKeys: [
+        { from: 'user_id', table: 'users', to: 'id', on_update: 'NO ACTION', on_delete: 'CASCADE' }
+      ]
+    });
+
+    expect(text).toContain('Table: posts');
+    expect(text).toContain('- id INTEGER PRIMARY KEY');
+    expect(text).toContain('- user_id INTEGER NOT NULL');
+    expect(text).toContain("- status TEXT DEFAULT 'draft'");
+    expect(text).toContain('- idx_posts_user (INDEX) on (user_id)');
+    expect(text).toContain('- user_id → users.id (NO ACTION/CASCADE)');
+  });
+});
+
+describe('PromptRegistry', () => {
+  let registry: PromptRegistry;
+
+  beforeEach(() => {
+    registry = new PromptRegistry();
+  });
+
+  it('should register and list prompts', () => {
+    registry.register(new TestPrompt());
+
+    expect(registry.get('test-prompt')).toBeInstanceOf(TestPrompt);
+    expect(registry.getPromptDefinitions().map(definition => definition.name)).toEqual([
+      'test-prompt'
+    ]);
+  });
+
+  it('should reject duplicate registrations', () => {
+    registry.register(new TestPrompt());
+
+    expect(() => registry.register(new TestPrompt())).toThrow(
+      'Prompt test-prompt is already registered'
+    );
+  });
+
+  it('should reject unknown prompts', async () => {
+    const context = {
+      connection: {} as DatabaseConnection,
+      arguments: {}
+    };
+
+    await expect(registry.getPrompt('missing', context)).rejects.toThrow('Unknown prompt: missing');
+  });
+});
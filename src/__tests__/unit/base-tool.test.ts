@@ -6,7 +6,7 @@ import {
   type ToolExecutionContext,
   type ToolExecutionResult
 } from '../../lib/base-tool.js';
-import type { DatabaseConnection } from '../../types/index.js';
+import type { DatabaseConnection, QueryOptions } from '../../types/index.js';
 
 // Mock the logger
 vi.mock('../../lib/logger.js', () => ({
@@ -120,6 +120,27 @@ describe('BaseTool', () => {
       });
     });
 
+    it('should advertise the output schema of tools that declare one', () => {
+      class StructuredTool extends MinimalTool {
+        override readonly outputSchema = z.object({
+          rows: z.array(z.record(z.unknown())),
+          cursor: z.string().optional(),
+          value: z.unknown()
+        });
+      }
+
+      expect(new StructuredTool().getToolDefinition().outputSchema).toEqual({
+        type: 'object',
+        properties: {
+          rows: { type: 'array', items: { type: 'object', additionalProperties: {} } },
+          cursor: { type: 'string' },
+          value: {}
+        },
+        required: ['rows']
+      });
+      expect(testTool.getToolDefinition()).not.toHaveProperty('outputSchema');
+    });
+
     it('should handle minimal schema', () => {
       const minimalTool = new MinimalTool();
       const definition = minimalTool.getToolDefinition();
@@ -143,7 +164,11 @@ describe('BaseTool', () => {
         nullType: { type: 'null' },
         nestedArray: {
           type: 'array',
-          items: { type: 'string' } // The base implementation falls back to string for complex objects
+          items: {
+            type: 'object',
+            properties: { id: { type: 'number' } },
+            required: ['id']
+          }
         }
       });
     });
@@ -166,6 +191,20 @@ describe('BaseTool', () => {
       expect(result.isError).toBeUndefined();
     });
 
+    it('should return structured content next to the text', async () => {
+      testTool.executionResult = {
+        content: [{ type: 'text', text: 'Success' }],
+        structuredContent: { rowCount: 1 }
+      };
+
+      const result = await testTool.execute({
+        connection: mockConnection,
+        arguments: { query: 'SELECT 1', numberField: 1, booleanField: true }
+      });
+
+      expect(result.structuredContent).toEqual({ rowCount: 1 });
+    });
+
     it('should execute successfully with optional and default values', async () => {
       const context: ToolExecutionContext = {
         connection: mockConnection,
@@ -310,6 +349,122 @@ describe('BaseTool', () => {
         }
       });
     });
+
+    it('should pass the abort signal to every query the tool runs', async () => {
+      const connection: DatabaseConnection = {
+        execute: vi.fn().mockResolvedValue({ rows: [] }),
+        transaction: vi.fn(async fn => fn({})),
+        close: vi.fn(),
+        isHealthy: vi.fn()
+      };
+      const controller = new AbortController();
+      const executeSpy = vi.spyOn(testTool, 'executeImpl' as any);
+
+      await testTool.execute({
+        connection,
+        arguments: { query: 'SELECT 1', numberField: 1, booleanField: true },
+        signal: controller.signal
+      });
+
+      const boundConnection = (executeSpy.mock.calls[0]?.[0] as ToolExecutionContext).connection;
+      await boundConnection.execute('SELECT 1', [1]);
+      await boundConnection.transaction(async () => 'done');
+
+      expect(connection.execute).toHaveBeenCalledWith('SELECT 1', [1], {
+        signal: controller.signal
+      });
+      expect(connection.transaction).toHaveBeenCalledWith(expect.any(Function), {
+        signal: controller.signal
+      });
+    });
+  });
+
+  describe('per-call timeout', () => {
+    class TimeoutTool extends BaseTool {
+      readonly name = 'timeout-tool';
+      readonly description = 'A tool accepting a per-call timeout';
+      readonly inputSchema = z.object({ query: z.string(), timeoutMs: z.number().optional() });
+
+      protected async executeImpl(context: ToolExecutionContext): Promise<ToolExecutionResult> {
+        await context.connection.execute('SELECT 1');
+        return { content: [{ type: 'text', text: 'Success' }] };
+      }
+    }
+
+    it('should pass timeoutMs to every query the tool runs', async () => {
+      const connection = {
+        execute: vi.fn().mockResolvedValue({ rows: [] })
+      } as unknown as DatabaseConnection;
+
+      await new TimeoutTool().execute({
+        connection,
+        arguments: { query: 'SELECT 1', timeoutMs: 5000 }
+      });
+
+      expect(connection.execute).toHaveBeenCalledWith('SELECT 1', undefined, { timeoutMs: 5000 });
+    });
+
+    it('should leave the connection untouched without a timeout or signal', async () => {
+      const connection = {
+        execute: vi.fn().mockResolvedValue({ rows: [] })
+      } as unknown as DatabaseConnection;
+
+      await new TimeoutTool().execute({ connection, arguments: { query: 'SELECT 1' } });
+
+      expect(connection.execute).toHaveBeenCalledWith('SELECT 1');
+    });
+  });
+
+  describe('transient failure retries', () => {
+    class RetryingTool extends BaseTool {
+      readonly name = 'retrying-tool';
+      readonly description = 'A read-only tool whose queries may be retried';
+      readonly inputSchema = z.object({ query: z.string() });
+      override readonly readOnly = true;
+
+      public retries: number | undefined;
+
+      protected async executeImpl(context: ToolExecutionContext): Promise<ToolExecutionResult> {
+        await context.connection.execute('SELECT 1');
+        this.retries = context.queryStats?.retries;
+        return { content: [{ type: 'text', text: 'Success' }] };
+      }
+    }
+
+    it('should ask for retries and count them for the call', async () => {
+      const connection = {
+        execute: vi.fn(async (_query: string, _params: unknown, options: QueryOptions) => {
+          options.onRetry?.(1, new Error('database is locked'));
+          options.onRetry?.(2, new Error('database is locked'));
+          return { rows: [] };
+        })
+      } as unknown as DatabaseConnection;
+      const tool = new RetryingTool();
+
+      await tool.execute({
+        connection,
+        arguments: { query: 'SELECT 1' },
+        retryTransientErrors: true
+      });
+
+      expect(connection.execute).toHaveBeenCalledWith('SELECT 1', undefined, {
+        retry: true,
+        onRetry: expect.any(Function)
+      });
+      expect(tool.retries).toBe(2);
+    });
+
+    it('should not retry unless the call allows it', async () => {
+      const connection = {
+        execute: vi.fn().mockResolvedValue({ rows: [] })
+      } as unknown as DatabaseConnection;
+      const tool = new RetryingTool();
+
+      await tool.execute({ connection, arguments: { query: 'SELECT 1' } });
+
+      expect(connection.execute).toHaveBeenCalledWith('SELECT 1');
+      expect(tool.retries).toBeUndefined();
+    });
   });
 
   describe('zodSchemaToJsonSchema conversion', () => {
@@ -0,0 +1,330 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { buildConfig, type CLIOptions } from '../../index.js';
+import { Logger } from '../../lib/logger.js';
+
+vi.mock('../../lib/logger.js', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+// index.ts creates its logger after every module it imports has created theirs
+const logger = vi.mocked(Logger).mock.results.at(-1)?.value;
+
+/** CLI options as parsed from the command line, every option not given left undefined */
+const cliOptions = (options: Partial<CLIOptions>): CLIOptions =>
+  ({ url: '', ...options }) as CLIOptions;
+
+describe('buildConfig', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  describe('multiple databases', () => {
+    it('should serve --url as the default database alongside --db databases', () => {
+      const result = buildConfig(
+        cliOptions({ url: 'file:main.db', db: ['analytics=libsql://analytics.turso.io'] })
+      );
+
+      expect(result.defaultDatabase).toBe('default');
+      expect(result.config.url).toBe('file:main.db');
+      expect(result.databases).toEqual({
+        analytics: { url: 'libsql://analytics.turso.io' }
+      });
+    });
+
+    it('should make the first --db the default database without --url', () => {
+      const result = buildConfig(
+        cliOptions({ db: ['dev=file:dev.db', 'prod=libsql://prod.turso.io'] })
+      );
+
+      expect(result.defaultDatabase).toBe('dev');
+      expect(result.config.url).toBe('file:dev.db');
+      expect(Object.keys(result.databases)).toEqual(['prod']);
+    });
+
+    it('should reject a database name defined more than once', () => {
+      expect(() =>
+        buildConfig(cliOptions({ db: ['dev=file:dev.db', 'dev=file:other.db'] }))
+      ).toThrow('Database dev is defined more than once');
+      expect(() =>
+        buildConfig(cliOptions({ url: 'file:main.db', db: ['default=file:other.db'] }))
+      ).toThrow('Database default is defined more than once');
+    });
+
+    it('should reject a default database that is not configured', () => {
+      expect(() => buildConfig(cliOptions({ db: ['dev=file:dev.db'], defaultDb: 'prod' }))).toThrow(
+        'default-db prod is not a configured database (available: dev)'
+      );
+    });
+
+    it('should reject a malformed --db entry', () => {
+      expect(() => buildConfig(cliOptions({ db: ['file:dev.db'] }))).toThrow(
+        '--db must be in the form name=value'
+      );
+      expect(() => buildConfig(cliOptions({ db: ['1dev=file:dev.db'] }))).toThrow(
+        'Invalid database name: 1dev'
+      );
+    });
+  });
+
+  describe('database URLs', () => {
+    it.each(['file:local.db', 'libsql://db.turso.io', 'https://db.example.com', 'ws://127.0.0.1'])(
+      'should accept %s',
+      url => {
+        expect(buildConfig(cliOptions({ db: [`dev=${url}`] })).config.url).toBe(url);
+      }
+    );
+
+    it('should reject a --url that is not a database URL', () => {
+      expect(() => buildConfig(cliOptions({ url: 'local.db' }))).toThrow(
+        'url must be a file:, libsql://, http(s):// or ws(s):// URL'
+      );
+    });
+
+    it('should reject a --db URL that is not a database URL', () => {
+      expect(() => buildConfig(cliOptions({ db: ['dev=postgres://localhost/dev'] }))).toThrow(
+        'URL of database dev must be a file:, libsql://, http(s):// or ws(s):// URL'
+      );
+    });
+  });
+
+  describe('read replicas', () => {
+    it('should give --url and named databases their read replicas', () => {
+      const result = buildConfig(
+        cliOptions({
+          url: 'libsql://primary.turso.io',
+          readUrl: 'libsql://replica.turso.io',
+          db: ['eu=libsql://eu.turso.io'],
+          dbReadUrl: ['eu=libsql://eu-replica.turso.io']
+        })
+      );
+
+      expect(result.config.readUrl).toBe('libsql://replica.turso.io');
+      expect(result.databases['eu']?.readUrl).toBe('libsql://eu-replica.turso.io');
+    });
+
+    it('should reject --read-url without --url', () => {
+      expect(() =>
+        buildConfig(cliOptions({ db: ['eu=libsql://eu.turso.io'], readUrl: 'libsql://r.turso.io' }))
+      ).toThrow('read-url requires --url (use --db-read-url for named databases)');
+    });
+
+    it('should reject a --db-read-url for an unknown database', () => {
+      expect(() =>
+        buildConfig(
+          cliOptions({ url: 'file:main.db', dbReadUrl: ['eu=libsql://eu-replica.turso.io'] })
+        )
+      ).toThrow('--db-read-url refers to unknown database: eu');
+    });
+
+    it('should reject --read-url together with --sync-url', () => {
+      expect(() =>
+        buildConfig(
+          cliOptions({
+            url: 'file:replica.db',
+            syncUrl: 'libsql://primary.turso.io',
+            readUrl: 'libsql://replica.turso.io'
+          })
+        )
+      ).toThrow('read-url cannot be combined with sync-url');
+    });
+  });
+
+  describe('encryption keys', () => {
+    let dir: string;
+    let keyFile: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'mcp-libsql-config-'));
+      keyFile = join(dir, 'db.key');
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should read the key file without its trailing newline', () => {
+      writeFileSync(keyFile, 'file-key\n');
+
+      const result = buildConfig(cliOptions({ url: 'file:secret.db', encryptionKeyFile: keyFile }));
+
+      expect(result.config.encryptionKey).toBe('file-key');
+    });
+
+    it('should prefer the key file over LIBSQL_ENCRYPTION_KEY', () => {
+      vi.stubEnv('LIBSQL_ENCRYPTION_KEY', 'environment-key');
+      writeFileSync(keyFile, 'file-key');
+
+      const result = buildConfig(cliOptions({ url: 'file:secret.db', encryptionKeyFile: keyFile }));
+
+      expect(result.config.encryptionKey).toBe('file-key');
+    });
+
+    it('should fall back to LIBSQL_ENCRYPTION_KEY', () => {
+      vi.stubEnv('LIBSQL_ENCRYPTION_KEY', 'environment-key');
+
+      expect(buildConfig(cliOptions({ url: 'file:secret.db' })).config.encryptionKey).toBe(
+        'environment-key'
+      );
+    });
+
+    it('should ignore LIBSQL_ENCRYPTION_KEY for a remote database', () => {
+      vi.stubEnv('LIBSQL_ENCRYPTION_KEY', 'environment-key');
+
+      const result = buildConfig(cliOptions({ url: 'libsql://db.turso.io' }));
+
+      expect(result.config.encryptionKey).toBeUndefined();
+      expect(logger.warn).toHaveBeenCalledWith(
+        'LIBSQL_ENCRYPTION_KEY is set but --url is not a local file, ignoring it'
+      );
+    });
+
+    it('should reject a key given for a remote database', () => {
+      expect(() =>
+        buildConfig(cliOptions({ url: 'libsql://db.turso.io', encryptionKey: 'inline-key' }))
+      ).toThrow('encryption-key can only be used with a local file --url');
+    });
+
+    it('should reject both an inline key and a key file', () => {
+      writeFileSync(keyFile, 'file-key');
+
+      expect(() =>
+        buildConfig(
+          cliOptions({
+            url: 'file:secret.db',
+            encryptionKey: 'inline-key',
+            encryptionKeyFile: keyFile
+          })
+        )
+      ).toThrow('Use either encryption-key or encryption-key-file, not both');
+    });
+
+    it('should reject an empty inline key', () => {
+      expect(() => buildConfig(cliOptions({ url: 'file:secret.db', encryptionKey: '' }))).toThrow(
+        'encryption-key must be a non-empty string'
+      );
+    });
+
+    it('should reject an empty or missing key file', () => {
+      writeFileSync(keyFile, '\n');
+
+      expect(() =>
+        buildConfig(cliOptions({ url: 'file:secret.db', encryptionKeyFile: keyFile }))
+      ).toThrow(`encryption-key-file ${keyFile} is empty`);
+      expect(() =>
+        buildConfig(
+          cliOptions({ url: 'file:secret.db', encryptionKeyFile: join(dir, 'missing.key') })
+        )
+      ).toThrow('Cannot read encryption-key-file');
+    });
+  });
+
+  describe('auth tokens', () => {
+    const token = 'eyJhbGciOiJFZERTQSJ9.token';
+
+    it('should read the token of a named database from its environment variable', () => {
+      vi.stubEnv('LIBSQL_AUTH_TOKEN_PROD_EU', token);
+
+      const result = buildConfig(
+        cliOptions({ db: ['dev=file:dev.db', 'prod-eu=libsql://prod.turso.io'] })
+      );
+
+      expect(result.databases['prod-eu']?.authToken).toBe(token);
+      expect(result.config.authToken).toBeUndefined();
+    });
+
+    it('should prefer --db-auth-token over the environment', () => {
+      vi.stubEnv('LIBSQL_AUTH_TOKEN_PROD', 'from-environment-token');
+
+      const result = buildConfig(
+        cliOptions({ db: ['prod=libsql://prod.turso.io'], dbAuthToken: [`prod=${token}`] })
+      );
+
+      expect(result.config.authToken).toBe(token);
+    });
+
+    it('should reject a --db-auth-token for an unknown database', () => {
+      expect(() =>
+        buildConfig(cliOptions({ db: ['dev=file:dev.db'], dbAuthToken: [`prod=${token}`] }))
+      ).toThrow('--db-auth-token refers to unknown database: prod');
+    });
+
+    it('should ignore --auth-token with a warning when there is no --url', () => {
+      const result = buildConfig(
+        cliOptions({ db: ['prod=libsql://prod.turso.io'], authToken: token })
+      );
+
+      expect(result.config.authToken).toBeUndefined();
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.stringContaining('auth-token requires --url and is ignored')
+      );
+    });
+  });
+
+  describe('auth token files', () => {
+    const token = 'eyJhbGciOiJFZERTQSJ9.token';
+    let dir: string;
+    let tokenFile: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'mcp-libsql-config-'));
+      tokenFile = join(dir, 'token');
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should read and trim the token and keep the file for rotation', () => {
+      writeFileSync(tokenFile, `${token}\n`);
+
+      const result = buildConfig(
+        cliOptions({ url: 'libsql://db.turso.io', authTokenFile: tokenFile })
+      );
+
+      expect(result.config.authToken).toBe(token);
+      expect(result.config.authTokenFile).toBe(tokenFile);
+    });
+
+    it('should reject both --auth-token and --auth-token-file', () => {
+      writeFileSync(tokenFile, token);
+
+      expect(() =>
+        buildConfig(
+          cliOptions({ url: 'libsql://db.turso.io', authToken: token, authTokenFile: tokenFile })
+        )
+      ).toThrow('Use either auth-token or auth-token-file, not both');
+    });
+
+    it('should require --url', () => {
+      writeFileSync(tokenFile, token);
+
+      expect(() =>
+        buildConfig(cliOptions({ db: ['prod=libsql://prod.turso.io'], authTokenFile: tokenFile }))
+      ).toThrow('auth-token-file requires --url');
+    });
+
+    it('should reject an empty token file', () => {
+      writeFileSync(tokenFile, '  \n');
+
+      expect(() =>
+        buildConfig(cliOptions({ url: 'libsql://db.turso.io', authTokenFile: tokenFile }))
+      ).toThrow(`auth-token-file ${tokenFile} is empty`);
+    });
+
+    it('should reject a missing token file', () => {
+      expect(() =>
+        buildConfig(
+          cliOptions({ url: 'libsql://db.turso.io', authTokenFile: join(dir, 'missing') })
+        )
+      ).toThrow(`Cannot read auth-token-file ${join(dir, 'missing')}`);
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { CircuitBreaker } from '../../lib/circuit-breaker.js';
+import { DatabaseUnavailableError } from '../../utils/error-handler.js';
+
+vi.mock('../../lib/logger.js', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+describe('CircuitBreaker', () => {
+  let onStateChange: ReturnType<typeof vi.fn>;
+  let breaker: CircuitBreaker;
+
+  const fail = (times: number): void => {
+    for (let i = 0; i < times; i++) {
+      breaker.recordFailure(new Error('fetch failed'));
+    }
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    onStateChange = vi.fn();
+    breaker = new CircuitBreaker('libsql://my-db.turso.io', {
+      failureThreshold: 3,
+      resetTimeout: 10000,
+      onStateChange
+    });
+  });
+
+  afterEach(() => {
+    breaker.stop();
+    vi.useRealTimers();
+  });
+
+  it('should open after failureThreshold consecutive failures', () => {
+    fail(2);
+    expect(breaker.getState()).toBe('closed');
+    expect(() => breaker.ensureClosed()).not.toThrow();
+
+    fail(1);
+
+    expect(breaker.getState()).toBe('open');
+    expect(onStateChange).toHaveBeenCalledWith('open');
+    expect(() => breaker.ensureClosed()).toThrow(DatabaseUnavailableError);
+    expect(() => breaker.ensureClosed()).toThrow(
+      'Database unavailable: connections keep failing (fetch failed), next reconnection attempt in 10s'
+    );
+  });
+
+  it('should only count consecutive failures', () => {
+    fail(2);
+    breaker.recordSuccess();
+    fail(2);
+
+    expect(breaker.getState()).toBe('closed');
+  });
+
+  it('should go half-open after resetTimeout and close when the probe succeeds', async () => {
+    fail(3);
+
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(breaker.getState()).toBe('half-open');
+    expect(onStateChange).toHaveBeenLastCalledWith('half-open');
+    expect(() => breaker.ensureClosed()).toThrow('reconnecting now');
+
+    breaker.recordSuccess();
+
+    expect(breaker.getState()).toBe('closed');
+    expect(onStateChange).toHaveBeenLastCalledWith('closed');
+    expect(breaker.getStatus()).toEqual({ state: 'closed', consecutiveFailures: 0 });
+  });
+
+  it('should open again when the probe fails', async () => {
+    fail(3);
+    await vi.advanceTimersByTimeAsync(10000);
+
+    fail(1);
+
+    expect(breaker.getState()).toBe('open');
+    await vi.advanceTimersByTimeAsync(9999);
+    expect(breaker.getState()).toBe('open');
+    await vi.advanceTimersByTimeAsync(1);
+    expect(breaker.getState()).toBe('half-open');
+  });
+
+  it('should report the state, failures and next probe time', () => {
+    vi.setSystemTime(new Date('2026-01-01T00:00:00.000Z'));
+    fail(3);
+
+    expect(breaker.getStatus()).toEqual({
+      state: 'open',
+      consecutiveFailures: 3,
+      lastError: 'fetch failed',
+      nextProbeAt: '2026-01-01T00:00:10.000Z'
+    });
+  });
+});
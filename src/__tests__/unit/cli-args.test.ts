@@ -10,18 +10,39 @@ const mockParseArgs = parseArgs as vi.MockedFunction<typeof parseArgs>;
 
 // Import the types we need
 import type { LogMode } from '../../lib/logger.js';
+import type { TransportType } from '../../types/index.js';
 
 interface CLIOptions {
   url: string;
   authToken: string | undefined;
+  authTokenFile: string | undefined;
   minConnections: number | undefined;
   maxConnections: number | undefined;
   connectionTimeout: number | undefined;
   queryTimeout: number | undefined;
+  idleTimeout: number | undefined;
+  maxLifetime: number | undefined;
+  retryAttempts: number | undefined;
+  retryInterval: number | undefined;
+  retryMaxDelay: number | undefined;
+  syncUrl: string | undefined;
+  syncInterval: number | undefined;
+  readYourWrites: boolean | undefined;
   help: boolean | undefined;
   version: boolean | undefined;
   dev: boolean | undefined;
   logMode: LogMode | undefined;
+  transport: TransportType | undefined;
+  port: number | undefined;
+  host: string | undefined;
+  db: string[] | undefined;
+  dbAuthToken: string[] | undefined;
+  readUrl: string | undefined;
+  dbReadUrl: string[] | undefined;
+  encryptionKey: string | undefined;
+  encryptionKeyFile: string | undefined;
+  defaultDb: string | undefined;
+  config: string | undefined;
 }
 
 // Replicate the parsing logic from index.ts for testing
@@ -31,11 +52,31 @@ function parseCliArgs(): CLIOptions {
     options: {
       url: { type: 'string' },
       'auth-token': { type: 'string' },
+      'auth-token-file': { type: 'string' },
       'min-connections': { type: 'string' },
       'max-connections': { type: 'string' },
       'connection-timeout': { type: 'string' },
       'query-timeout': { type: 'string' },
+      'idle-timeout': { type: 'string' },
+      'max-lifetime': { type: 'string' },
+      'retry-attempts': { type: 'string' },
+      'retry-interval': { type: 'string' },
+      'retry-max-delay': { type: 'string' },
+      'sync-url': { type: 'string' },
+      'sync-interval': { type: 'string' },
+      'read-your-writes': { type: 'boolean' },
       'log-mode': { type: 'string' },
+      transport: { type: 'string' },
+      port: { type: 'string' },
+      host: { type: 'string' },
+      db: { type: 'string', multiple: true },
+      'db-auth-token': { type: 'string', multiple: true },
+      'read-url': { type: 'string' },
+      'encryption-key': { type: 'string' },
+      'encryption-key-file': { type: 'string' },
+      'db-read-url': { type: 'string', multiple: true },
+      'default-db': { type: 'string' },
+      config: { type: 'string', short: 'c' },
       dev: { type: 'boolean', short: 'd' },
       help: { type: 'boolean', short: 'h' },
       version: { type: 'boolean', short: 'v' }
@@ -45,7 +86,10 @@ function parseCliArgs(): CLIOptions {
 
   return {
     url: values.url || '',
-    authToken: values['auth-token'] || process.env['LIBSQL_AUTH_TOKEN'],
+    authToken:
+      values['auth-token'] ||
+      (values['auth-token-file'] ? undefined : process.env['LIBSQL_AUTH_TOKEN']),
+    authTokenFile: values['auth-token-file'],
     minConnections: values['min-connections']
       ? parseInt(values['min-connections'], 10)
       : undefined,
@@ -56,7 +100,26 @@ function parseCliArgs(): CLIOptions {
       ? parseInt(values['connection-timeout'], 10)
       : undefined,
     queryTimeout: values['query-timeout'] ? parseInt(values['query-timeout'], 10) : undefined,
+    idleTimeout: values['idle-timeout'] ? parseInt(values['idle-timeout'], 10) : undefined,
+    maxLifetime: values['max-lifetime'] ? parseInt(values['max-lifetime'], 10) : undefined,
+    retryAttempts: values['retry-attempts'] ? parseInt(values['retry-attempts'], 10) : undefined,
+    retryInterval: values['retry-interval'] ? parseInt(values['retry-interval'], 10) : undefined,
+    retryMaxDelay: values['retry-max-delay'] ? parseInt(values['retry-max-delay'], 10) : undefined,
+    syncUrl: values['sync-url'],
+    syncInterval: values['sync-interval'] ? parseInt(values['sync-interval'], 10) : undefined,
+    readYourWrites: values['read-your-writes'],
     logMode: values['log-mode'] as LogMode | undefined,
+    transport: values.transport as TransportType | undefined,
+    port: values.port ? parseInt(values.port, 10) : undefined,
+    host: values.host,
+    db: values.db,
+    dbAuthToken: values['db-auth-token'],
+    readUrl: values['read-url'],
+    dbReadUrl: values['db-read-url'],
+    encryptionKey: values['encryption-key'],
+    encryptionKeyFile: values['encryption-key-file'],
+    defaultDb: values['default-db'],
+    config: values.config,
     dev: values.dev,
     help: values.help,
     version: values.version
@@ -231,6 +294,40 @@ describe('CLI Arguments Parsing', () => {
       expect(result.connectionTimeout).toBe(3000);
       expect(result.queryTimeout).toBe(8000);
     });
+
+    it('should parse idle-timeout and max-lifetime, including 0 to disable', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          url: 'file:test.db',
+          'idle-timeout': '60000',
+          'max-lifetime': '0'
+        },
+        positionals: []
+      });
+
+      const result = parseCliArgs();
+
+      expect(result.idleTimeout).toBe(60000);
+      expect(result.maxLifetime).toBe(0);
+    });
+
+    it('should parse the retry policy', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          url: 'libsql://my-db.turso.io',
+          'retry-attempts': '5',
+          'retry-interval': '100',
+          'retry-max-delay': '2000'
+        },
+        positionals: []
+      });
+
+      const result = parseCliArgs();
+
+      expect(result.retryAttempts).toBe(5);
+      expect(result.retryInterval).toBe(100);
+      expect(result.retryMaxDelay).toBe(2000);
+    });
   });
 
   describe('boolean flags', () => {
@@ -383,6 +480,228 @@ describe('CLI Arguments Parsing', () => {
     });
   });
 
+  describe('transport options', () => {
+    it('should parse http transport with port and host', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          url: 'file:test.db',
+          transport: 'http',
+          port: '8081',
+          host: '0.0.0.0'
+        },
+        positionals: []
+      });
+
+      const result = parseCliArgs();
+
+      expect(result.transport).toBe('http');
+      expect(result.port).toBe(8081);
+      expect(result.host).toBe('0.0.0.0');
+    });
+
+    it('should parse stdio transport correctly', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          url: 'file:test.db',
+          transport: 'stdio'
+        },
+        positionals: []
+      });
+
+      const result = parseCliArgs();
+
+      expect(result.transport).toBe('stdio');
+      expect(result.port).toBeUndefined();
+      expect(result.host).toBeUndefined();
+    });
+
+    it('should return undefined when transport options are not specified', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          url: 'file:test.db'
+        },
+        positionals: []
+      });
+
+      const result = parseCliArgs();
+
+      expect(result.transport).toBeUndefined(); // Should default to 'stdio'
+      expect(result.port).toBeUndefined();
+      expect(result.host).toBeUndefined();
+    });
+
+    it('should preserve invalid port values for validation', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          url: 'file:test.db',
+          transport: 'http',
+          port: 'not-a-port'
+        },
+        positionals: []
+      });
+
+      const result = parseCliArgs();
+
+      expect(result.port).toBeNaN();
+      // Note: Actual validation happens in validateOptions() function
+    });
+  });
+
+  describe('multiple database options', () => {
+    it('should parse repeated db options', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          db: ['dev=file:dev.db', 'prod=libsql://prod.turso.io'],
+          'db-auth-token': ['prod=prod-token-123'],
+          'default-db': 'dev'
+        },
+        positionals: []
+      });
+
+      const result = parseCliArgs();
+
+      expect(result.url).toBe('');
+      expect(result.db).toEqual(['dev=file:dev.db', 'prod=libsql://prod.turso.io']);
+      expect(result.dbAuthToken).toEqual(['prod=prod-token-123']);
+      expect(result.defaultDb).toBe('dev');
+    });
+
+    it('should allow db options alongside url', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          url: 'file:local.db',
+          db: ['analytics=file:analytics.db']
+        },
+        positionals: []
+      });
+
+      const result = parseCliArgs();
+
+      expect(result.url).toBe('file:local.db');
+      expect(result.db).toEqual(['analytics=file:analytics.db']);
+      expect(result.defaultDb).toBeUndefined();
+    });
+
+    it('should return undefined when db options are not specified', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          url: 'file:test.db'
+        },
+        positionals: []
+      });
+
+      const result = parseCliArgs();
+
+      expect(result.db).toBeUndefined();
+      expect(result.dbAuthToken).toBeUndefined();
+      expect(result.defaultDb).toBeUndefined();
+    });
+  });
+
+  describe('encryption options', () => {
+    it('should parse encryption-key and encryption-key-file', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          url: 'file:secret.db',
+          'encryption-key': 'key-123',
+          'encryption-key-file': '/run/secrets/db-key'
+        },
+        positionals: []
+      });
+
+      const result = parseCliArgs();
+
+      expect(result.encryptionKey).toBe('key-123');
+      expect(result.encryptionKeyFile).toBe('/run/secrets/db-key');
+    });
+  });
+
+  describe('read replica options', () => {
+    it('should parse read-url and repeated db-read-url options', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          url: 'libsql://primary.turso.io',
+          'read-url': 'libsql://replica.turso.io',
+          db: ['prod=libsql://prod.turso.io'],
+          'db-read-url': ['prod=libsql://prod-replica.turso.io']
+        },
+        positionals: []
+      });
+
+      const result = parseCliArgs();
+
+      expect(result.readUrl).toBe('libsql://replica.turso.io');
+      expect(result.dbReadUrl).toEqual(['prod=libsql://prod-replica.turso.io']);
+    });
+  });
+
+  describe('embedded replica options', () => {
+    it('should parse sync-url, sync-interval and read-your-writes', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          url: 'file:replica.db',
+          'sync-url': 'libsql://my-db.turso.io',
+          'sync-interval': '60',
+          'read-your-writes': true
+        },
+        positionals: []
+      });
+
+      const result = parseCliArgs();
+
+      expect(result.url).toBe('file:replica.db');
+      expect(result.syncUrl).toBe('libsql://my-db.turso.io');
+      expect(result.syncInterval).toBe(60);
+      expect(result.readYourWrites).toBe(true);
+    });
+
+    it('should return undefined when replica options are not specified', () => {
+      mockParseArgs.mockReturnValue({
+        values: { url: 'file:test.db' },
+        positionals: []
+      });
+
+      const result = parseCliArgs();
+
+      expect(result.syncUrl).toBeUndefined();
+      expect(result.syncInterval).toBeUndefined();
+      expect(result.readYourWrites).toBeUndefined();
+    });
+  });
+
+  describe('config option', () => {
+    it('should parse config path', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          config: './mcp-libsql.yaml'
+        },
+        positionals: []
+      });
+
+      const result = parseCliArgs();
+
+      expect(result.config).toBe('./mcp-libsql.yaml');
+      expect(result.url).toBe('');
+    });
+
+    it('should allow CLI options alongside a config file', () => {
+      mockParseArgs.mockReturnValue({
+        values: {
+          config: 'config.json',
+          url: 'file:override.db',
+          'max-connections': '4'
+        },
+        positionals: []
+      });
+
+      const result = parseCliArgs();
+
+      expect(result.config).toBe('config.json');
+      expect(result.url).toBe('file:override.db');
+      expect(result.maxConnections).toBe(4);
+    });
+  });
+
   describe('default behavior', () => {
     it('should default logMode to file when not specified', () => {
       mockParseArgs.mockReturnValue({
@@ -559,6 +878,40 @@ describe('Log Mode Validation', () => {
   });
 });
 
+describe('Transport Validation', () => {
+  const validTransports = ['stdio', 'http'];
+
+  it('should identify valid transports', () => {
+    validTransports.forEach(transport => {
+      expect(validTransports.includes(transport)).toBe(true);
+    });
+  });
+
+  it('should identify invalid transports', () => {
+    const invalidTransports = ['sse', 'websocket', 'HTTP', ''];
+
+    invalidTransports.forEach(transport => {
+      expect(validTransports.includes(transport)).toBe(false);
+    });
+  });
+});
+
+describe('Database Name Validation', () => {
+  const databaseNamePattern = /^[a-zA-Z][\w-]*$/;
+
+  it('should accept valid database names', () => {
+    ['default', 'dev', 'prod_eu', 'analytics-2'].forEach(name => {
+      expect(databaseNamePattern.test(name)).toBe(true);
+    });
+  });
+
+  it('should reject invalid database names', () => {
+    ['', '1db', '-dev', 'my db', 'db=x'].forEach(name => {
+      expect(databaseNamePattern.test(name)).toBe(false);
+    });
+  });
+});
+
 describe('CLI Examples from Help Text', () => {
   it('should parse basic example correctly', () => {
     // mcp-libsql-server --url "file:local.db"
@@ -625,6 +978,42 @@ describe('CLI Examples from Help Text', () => {
     expect(result.logMode).toBe('console');
   });
 
+  it('should parse http transport example correctly', () => {
+    // mcp-libsql --url "file:local.db" --transport http --port 3000 --host 0.0.0.0
+    mockParseArgs.mockReturnValue({
+      values: {
+        url: 'file:local.db',
+        transport: 'http',
+        port: '3000',
+        host: '0.0.0.0'
+      },
+      positionals: []
+    });
+
+    const result = parseCliArgs();
+
+    expect(result.url).toBe('file:local.db');
+    expect(result.transport).toBe('http');
+    expect(result.port).toBe(3000);
+    expect(result.host).toBe('0.0.0.0');
+  });
+
+  it('should parse multiple database example correctly', () => {
+    // mcp-libsql --db dev=file:dev.db --db prod=libsql://your-db.turso.io --default-db dev
+    mockParseArgs.mockReturnValue({
+      values: {
+        db: ['dev=file:dev.db', 'prod=libsql://your-db.turso.io'],
+        'default-db': 'dev'
+      },
+      positionals: []
+    });
+
+    const result = parseCliArgs();
+
+    expect(result.db).toEqual(['dev=file:dev.db', 'prod=libsql://your-db.turso.io']);
+    expect(result.defaultDb).toBe('dev');
+  });
+
   it('should parse turso auth token example correctly', () => {
     // mcp-libsql-server --url "libsql://your-db.turso.io" --auth-token "your-token" --max-connections 20
     mockParseArgs.mockReturnValue({
@@ -771,6 +1160,23 @@ describe('Authentication Token Parsing', () => {
       
       expect(result.authToken).toBeUndefined();
     });
+
+    it('should ignore the environment variable when auth-token-file is given', () => {
+      process.env['LIBSQL_AUTH_TOKEN'] = 'test-env-token-456';
+
+      mockParseArgs.mockReturnValue({
+        values: {
+          url: 'libsql://my-db.turso.io',
+          'auth-token-file': '/run/secrets/turso-token'
+        },
+        positionals: []
+      });
+
+      const result = parseCliArgs();
+
+      expect(result.authToken).toBeUndefined();
+      expect(result.authTokenFile).toBe('/run/secrets/turso-token');
+    });
   });
 
   describe('Authentication with other options', () => {
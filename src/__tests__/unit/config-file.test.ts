@@ -0,0 +1,293 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  ConfigFileError,
+  ConfigFileWatcher,
+  interpolateEnv,
+  loadConfigFile,
+  parseConfigFile
+} from '../../lib/config-file.js';
+
+vi.mock('../../lib/logger.js', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+describe('Config file', () => {
+  describe('interpolateEnv', () => {
+    it('should replace environment variable references in nested values', () => {
+      const result = interpolateEnv(
+        { url: 'libsql://${DB_HOST}', tools: { disabled: ['${TOOL}'] }, pool: { max: 5 } },
+        { DB_HOST: 'db.turso.io', TOOL: 'write-query' }
+      );
+
+      expect(result).toEqual({
+        url: 'libsql://db.turso.io',
+        tools: { disabled: ['write-query'] },
+        pool: { max: 5 }
+      });
+    });
+
+    it('should throw when a referenced variable is not set', () => {
+      expect(() => interpolateEnv({ authToken: '${MISSING_TOKEN}' }, {})).toThrow(
+        'Environment variable MISSING_TOKEN is not set'
+      );
+    });
+  });
+
+  describe('parseConfigFile', () => {
+    it('should parse YAML with all sections', () => {
+      const config = parseConfigFile(
+        `
+url: file:local.db
+authToken: \${TOKEN}
+databases:
+  prod:
+    url: libsql://prod.turso.io
+    authToken: \${PROD_TOKEN}
+defaultDatabase: prod
+pool:
+  minConnections: 2
+  maxConnections: 8
+timeouts:
+  connection: 5000
+  query: 10000
+limits:
+  maxResultSize: 500
+logging:
+  mode: console
+  level: DEBUG
+tools:
+  disabled: [write-query]
+`,
+        'mcp-libsql.yaml',
+        { TOKEN: 'local-token-123', PROD_TOKEN: 'prod-token-123' }
+      );
+
+      expect(config).toEqual({
+        url: 'file:local.db',
+        authToken: 'local-token-123',
+        databases: { prod: { url: 'libsql://prod.turso.io', authToken: 'prod-token-123' } },
+        defaultDatabase: 'prod',
+        pool: { minConnections: 2, maxConnections: 8 },
+        timeouts: { connection: 5000, query: 10000 },
+        limits: { maxResultSize: 500 },
+        logging: { mode: 'console', level: 'DEBUG' },
+        tools: { disabled: ['write-query'] }
+      });
+    });
+
+    it('should accept a retry policy', () => {
+      const config = parseConfigFile(
+        'retry:\n  attempts: 5\n  interval: 100\n  maxDelay: 2000\n  jitter: 0.3\n',
+        'config.yaml'
+      );
+
+      expect(config.retry).toEqual({ attempts: 5, interval: 100, maxDelay: 2000, jitter: 0.3 });
+      expect(() => parseConfigFile('retry:\n  jitter: 2\n', 'config.yaml')).toThrow(
+        /retry\.jitter/
+      );
+      expect(() => parseConfigFile('retry:\n  attempts: 0\n', 'config.yaml')).toThrow(
+        /retry\.attempts/
+      );
+    });
+
+    it('should accept circuit breaker settings', () => {
+      const config = parseConfigFile(
+        'circuitBreaker:\n  failureThreshold: 3\n  resetTimeout: 15000\n',
+        'config.yaml'
+      );
+
+      expect(config.circuitBreaker).toEqual({ failureThreshold: 3, resetTimeout: 15000 });
+      expect(() => parseConfigFile('circuitBreaker:\n  resetTimeout: 10\n', 'config.yaml')).toThrow(
+        /circuitBreaker\.resetTimeout/
+      );
+    });
+
+    it('should accept pool idleTimeout and maxLifetime', () => {
+      const config = parseConfigFile(
+        'pool:\n  idleTimeout: 60000\n  maxLifetime: 0\n',
+        'config.yaml'
+      );
+
+      expect(config.pool).toEqual({ idleTimeout: 60000, maxLifetime: 0 });
+      expect(() => parseConfigFile('pool:\n  idleTimeout: -1\n', 'config.yaml')).toThrow(
+        /pool\.idleTimeout/
+      );
+    });
+
+    it('should accept an encryption key from the environment', () => {
+      const config = parseConfigFile(
+        'url: file:secret.db\nencryptionKey: ${DB_KEY}\n',
+        'config.yaml',
+        { DB_KEY: 'key-123' }
+      );
+
+      expect(config.encryptionKey).toBe('key-123');
+    });
+
+    it('should accept an auth token file', () => {
+      const config = parseConfigFile(
+        'url: libsql://my-db.turso.io\nauthTokenFile: /run/secrets/turso-token\n',
+        'config.yaml'
+      );
+
+      expect(config.authTokenFile).toBe('/run/secrets/turso-token');
+      expect(() => parseConfigFile('authTokenFile: ""\n', 'config.yaml')).toThrow(
+        /authTokenFile cannot be empty/
+      );
+    });
+
+    it('should accept read replica URLs for the default and named databases', () => {
+      const config = parseConfigFile(
+        'url: libsql://primary.turso.io\nreadUrl: libsql://replica.turso.io\ndatabases:\n  prod:\n    url: libsql://prod.turso.io\n    readUrl: libsql://prod-replica.turso.io\n',
+        'config.yaml'
+      );
+
+      expect(config.readUrl).toBe('libsql://replica.turso.io');
+      expect(config.databases?.['prod']?.readUrl).toBe('libsql://prod-replica.turso.io');
+    });
+
+    it('should accept an embedded replica sync section', () => {
+      const config = parseConfigFile(
+        'url: file:replica.db\nsync:\n  url: libsql://my-db.turso.io\n  interval: 60\n  readYourWrites: true\n',
+        'config.yaml'
+      );
+
+      expect(config.sync).toEqual({
+        url: 'libsql://my-db.turso.io',
+        interval: 60,
+        readYourWrites: true
+      });
+      expect(() => parseConfigFile('sync:\n  interval: 60\n', 'config.yaml')).toThrow(/sync\.url/);
+    });
+
+    it('should accept connection init settings', () => {
+      const config = parseConfigFile(
+        'connectionInit:\n  foreignKeys: true\n  busyTimeout: 5000\n  cacheSize: -2000\n',
+        'config.yaml'
+      );
+
+      expect(config.connectionInit).toEqual({
+        foreignKeys: true,
+        busyTimeout: 5000,
+        cacheSize: -2000
+      });
+      expect(() => parseConfigFile('connectionInit:\n  journalMode: wal\n', 'config.yaml')).toThrow(
+        /journalMode/
+      );
+      expect(() => parseConfigFile('connectionInit:\n  busyTimeout: -1\n', 'config.yaml')).toThrow(
+        /connectionInit\.busyTimeout/
+      );
+    });
+
+    it('should parse JSON files', () => {
+      const config = parseConfigFile(
+        '{"url": "file:local.db", "pool": {"maxConnections": 3}}',
+        'config.json'
+      );
+
+      expect(config).toEqual({ url: 'file:local.db', pool: { maxConnections: 3 } });
+    });
+
+    it('should treat an empty YAML file as an empty configuration', () => {
+      expect(parseConfigFile('', 'empty.yaml')).toEqual({});
+    });
+
+    it('should reject malformed files', () => {
+      expect(() => parseConfigFile('{"url": ', 'config.json')).toThrow(ConfigFileError);
+      expect(() => parseConfigFile('url: [unclosed', 'config.yaml')).toThrow('Invalid YAML');
+    });
+
+    it('should report every validation issue with its path', () => {
+      expect(() =>
+        parseConfigFile(
+          'pool:\n  minConnections: 5\n  maxConnections: 2\ntimeouts:\n  query: 10\n',
+          'config.yaml'
+        )
+      ).toThrow(/pool: minConnections cannot be greater than maxConnections.*timeouts\.query/);
+    });
+
+    it('should reject unknown settings', () => {
+      expect(() => parseConfigFile('poolSize: 4\n', 'config.yaml')).toThrow(/Unrecognized key/);
+    });
+
+    it('should reject invalid database names', () => {
+      expect(() =>
+        parseConfigFile('databases:\n  "1st":\n    url: file:a.db\n', 'config.yaml')
+      ).toThrow('Invalid database name');
+    });
+  });
+
+  describe('loadConfigFile and ConfigFileWatcher', () => {
+    let dir: string;
+    let path: string;
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'mcp-libsql-config-'));
+      path = join(dir, 'mcp-libsql.yaml');
+    });
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true });
+    });
+
+    it('should load a config file from disk', async () => {
+      await writeFile(path, 'url: file:local.db\n');
+
+      await expect(loadConfigFile(path)).resolves.toEqual({ url: 'file:local.db' });
+    });
+
+    it('should report a missing file', async () => {
+      await expect(loadConfigFile(join(dir, 'missing.yaml'))).rejects.toThrow(
+        'Cannot read config file'
+      );
+    });
+
+    it('should pass valid changes to the handler and skip invalid ones', async () => {
+      const onChange = vi.fn().mockResolvedValue(undefined);
+      const watcher = new ConfigFileWatcher(path, onChange, { interval: 1000 });
+
+      await writeFile(path, 'pool:\n  maxConnections: 4\n');
+      await watcher.reload();
+
+      await writeFile(path, 'pool:\n  maxConnections: zero\n');
+      await watcher.reload();
+
+      expect(onChange).toHaveBeenCalledTimes(1);
+      expect(onChange).toHaveBeenCalledWith({ pool: { maxConnections: 4 } });
+    });
+
+    it('should keep watching after the handler fails', async () => {
+      const onChange = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('Connection refused'))
+        .mockResolvedValue(undefined);
+      const watcher = new ConfigFileWatcher(path, onChange, { interval: 1000 });
+
+      await writeFile(path, 'url: libsql://unreachable.turso.io\n');
+      await expect(watcher.reload()).resolves.toBeUndefined();
+
+      await writeFile(path, 'url: file:local.db\n');
+      await watcher.reload();
+
+      expect(onChange).toHaveBeenLastCalledWith({ url: 'file:local.db' });
+    });
+
+    it('should start and stop watching the file', async () => {
+      await writeFile(path, 'url: file:local.db\n');
+      const watcher = new ConfigFileWatcher(path, vi.fn(), { interval: 1000 });
+
+      watcher.start();
+      watcher.start();
+      watcher.stop();
+      watcher.stop();
+    });
+  });
+});
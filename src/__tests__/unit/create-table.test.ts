@@ -136,6 +136,24 @@ describe('CreateTableTool', () => {
       });
     });
 
+    it('should not take column definitions from strings or comments', () => {
+      const queries = [
+        "CREATE TABLE users (id INT, note TEXT DEFAULT ')'",
+        'CREATE TABLE users (id INT -- )\n',
+        'CREATE TABLE users (/* id */)'
+      ];
+
+      queries.forEach(query => {
+        const result = tool.inputSchema.safeParse({ query });
+        expect(result.success).toBe(false);
+      });
+      expect(
+        tool.inputSchema.safeParse({
+          query: 'CREATE TABLE IF NOT EXISTS main."user list" ([id] INT, note TEXT DEFAULT \')\')'
+        }).success
+      ).toBe(true);
+    });
+
     it('should apply default values correctly', () => {
       const input = { query: 'CREATE TABLE users (id INTEGER, name TEXT)' };
       const result = tool.inputSchema.parse(input);
@@ -370,6 +388,22 @@ describe('CreateTableTool', () => {
       expect(result.content[0].text).toContain('25ms, 1 affected'); // Mocked performance metrics
     });
 
+    it('should return the table name as structured content', async () => {
+      mockConnection.transaction = vi.fn(async callback => {
+        return await callback(mockTransaction);
+      });
+      (mockTransaction.execute as any).mockResolvedValue({ rowsAffected: 0 });
+
+      context.arguments = { query: 'CREATE TABLE "user_profiles" (id INTEGER)' };
+
+      const result = await tool.execute(context);
+
+      expect(result.structuredContent).toEqual({
+        tableName: 'user_profiles',
+        metrics: { executionTime: expect.any(Number), rowsAffected: 0 }
+      });
+    });
+
     it('should extract and display table name correctly', async () => {
       const testCases = [
         { query: 'CREATE TABLE users (id INTEGER)', expected: 'users' },
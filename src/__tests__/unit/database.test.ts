@@ -1,6 +1,16 @@
 import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { LibSQLConnection, LibSQLConnectionPool } from '../../lib/database.js';
 import type { DatabaseConfig } from '../../types/index.js';
+import {
+  DatabaseUnavailableError,
+  EncryptionKeyError,
+  QueryCancelledError,
+  QueryTimeoutError
+} from '../../utils/error-handler.js';
+import { logger } from '../../lib/logger.js';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { dirname, join } from 'path';
 
 // Mock libSQL client
 vi.mock('@libsql/client', () => ({
@@ -71,6 +81,168 @@ describe('LibSQLConnection', () => {
     });
   });
 
+  it('should abandon a query when its signal aborts', async () => {
+    const mockClient = (connection as any).client;
+    mockClient.execute.mockResolvedValueOnce({ rows: [], rowsAffected: 0 });
+    await connection.connect();
+    mockClient.execute.mockReturnValueOnce(new Promise(() => undefined));
+    const controller = new AbortController();
+
+    const query = connection.execute('SELECT * FROM big_table', [], {
+      signal: controller.signal
+    });
+    controller.abort();
+
+    await expect(query).rejects.toThrow(QueryCancelledError);
+  });
+
+  it('should not start a query whose signal is already aborted', async () => {
+    const mockClient = (connection as any).client;
+    mockClient.execute.mockResolvedValue({ rows: [], rowsAffected: 0 });
+    await connection.connect();
+    mockClient.execute.mockClear();
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      connection.execute('SELECT 1', [], { signal: controller.signal })
+    ).rejects.toThrow(QueryCancelledError);
+    expect(mockClient.execute).not.toHaveBeenCalled();
+  });
+
+  it('should roll back a transaction when its signal aborts', async () => {
+    const mockClient = (connection as any).client;
+    mockClient.execute.mockResolvedValue({ rows: [], rowsAffected: 0 });
+    const tx = {
+      execute: vi.fn(() => new Promise(() => undefined)),
+      commit: vi.fn(),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      close: vi.fn()
+    };
+    mockClient.transaction = vi.fn().mockResolvedValue(tx);
+    await connection.connect();
+    const controller = new AbortController();
+
+    const transaction = connection.transaction(
+      async (t: typeof tx) => t.execute('UPDATE users SET name = ?'),
+      { signal: controller.signal }
+    );
+    await vi.waitFor(() => expect(tx.execute).toHaveBeenCalled());
+    controller.abort();
+
+    await expect(transaction).rejects.toThrow(QueryCancelledError);
+    expect(tx.close).toHaveBeenCalled();
+    expect(tx.commit).not.toHaveBeenCalled();
+  });
+
+  it('should time out queries after the configured queryTimeout and replace the client', async () => {
+    connection = new LibSQLConnection({ ...config, queryTimeout: 20 });
+    const mockClient = (connection as any).client;
+    mockClient.execute.mockResolvedValueOnce({ rows: [], rowsAffected: 0 });
+    await connection.connect();
+    mockClient.execute.mockReturnValueOnce(new Promise(() => undefined));
+
+    const query = connection.execute('SELECT * FROM big_table');
+
+    await expect(query).rejects.toThrow(QueryTimeoutError);
+    await expect(query).rejects.toThrow('Query timed out after 20ms');
+    expect(mockClient.close).toHaveBeenCalled();
+    expect((connection as any).client).not.toBe(mockClient);
+  });
+
+  it('should prefer a per-call timeoutMs over the configured timeout', async () => {
+    connection = new LibSQLConnection({ ...config, queryTimeout: 60000 });
+    const mockClient = (connection as any).client;
+    mockClient.execute.mockResolvedValueOnce({ rows: [], rowsAffected: 0 });
+    await connection.connect();
+    mockClient.execute.mockReturnValueOnce(new Promise(() => undefined));
+
+    await expect(
+      connection.execute('SELECT * FROM big_table', [], { timeoutMs: 20 })
+    ).rejects.toThrow('Query timed out after 20ms');
+  });
+
+  it('should roll back a transaction that exceeds its timeout', async () => {
+    const mockClient = (connection as any).client;
+    mockClient.execute.mockResolvedValue({ rows: [], rowsAffected: 0 });
+    const tx = {
+      execute: vi.fn(() => new Promise(() => undefined)),
+      commit: vi.fn(),
+      rollback: vi.fn(),
+      close: vi.fn()
+    };
+    mockClient.transaction = vi.fn().mockResolvedValue(tx);
+    await connection.connect();
+
+    await expect(
+      connection.transaction(async (t: typeof tx) => t.execute('UPDATE users SET name = ?'), {
+        timeoutMs: 20
+      })
+    ).rejects.toThrow(QueryTimeoutError);
+    expect(tx.close).toHaveBeenCalled();
+    expect(tx.commit).not.toHaveBeenCalled();
+  });
+
+  it('should run a batch as one write transaction', async () => {
+    const mockClient = (connection as any).client;
+    mockClient.execute.mockResolvedValue({ rows: [], rowsAffected: 0 });
+    mockClient.batch = vi.fn().mockResolvedValue([{ rowsAffected: 1 }, { rowsAffected: 2 }]);
+    await connection.connect();
+
+    const results = await connection.batch([
+      { query: 'INSERT INTO users (name) VALUES (?)', params: ['Ada'] },
+      { query: 'DELETE FROM sessions' }
+    ]);
+
+    expect(mockClient.batch).toHaveBeenCalledWith(
+      [{ sql: 'INSERT INTO users (name) VALUES (?)', args: ['Ada'] }, 'DELETE FROM sessions'],
+      'write'
+    );
+    expect(results).toHaveLength(2);
+  });
+
+  it('should interrupt a batch that exceeds its timeout', async () => {
+    const mockClient = (connection as any).client;
+    mockClient.execute.mockResolvedValue({ rows: [], rowsAffected: 0 });
+    mockClient.batch = vi.fn(() => new Promise(() => undefined));
+    await connection.connect();
+
+    await expect(
+      connection.batch([{ query: 'DELETE FROM big_table' }], { timeoutMs: 20 })
+    ).rejects.toThrow(QueryTimeoutError);
+    expect(mockClient.close).toHaveBeenCalled();
+  });
+
+  it('should retry a query that fails with a transient error when asked to', async () => {
+    connection = new LibSQLConnection({ ...config, retryInterval: 0 });
+    const mockClient = (connection as any).client;
+    mockClient.execute.mockResolvedValueOnce({ rows: [], rowsAffected: 0 });
+    await connection.connect();
+    const busy = Object.assign(new Error('database is locked'), { code: 'SQLITE_BUSY' });
+    mockClient.execute
+      .mockRejectedValueOnce(busy)
+      .mockResolvedValueOnce({ rows: [{ id: 1 }], rowsAffected: 0 });
+    const onRetry = vi.fn();
+
+    const result = await connection.execute('SELECT * FROM users', [], { retry: true, onRetry });
+
+    expect(result.rows).toEqual([{ id: 1 }]);
+    expect(onRetry).toHaveBeenCalledWith(1, busy);
+  });
+
+  it('should not retry queries unless asked to', async () => {
+    connection = new LibSQLConnection({ ...config, retryInterval: 0 });
+    const mockClient = (connection as any).client;
+    mockClient.execute.mockResolvedValueOnce({ rows: [], rowsAffected: 0 });
+    await connection.connect();
+    mockClient.execute.mockRejectedValueOnce(new Error('Server returned HTTP status 503'));
+
+    await expect(connection.execute('INSERT INTO users DEFAULT VALUES')).rejects.toThrow(
+      'HTTP status 503'
+    );
+    expect(mockClient.execute).toHaveBeenCalledTimes(2);
+  });
+
   it('should check health correctly', async () => {
     const mockClient = (connection as any).client;
     mockClient.execute.mockResolvedValue({ rows: [], rowsAffected: 0 });
@@ -197,6 +369,414 @@ describe('LibSQLConnectionPool', () => {
     // Should have closed all connections
     expect(mockClient.close).toHaveBeenCalledTimes(2);
   });
+
+  describe('waiter queue', () => {
+    let singlePool: LibSQLConnectionPool;
+
+    beforeEach(async () => {
+      const { createClient } = await import('@libsql/client');
+      (createClient as any).mockReturnValue({
+        execute: vi.fn().mockResolvedValue({ rows: [], rowsAffected: 0 }),
+        close: vi.fn()
+      });
+      singlePool = new LibSQLConnectionPool({
+        url: 'http://127.0.0.1:8080',
+        minConnections: 1,
+        maxConnections: 1,
+        connectionTimeout: 1000
+      });
+      await singlePool.initialize();
+    });
+
+    afterEach(async () => {
+      await singlePool.close();
+      vi.useRealTimers();
+    });
+
+    it('should hand released connections to waiters in arrival order', async () => {
+      const connection = await singlePool.getConnection();
+      const order: string[] = [];
+
+      const first = singlePool.getConnection().then(conn => {
+        order.push('first');
+        return conn;
+      });
+      const second = singlePool.getConnection().then(conn => {
+        order.push('second');
+        return conn;
+      });
+
+      singlePool.releaseConnection(connection);
+      const firstConnection = await first;
+      expect(firstConnection).toBe(connection);
+      expect(singlePool.getStatus().availableConnections).toBe(0);
+
+      singlePool.releaseConnection(firstConnection);
+      expect(await second).toBe(connection);
+      expect(order).toEqual(['first', 'second']);
+    });
+
+    it('should time out each waiter on its own deadline', async () => {
+      vi.useFakeTimers();
+      const connection = await singlePool.getConnection();
+
+      const early = singlePool.getConnection();
+      const earlyResult = expect(early).rejects.toThrow('Connection timeout');
+      await vi.advanceTimersByTimeAsync(600);
+      const late = singlePool.getConnection();
+
+      await vi.advanceTimersByTimeAsync(400);
+      await earlyResult;
+      expect(singlePool.getStatus().waitingRequests).toBe(1);
+
+      singlePool.releaseConnection(connection);
+      expect(await late).toBe(connection);
+    });
+
+    it('should report waiting callers and their wait times', async () => {
+      vi.useFakeTimers();
+      const connection = await singlePool.getConnection();
+
+      const first = singlePool.getConnection();
+      await vi.advanceTimersByTimeAsync(300);
+      const second = singlePool.getConnection();
+      await vi.advanceTimersByTimeAsync(100);
+
+      expect(singlePool.getStatus()).toMatchObject({
+        waitingRequests: 2,
+        longestWaitMs: 400,
+        averageWaitMs: 250
+      });
+
+      singlePool.releaseConnection(connection);
+      singlePool.releaseConnection(await first);
+      await second;
+      expect(singlePool.getStatus()).toMatchObject({
+        waitingRequests: 0,
+        longestWaitMs: 0,
+        averageWaitMs: 0
+      });
+    });
+
+    it('should reject waiters when the pool closes', async () => {
+      await singlePool.getConnection();
+      const waiting = singlePool.getConnection();
+
+      await singlePool.close();
+
+      await expect(waiting).rejects.toThrow('Connection pool is shutting down');
+    });
+
+    it('should drain by closing only after checked-out connections are released', async () => {
+      const { createClient } = await import('@libsql/client');
+      const client = vi.mocked(createClient).mock.results.at(-1)?.value;
+      const connection = await singlePool.getConnection();
+      const waiting = singlePool.getConnection();
+
+      let drained = false;
+      const draining = singlePool.drain(10000).then(() => {
+        drained = true;
+      });
+
+      await expect(singlePool.getConnection()).rejects.toThrow('Connection pool is shutting down');
+      singlePool.releaseConnection(connection);
+      const waitingConnection = await waiting;
+      await Promise.resolve();
+      expect(drained).toBe(false);
+      expect(client.close).not.toHaveBeenCalled();
+
+      singlePool.releaseConnection(waitingConnection);
+      await draining;
+      expect(client.close).toHaveBeenCalled();
+    });
+
+    it('should close a draining pool once the timeout passes', async () => {
+      vi.useFakeTimers();
+      await singlePool.getConnection();
+
+      const draining = singlePool.drain(5000);
+      await vi.advanceTimersByTimeAsync(5000);
+      await draining;
+
+      expect(singlePool.getStatus()).toMatchObject({ totalConnections: 0, isShuttingDown: true });
+    });
+  });
+});
+
+describe('LibSQLConnectionPool maintenance', () => {
+  let pool: LibSQLConnectionPool;
+  let clients: Array<{ execute: ReturnType<typeof vi.fn>; close: ReturnType<typeof vi.fn> }>;
+
+  const createPool = async (config: Partial<DatabaseConfig>): Promise<LibSQLConnectionPool> => {
+    const created = new LibSQLConnectionPool({
+      url: 'http://127.0.0.1:8080',
+      minConnections: 1,
+      maxConnections: 3,
+      ...config
+    });
+    await created.initialize();
+    return created;
+  };
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    clients = [];
+    const { createClient } = await import('@libsql/client');
+    (createClient as any).mockImplementation(() => {
+      const client = {
+        execute: vi.fn().mockResolvedValue({ rows: [], rowsAffected: 0 }),
+        close: vi.fn()
+      };
+      clients.push(client);
+      return client;
+    });
+  });
+
+  afterEach(async () => {
+    await pool.close();
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('should close idle connections down to minConnections', async () => {
+    pool = await createPool({ idleTimeout: 60000, maxLifetime: 0 });
+    const first = await pool.getConnection();
+    const second = await pool.getConnection();
+    const third = await pool.getConnection();
+    pool.releaseConnection(first);
+    pool.releaseConnection(second);
+    pool.releaseConnection(third);
+    expect(pool.getStatus().totalConnections).toBe(3);
+
+    await vi.advanceTimersByTimeAsync(90000);
+
+    expect(pool.getStatus().totalConnections).toBe(1);
+    expect(clients.filter(client => client.close.mock.calls.length > 0)).toHaveLength(2);
+  });
+
+  it('should keep connections that are in use or recently used', async () => {
+    pool = await createPool({ idleTimeout: 60000, maxLifetime: 0 });
+    const busy = await pool.getConnection();
+    const recent = await pool.getConnection();
+
+    await vi.advanceTimersByTimeAsync(50000);
+    pool.releaseConnection(recent);
+    await vi.advanceTimersByTimeAsync(40000);
+
+    expect(pool.getStatus().totalConnections).toBe(2);
+    pool.releaseConnection(busy);
+  });
+
+  it('should replace idle connections past maxLifetime', async () => {
+    pool = await createPool({ idleTimeout: 0, maxLifetime: 60000 });
+    expect(clients).toHaveLength(1);
+
+    await vi.advanceTimersByTimeAsync(60000);
+
+    expect(clients[0]?.close).toHaveBeenCalled();
+    expect(clients).toHaveLength(2);
+    expect(pool.getStatus()).toMatchObject({ totalConnections: 1, availableConnections: 1 });
+  });
+
+  it('should retire a connection past maxLifetime when it is released', async () => {
+    pool = await createPool({ idleTimeout: 0, maxLifetime: 60000 });
+    const connection = await pool.getConnection();
+    const waiting = pool.getConnection();
+    await vi.advanceTimersByTimeAsync(0);
+
+    // Past its lifetime but still checked out, so maintenance leaves it alone
+    await vi.advanceTimersByTimeAsync(60000);
+    expect(clients[0]?.close).not.toHaveBeenCalled();
+
+    pool.releaseConnection(connection);
+    const replacement = await waiting;
+
+    expect(clients[0]?.close).toHaveBeenCalled();
+    expect(replacement).not.toBe(connection);
+  });
+
+  it('should keep connections when idle reaping and max lifetime are disabled', async () => {
+    pool = await createPool({ idleTimeout: 0, maxLifetime: 0 });
+    const first = await pool.getConnection();
+    const second = await pool.getConnection();
+    pool.releaseConnection(first);
+    pool.releaseConnection(second);
+
+    await vi.advanceTimersByTimeAsync(3600000);
+
+    expect(pool.getStatus().totalConnections).toBe(2);
+  });
+});
+
+describe('LibSQLConnectionPool health probing', () => {
+  let pool: LibSQLConnectionPool;
+  let clients: Array<{ execute: ReturnType<typeof vi.fn>; close: ReturnType<typeof vi.fn> }>;
+
+  const healthChecks = (client: { execute: ReturnType<typeof vi.fn> } | undefined): number =>
+    client?.execute.mock.calls.filter(([query]) => query === 'SELECT 1').length ?? 0;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    clients = [];
+    const { createClient } = await import('@libsql/client');
+    (createClient as any).mockImplementation(() => {
+      const client = {
+        execute: vi.fn().mockResolvedValue({ rows: [], rowsAffected: 0 }),
+        close: vi.fn()
+      };
+      clients.push(client);
+      return client;
+    });
+
+    pool = new LibSQLConnectionPool({
+      url: 'http://127.0.0.1:8080',
+      minConnections: 1,
+      maxConnections: 2,
+      idleTimeout: 0,
+      maxLifetime: 0
+    });
+    await pool.initialize();
+  });
+
+  afterEach(async () => {
+    await pool.close();
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('should not health check a recently used connection on checkout', async () => {
+    const connection = await pool.getConnection();
+    await connection.execute('SELECT * FROM users');
+    pool.releaseConnection(connection);
+
+    await pool.getConnection();
+
+    // Only the SELECT 1 issued by connect()
+    expect(healthChecks(clients[0])).toBe(1);
+  });
+
+  it('should re-validate a connection on checkout after a failed query', async () => {
+    const connection = await pool.getConnection();
+    clients[0]?.execute.mockRejectedValueOnce(new Error('socket hang up'));
+    await expect(connection.execute('SELECT * FROM users')).rejects.toThrow('socket hang up');
+    pool.releaseConnection(connection);
+
+    const next = await pool.getConnection();
+
+    expect(next).toBe(connection);
+    expect(healthChecks(clients[0])).toBe(2);
+  });
+
+  it('should re-validate a connection idle past the threshold on checkout', async () => {
+    vi.setSystemTime(Date.now() + 61000);
+
+    await pool.getConnection();
+
+    expect(healthChecks(clients[0])).toBe(2);
+  });
+
+  it('should probe idle connections in the background', async () => {
+    await vi.advanceTimersByTimeAsync(30000);
+    expect(healthChecks(clients[0])).toBe(2);
+
+    // The probe counts as activity, so the next checkout skips the round-trip
+    await pool.getConnection();
+    expect(healthChecks(clients[0])).toBe(2);
+  });
+
+  it('should replace idle connections that fail the background probe', async () => {
+    clients[0]?.execute.mockRejectedValue(new Error('connection reset'));
+
+    await vi.advanceTimersByTimeAsync(30000);
+
+    expect(clients[0]?.close).toHaveBeenCalled();
+    expect(clients).toHaveLength(2);
+    expect(pool.getStatus()).toMatchObject({ totalConnections: 1, availableConnections: 1 });
+  });
+});
+
+describe('LibSQLConnectionPool circuit breaker', () => {
+  let pool: LibSQLConnectionPool;
+  let clients: Array<{ execute: ReturnType<typeof vi.fn>; close: ReturnType<typeof vi.fn> }>;
+  let reachable: boolean;
+
+  beforeEach(async () => {
+    vi.useFakeTimers();
+    clients = [];
+    reachable = false;
+    const { createClient } = await import('@libsql/client');
+    (createClient as any).mockImplementation(() => {
+      const client = {
+        execute: vi.fn(async () => {
+          if (!reachable) {
+            throw new Error('fetch failed');
+          }
+          return { rows: [], rowsAffected: 0 };
+        }),
+        close: vi.fn()
+      };
+      clients.push(client);
+      return client;
+    });
+
+    // No connections up front, so every checkout has to connect
+    pool = new LibSQLConnectionPool({
+      url: 'libsql://my-db.turso.io',
+      minConnections: 0,
+      maxConnections: 2,
+      retryAttempts: 1,
+      circuitBreakerThreshold: 2,
+      circuitBreakerResetTimeout: 10000
+    });
+    await pool.initialize();
+  });
+
+  afterEach(async () => {
+    await pool.close();
+    vi.useRealTimers();
+    vi.clearAllMocks();
+  });
+
+  it('should fail fast once connections keep failing', async () => {
+    await expect(pool.getConnection()).rejects.toThrow('fetch failed');
+    await expect(pool.getConnection()).rejects.toThrow('fetch failed');
+
+    await expect(pool.getConnection()).rejects.toThrow(DatabaseUnavailableError);
+    expect(clients).toHaveLength(2);
+    expect(pool.getStatus().circuitBreaker).toMatchObject({
+      state: 'open',
+      consecutiveFailures: 2,
+      lastError: 'fetch failed'
+    });
+  });
+
+  it('should reconnect automatically once the database is back', async () => {
+    await pool.getConnection().catch(() => undefined);
+    await pool.getConnection().catch(() => undefined);
+    reachable = true;
+
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(pool.getStatus()).toMatchObject({
+      totalConnections: 1,
+      availableConnections: 1,
+      circuitBreaker: { state: 'closed', consecutiveFailures: 0 }
+    });
+    const connection = await pool.getConnection();
+    expect(clients).toHaveLength(3);
+    pool.releaseConnection(connection);
+  });
+
+  it('should keep failing fast while the database stays down', async () => {
+    await pool.getConnection().catch(() => undefined);
+    await pool.getConnection().catch(() => undefined);
+
+    await vi.advanceTimersByTimeAsync(10000);
+
+    expect(clients).toHaveLength(3);
+    expect(pool.getStatus().circuitBreaker.state).toBe('open');
+    await expect(pool.getConnection()).rejects.toThrow(/next reconnection attempt in 10s/);
+  });
 });
 
 describe('Authentication in Database Connection', () => {
@@ -244,4 +824,429 @@ describe('Authentication in Database Connection', () => {
     // This would test initialization, but we need to mock the entire flow
     // The important test is that the pool accepts auth token in config
   });
-});
\ No newline at end of file
+});
+describe('Auth token rotation', () => {
+  let pool: LibSQLConnectionPool;
+  let tokenFile: string;
+  let createClient: ReturnType<typeof vi.fn>;
+  let rejectedTokens: Set<string>;
+
+  const createPool = async (): Promise<LibSQLConnectionPool> => {
+    const created = new LibSQLConnectionPool({
+      url: 'libsql://my-db.turso.io',
+      authToken: 'old-token',
+      authTokenFile: tokenFile,
+      minConnections: 1,
+      maxConnections: 2,
+      retryInterval: 1
+    });
+    await created.initialize();
+    return created;
+  };
+
+  const tokensUsed = (): string[] =>
+    createClient.mock.calls.map(([options]) => (options as { authToken: string }).authToken);
+
+  beforeEach(async () => {
+    tokenFile = join(mkdtempSync(join(tmpdir(), 'mcp-libsql-')), 'token');
+    writeFileSync(tokenFile, 'old-token\n');
+    rejectedTokens = new Set();
+
+    createClient = (await import('@libsql/client')).createClient as any;
+    createClient.mockClear();
+    createClient.mockImplementation((options: { authToken: string }) => ({
+      execute: vi.fn(async () => {
+        if (rejectedTokens.has(options.authToken)) {
+          throw new Error('Server returned HTTP status 401');
+        }
+        return { rows: [], rowsAffected: 0 };
+      }),
+      close: vi.fn()
+    }));
+  });
+
+  afterEach(async () => {
+    await pool.close();
+    rmSync(dirname(tokenFile), { recursive: true, force: true });
+    vi.clearAllMocks();
+  });
+
+  it('should replace idle connections when the token file changes', async () => {
+    pool = await createPool();
+    writeFileSync(tokenFile, 'new-token\n');
+
+    expect(await pool.reloadAuthToken('file changed')).toBe(true);
+    await vi.waitFor(() => expect(tokensUsed()).toEqual(['old-token', 'new-token']));
+
+    expect(createClient.mock.results[0]?.value.close).toHaveBeenCalled();
+    expect(pool.getStatus()).toMatchObject({ totalConnections: 1, availableConnections: 1 });
+  });
+
+  it('should retire a connection in use once it is released', async () => {
+    pool = await createPool();
+    const connection = await pool.getConnection();
+    writeFileSync(tokenFile, 'new-token');
+
+    await pool.reloadAuthToken('file changed');
+    await connection.execute('SELECT 1');
+    pool.releaseConnection(connection);
+
+    const replacement = await pool.getConnection();
+    expect(replacement).not.toBe(connection);
+    expect(tokensUsed()).toEqual(['old-token', 'new-token']);
+    pool.releaseConnection(replacement);
+  });
+
+  it('should ignore an unchanged or empty token file', async () => {
+    pool = await createPool();
+
+    expect(await pool.reloadAuthToken('file changed')).toBe(false);
+    writeFileSync(tokenFile, '');
+    expect(await pool.reloadAuthToken('file changed')).toBe(false);
+    rmSync(tokenFile);
+    expect(await pool.reloadAuthToken('file changed')).toBe(false);
+
+    expect(tokensUsed()).toEqual(['old-token']);
+  });
+
+  it('should re-read the token file when authentication fails', async () => {
+    pool = await createPool();
+    const connection = await pool.getConnection();
+    rejectedTokens.add('old-token');
+    writeFileSync(tokenFile, 'new-token');
+
+    const second = await pool.getConnection();
+
+    expect(tokensUsed()).toEqual(['old-token', 'old-token', 'new-token']);
+    expect(createClient.mock.results[1]?.value.close).toHaveBeenCalled();
+    pool.releaseConnection(connection);
+    pool.releaseConnection(second);
+  });
+});
+
+describe('Embedded replicas', () => {
+  let client: {
+    execute: ReturnType<typeof vi.fn>;
+    sync: ReturnType<typeof vi.fn>;
+    close: ReturnType<typeof vi.fn>;
+  };
+  const replicaConfig: DatabaseConfig = {
+    url: 'file:/tmp/replica.db',
+    authToken: 'test-auth-token',
+    syncUrl: 'libsql://my-db.turso.io',
+    syncInterval: 60
+  };
+
+  beforeEach(async () => {
+    client = {
+      execute: vi.fn().mockResolvedValue({ rows: [], rowsAffected: 0 }),
+      sync: vi.fn().mockResolvedValue({ frame_no: 42, frames_synced: 3 }),
+      close: vi.fn()
+    };
+    const { createClient } = await import('@libsql/client');
+    (createClient as any).mockReturnValue(client);
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should open the replica file with the sync settings and sync on connect', async () => {
+    const { createClient } = await import('@libsql/client');
+    const connection = new LibSQLConnection(replicaConfig);
+
+    await connection.connect();
+
+    expect(createClient).toHaveBeenCalledWith({
+      url: 'file:/tmp/replica.db',
+      authToken: 'test-auth-token',
+      syncUrl: 'libsql://my-db.turso.io',
+      syncInterval: 60,
+      readYourWrites: false
+    });
+    expect(client.sync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should pass readYourWrites through when enabled', async () => {
+    const { createClient } = await import('@libsql/client');
+
+    new LibSQLConnection({ ...replicaConfig, readYourWrites: true });
+
+    expect(createClient).toHaveBeenCalledWith(expect.objectContaining({ readYourWrites: true }));
+  });
+
+  it('should report the frames pulled by a sync', async () => {
+    const connection = new LibSQLConnection(replicaConfig);
+    await connection.connect();
+
+    expect(await connection.sync()).toEqual({ frameNo: 42, framesSynced: 3 });
+
+    client.sync.mockResolvedValueOnce(undefined);
+    expect(await connection.sync()).toBeNull();
+  });
+
+  it('should refuse to sync a database that is not a replica', async () => {
+    const connection = new LibSQLConnection({ url: 'file:/tmp/test.db' });
+
+    await expect(connection.sync()).rejects.toThrow('not an embedded replica');
+    expect(client.sync).not.toHaveBeenCalled();
+  });
+
+  it('should serve a replica from a single pooled connection', async () => {
+    const pool = new LibSQLConnectionPool({
+      ...replicaConfig,
+      minConnections: 2,
+      maxConnections: 5
+    });
+
+    expect(pool.getStatus()).toMatchObject({ minConnections: 1, maxConnections: 1 });
+    await pool.close();
+  });
+});
+
+describe('Encrypted databases', () => {
+  const notADatabase = Object.assign(new Error('SQLITE_NOTADB: file is not a database'), {
+    code: 'SQLITE_NOTADB'
+  });
+  let client: { execute: ReturnType<typeof vi.fn>; close: ReturnType<typeof vi.fn> };
+
+  beforeEach(async () => {
+    client = {
+      execute: vi.fn().mockResolvedValue({ rows: [], rowsAffected: 0 }),
+      close: vi.fn()
+    };
+    const { createClient } = await import('@libsql/client');
+    (createClient as any).mockReturnValue(client);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.clearAllMocks();
+  });
+
+  it('should pass the encryption key to the client', async () => {
+    const { createClient } = await import('@libsql/client');
+
+    new LibSQLConnection({ url: 'file:/tmp/secret.db', encryptionKey: 'super-secret-key' });
+
+    expect(createClient).toHaveBeenCalledWith({
+      url: 'file:/tmp/secret.db',
+      encryptionKey: 'super-secret-key'
+    });
+  });
+
+  it('should read the file on connect so a wrong key fails straight away', async () => {
+    client.execute.mockImplementation(async (query: string) => {
+      if (query.includes('sqlite_master')) {
+        throw notADatabase;
+      }
+      return { rows: [], rowsAffected: 0 };
+    });
+    const connection = new LibSQLConnection({ url: 'file:/tmp/secret.db', encryptionKey: 'wrong' });
+
+    const error = await connection.connect().catch(e => e);
+
+    expect(error).toBeInstanceOf(EncryptionKeyError);
+    expect(error.message).toContain('the encryption key is wrong');
+  });
+
+  it('should explain that a key is needed when none was given', async () => {
+    client.execute.mockRejectedValue(notADatabase);
+    const connection = new LibSQLConnection({ url: 'file:/tmp/secret.db' });
+
+    await expect(connection.connect()).rejects.toThrow('the file is encrypted');
+  });
+
+  it('should not retry a wrong key or write the key to the logs', async () => {
+    const logSpies = (['info', 'warn', 'error', 'debug'] as const).map(level =>
+      vi.spyOn(logger, level)
+    );
+    client.execute.mockImplementation(async (query: string) => {
+      if (query.includes('sqlite_master')) {
+        throw notADatabase;
+      }
+      return { rows: [], rowsAffected: 0 };
+    });
+    const pool = new LibSQLConnectionPool({
+      url: 'file:/tmp/secret.db',
+      encryptionKey: 'super-secret-key',
+      retryInterval: 10
+    });
+
+    await expect(pool.initialize()).rejects.toBeInstanceOf(EncryptionKeyError);
+
+    expect(client.execute).toHaveBeenCalledTimes(2);
+    const logged = JSON.stringify(
+      logSpies.flatMap(spy => spy.mock.calls),
+      (_key, value) => (value instanceof Error ? value.message : value)
+    );
+    expect(logged).not.toContain('super-secret-key');
+    await pool.close();
+  });
+});
+
+describe('Interactive transactions', () => {
+  let connection: LibSQLConnection;
+  let tx: any;
+
+  beforeEach(async () => {
+    connection = new LibSQLConnection({ url: 'http://127.0.0.1:8080', queryTimeout: 50 });
+    const mockClient = (connection as any).client;
+    mockClient.execute.mockResolvedValue({ rows: [], rowsAffected: 0 });
+    tx = {
+      execute: vi.fn().mockResolvedValue({ rows: [], rowsAffected: 1 }),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined),
+      close: vi.fn()
+    };
+    mockClient.transaction = vi.fn().mockResolvedValue(tx);
+    await connection.connect();
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should open a write transaction and run statements in it', async () => {
+    const transaction = await connection.beginTransaction();
+
+    await transaction.execute('UPDATE users SET name = ?', ['Ada']);
+
+    expect((connection as any).client.transaction).toHaveBeenCalledWith('write');
+    expect(tx.execute).toHaveBeenCalledWith({ sql: 'UPDATE users SET name = ?', args: ['Ada'] });
+    expect(transaction.isOpen).toBe(true);
+  });
+
+  it('should undo a failed call with a savepoint and keep the transaction open', async () => {
+    const transaction = await connection.beginTransaction();
+    tx.execute.mockImplementation(async (statement: unknown) => {
+      if (statement === 'INSERT INTO users VALUES (1)') {
+        throw new Error('SQLITE_CONSTRAINT');
+      }
+      return { rows: [], rowsAffected: 0 };
+    });
+
+    await expect(
+      transaction.transaction(async (t: typeof tx) => t.execute('INSERT INTO users VALUES (1)'))
+    ).rejects.toThrow('SQLITE_CONSTRAINT');
+
+    const statements = tx.execute.mock.calls.map((call: unknown[]) => call[0]);
+    expect(statements).toEqual([
+      'SAVEPOINT mcp_savepoint_1',
+      'INSERT INTO users VALUES (1)',
+      'ROLLBACK TO mcp_savepoint_1',
+      'RELEASE mcp_savepoint_1'
+    ]);
+    expect(transaction.isOpen).toBe(true);
+    expect(tx.rollback).not.toHaveBeenCalled();
+  });
+
+  it('should release the savepoint after a successful call', async () => {
+    const transaction = await connection.beginTransaction();
+
+    await transaction.transaction(async (t: typeof tx) => t.execute('DELETE FROM users'));
+
+    expect(tx.execute).toHaveBeenLastCalledWith('RELEASE mcp_savepoint_1');
+  });
+
+  it('should roll back the whole transaction when a statement times out', async () => {
+    const transaction = await connection.beginTransaction();
+    tx.execute.mockReturnValueOnce(new Promise(() => undefined));
+
+    await expect(transaction.execute('SELECT * FROM big_table')).rejects.toThrow(QueryTimeoutError);
+
+    expect(tx.close).toHaveBeenCalled();
+    expect(transaction.isOpen).toBe(false);
+    await expect(transaction.execute('SELECT 1')).rejects.toThrow('Transaction is no longer open');
+  });
+
+  it('should run a batch inside a savepoint', async () => {
+    const transaction = await connection.beginTransaction();
+    tx.batch = vi.fn().mockRejectedValue(new Error('SQLITE_CONSTRAINT'));
+
+    await expect(transaction.batch([{ query: 'INSERT INTO users VALUES (1)' }])).rejects.toThrow(
+      'SQLITE_CONSTRAINT'
+    );
+
+    expect(tx.batch).toHaveBeenCalledWith(['INSERT INTO users VALUES (1)']);
+    expect(tx.execute).toHaveBeenCalledWith('ROLLBACK TO mcp_savepoint_1');
+    expect(transaction.isOpen).toBe(true);
+  });
+
+  it('should not allow use after commit', async () => {
+    const transaction = await connection.beginTransaction();
+
+    await transaction.commit();
+
+    expect(tx.commit).toHaveBeenCalled();
+    await expect(transaction.commit()).rejects.toThrow('Transaction is no longer open');
+    // Rolling back an ended transaction is a no-op
+    await transaction.rollback();
+    expect(tx.rollback).not.toHaveBeenCalled();
+  });
+});
+
+describe('Connection init settings', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should apply the settings to every new local connection', async () => {
+    const infoSpy = vi.spyOn(logger, 'info');
+    const connection = new LibSQLConnection({
+      url: 'file:local.db',
+      connectionInit: { foreignKeys: true, busyTimeout: 5000, cacheSize: -2000 }
+    });
+    const mockClient = (connection as any).client;
+    mockClient.execute.mockResolvedValue({ rows: [], rowsAffected: 0 });
+
+    await connection.connect();
+
+    expect(mockClient.execute).toHaveBeenCalledWith('PRAGMA foreign_keys = ON');
+    expect(mockClient.execute).toHaveBeenCalledWith('PRAGMA busy_timeout = 5000');
+    expect(mockClient.execute).toHaveBeenCalledWith('PRAGMA cache_size = -2000');
+    expect(infoSpy).toHaveBeenCalledWith('Applied connection settings', {
+      url: 'file:local.db',
+      foreignKeys: true,
+      busyTimeout: 5000,
+      cacheSize: -2000
+    });
+  });
+
+  it('should skip the settings for remote databases', async () => {
+    const connection = new LibSQLConnection({
+      url: 'libsql://my-db.turso.io',
+      connectionInit: { foreignKeys: true }
+    });
+    const mockClient = (connection as any).client;
+    mockClient.execute.mockResolvedValue({ rows: [], rowsAffected: 0 });
+
+    await connection.connect();
+
+    expect(mockClient.execute).toHaveBeenCalledTimes(1);
+    expect(mockClient.execute).toHaveBeenCalledWith('SELECT 1');
+  });
+
+  it('should reapply the settings after an interrupted batch replaces the client', async () => {
+    const connection = new LibSQLConnection({
+      url: 'file:local.db',
+      connectionInit: { foreignKeys: false }
+    });
+    const firstClient = (connection as any).client;
+    firstClient.execute.mockResolvedValue({ rows: [], rowsAffected: 0 });
+    firstClient.batch = vi.fn(() => new Promise(() => undefined));
+    await connection.connect();
+
+    await expect(
+      connection.batch([{ query: 'DELETE FROM big_table' }], { timeoutMs: 20 })
+    ).rejects.toThrow(QueryTimeoutError);
+    const replacement = (connection as any).client;
+    replacement.execute.mockResolvedValue({ rows: [], rowsAffected: 0 });
+    await connection.execute('SELECT * FROM users');
+
+    expect(replacement.execute.mock.calls.map((call: unknown[]) => call[0])).toEqual([
+      'PRAGMA foreign_keys = OFF',
+      'SELECT * FROM users'
+    ]);
+  });
+});
@@ -440,6 +440,93 @@ describe('DescribeTableTool', () => {
       expect(result.content[0].text).toContain('15ms'); // Mocked performance metrics
     });
 
+    it('should return the table schema as structured content', async () => {
+      (mockConnection.execute as any)
+        .mockResolvedValueOnce({
+          rows: [{ name: 'users', sql: 'CREATE TABLE users (id INTEGER)' }]
+        })
+        .mockResolvedValueOnce({
+          rows: [{ cid: 0, name: 'id', type: 'INTEGER', notnull: 0, dflt_value: null, pk: 1 }]
+        })
+        .mockResolvedValueOnce({ rows: [] })
+        .mockResolvedValueOnce({ rows: [] });
+
+      context.arguments = { tableName: 'users' };
+
+      const result = await tool.execute(context);
+
+      expect(result.structuredContent).toMatchObject({
+        table: {
+          name: 'users',
+          sql: 'CREATE TABLE users (id INTEGER)',
+          columns: [{ cid: 0, name: 'id', type: 'INTEGER', notnull: 0, dflt_value: null, pk: 1 }],
+          indexes: [],
+          foreignKeys: []
+        }
+      });
+      expect(tool.outputSchema.safeParse(result.structuredContent).success).toBe(true);
+    });
+
+    it('should return indexes and foreign keys in the shared introspection shape', async () => {
+      (mockConnection.execute as any)
+        .mockResolvedValueOnce({
+          rows: [{ name: 'orders', type: 'table', sql: 'CREATE TABLE orders (user_id INTEGER)' }]
+        })
+        .mockResolvedValueOnce({
+          rows: [{ cid: 0, name: 'user_id', type: 'INTEGER', notnull: 0, dflt_value: null, pk: 0 }]
+        })
+        .mockResolvedValueOnce({
+          rows: [{ seq: 0, name: 'idx_orders_user', unique: 0, origin: 'c', partial: 0 }]
+        })
+        .mockResolvedValueOnce({ rows: [{ seqno: 0, cid: 0, name: 'user_id' }] })
+        .mockResolvedValueOnce({
+          rows: [
+            {
+              id: 0,
+              seq: 0,
+              table: 'users',
+              from: 'user_id',
+              to: 'id',
+              on_update: 'NO ACTION',
+              on_delete: 'CASCADE'
+            }
+          ]
+        });
+
+      context.arguments = { tableName: 'orders' };
+
+      const result = await tool.execute(context);
+
+      expect(mockConnection.execute).toHaveBeenNthCalledWith(
+        1,
+        expect.stringContaining('sqlite_master'),
+        ['orders', 'table']
+      );
+      expect(result.structuredContent).toMatchObject({
+        table: {
+          indexes: [
+            {
+              name: 'idx_orders_user',
+              unique: false,
+              origin: 'c',
+              partial: false,
+              columns: ['user_id']
+            }
+          ],
+          foreignKeys: [
+            {
+              from: 'user_id',
+              table: 'users',
+              to: 'id',
+              on_update: 'NO ACTION',
+              on_delete: 'CASCADE'
+            }
+          ]
+        }
+      });
+      expect(tool.outputSchema.safeParse(result.structuredContent).success).toBe(true);
+    });
+
     it('should format table output with proper borders', async () => {
       // Mock table exists
       (mockConnection.execute as any)
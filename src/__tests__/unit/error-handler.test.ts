@@ -3,10 +3,13 @@ import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import {
   DatabaseError,
   ConnectionError,
+  EncryptionKeyError,
   QueryValidationError,
   QueryTimeoutError,
+  QueryCancelledError,
   ResultSizeError,
   handleDatabaseError,
+  withAbortSignal,
   withTimeout
 } from '../../utils/error-handler.js';
 
@@ -75,6 +78,19 @@ describe('Error Handler Utilities', () => {
     });
   });
 
+  describe('EncryptionKeyError', () => {
+    it('should tell the user whether the key is missing or wrong', () => {
+      const missing = new EncryptionKeyError(false);
+      const wrong = new EncryptionKeyError(true);
+
+      expect(missing).toBeInstanceOf(ConnectionError);
+      expect(missing.name).toBe('EncryptionKeyError');
+      expect(missing.message).toContain('the file is encrypted');
+      expect(missing.message).toContain('--encryption-key');
+      expect(wrong.message).toContain('the encryption key is wrong');
+    });
+  });
+
   describe('QueryValidationError', () => {
     it('should create a QueryValidationError with query', () => {
       const query = 'INVALID SQL';
@@ -309,4 +325,46 @@ describe('Error Handler Utilities', () => {
       await expect(timeoutPromise).rejects.toBe(error);
     });
   });
+
+  describe('withAbortSignal', () => {
+    it('should return the promise unchanged without a signal', () => {
+      const promise = Promise.resolve('value');
+
+      expect(withAbortSignal(promise)).toBe(promise);
+    });
+
+    it('should resolve when the promise settles before the signal aborts', async () => {
+      const controller = new AbortController();
+
+      await expect(withAbortSignal(Promise.resolve('value'), controller.signal)).resolves.toBe(
+        'value'
+      );
+    });
+
+    it('should reject with QueryCancelledError as soon as the signal aborts', async () => {
+      const controller = new AbortController();
+      const pending = new Promise<string>(() => undefined);
+
+      const cancellable = withAbortSignal(pending, controller.signal);
+      controller.abort();
+
+      await expect(cancellable).rejects.toThrow(QueryCancelledError);
+    });
+
+    it('should reject immediately when the signal is already aborted', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        withAbortSignal(Promise.resolve('value'), controller.signal, () => new Error('stop'))
+      ).rejects.toThrow('stop');
+    });
+
+    it('should pass through rejections of the original promise', async () => {
+      const controller = new AbortController();
+      const error = new Error('Query failed');
+
+      await expect(withAbortSignal(Promise.reject(error), controller.signal)).rejects.toBe(error);
+    });
+  });
 });
@@ -0,0 +1,135 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ExecuteBatchTool } from '../../tools/execute-batch.js';
+import type { ToolExecutionContext } from '../../lib/base-tool.js';
+import type { DatabaseConnection } from '../../types/index.js';
+
+describe('ExecuteBatchTool', () => {
+  let tool: ExecuteBatchTool;
+  let mockConnection: DatabaseConnection;
+  let context: ToolExecutionContext;
+
+  beforeEach(() => {
+    tool = new ExecuteBatchTool();
+
+    mockConnection = {
+      execute: vi.fn() as any,
+      transaction: vi.fn() as any,
+      batch: vi.fn() as any,
+      close: vi.fn() as any,
+      isHealthy: vi.fn() as any
+    } as DatabaseConnection;
+
+    context = {
+      connection: mockConnection,
+      arguments: {}
+    } as ToolExecutionContext;
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should describe statements as an array of objects in its tool definition', () => {
+    const definition = tool.getToolDefinition();
+    const properties = (definition.inputSchema as any).properties;
+
+    expect(definition.name).toBe('execute-batch');
+    expect(properties.statements).toEqual({
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          query: { type: 'string' },
+          parameters: {
+            type: 'array',
+            items: {
+              anyOf: [{ type: 'string' }, { type: 'number' }, { type: 'boolean' }, { type: 'null' }]
+            }
+          }
+        },
+        required: ['query']
+      }
+    });
+  });
+
+  it('should run every statement in one batch and report each result', async () => {
+    vi.mocked(mockConnection.batch).mockResolvedValue([
+      { rows: [], rowsAffected: 1, lastInsertRowid: 7n },
+      { rows: [], rowsAffected: 3, lastInsertRowid: 7n }
+    ]);
+    context.arguments = {
+      statements: [
+        { query: 'INSERT INTO orders (user_id) VALUES (?)', parameters: [1] },
+        { query: 'UPDATE users SET order_count = order_count + 1 WHERE id IN (1, 2, 3)' }
+      ]
+    };
+
+    const result = await tool.execute(context);
+
+    expect(result.isError).toBeFalsy();
+    expect(mockConnection.batch).toHaveBeenCalledWith([
+      { query: 'INSERT INTO orders (user_id) VALUES (?)', params: [1] },
+      { query: 'UPDATE users SET order_count = order_count + 1 WHERE id IN (1, 2, 3)', params: [] }
+    ]);
+    const text = result.content[0]?.text;
+    expect(text).toContain('Batch executed successfully (2 statements)');
+    expect(text).toContain('1. Rows affected: 1, last insert row ID: 7\n');
+    // The UPDATE inherits the connection's last rowid, which is not its own
+    expect(text).toContain('2. Rows affected: 3\n');
+    expect(text).toContain('Total rows affected: 4');
+    expect(result.structuredContent).toEqual({
+      results: [
+        { rowsAffected: 1, lastInsertRowid: '7' },
+        { rowsAffected: 3, lastInsertRowid: null }
+      ],
+      totalRowsAffected: 4,
+      metrics: { executionTime: expect.any(Number), rowsAffected: 4 }
+    });
+  });
+
+  it('should validate each statement with the write-query rules', async () => {
+    context.arguments = {
+      statements: [
+        { query: 'INSERT INTO users (name) VALUES (?)', parameters: ['Ada'] },
+        { query: 'DROP TABLE users' }
+      ]
+    };
+
+    const result = await tool.execute(context);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain(
+      'Only INSERT, UPDATE, DELETE queries are allowed for write operations'
+    );
+    expect(result.content[0]?.text).toContain('"statements",\n      1,\n      "query"');
+    expect(mockConnection.batch).not.toHaveBeenCalled();
+  });
+
+  it('should reject an empty batch', async () => {
+    context.arguments = { statements: [] };
+
+    const result = await tool.execute(context);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain('Batch must contain at least one statement');
+  });
+
+  it('should report that nothing was applied when a statement fails', async () => {
+    vi.mocked(mockConnection.batch).mockRejectedValue(
+      new Error('SQLITE_CONSTRAINT_UNIQUE: UNIQUE constraint failed: users.email')
+    );
+    context.arguments = {
+      statements: [
+        { query: "INSERT INTO users (email) VALUES ('a@example.com')" },
+        { query: "INSERT INTO users (email) VALUES ('a@example.com')" }
+      ]
+    };
+
+    const result = await tool.execute(context);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toBe(
+      'Error executing batch: SQLITE_CONSTRAINT_UNIQUE: UNIQUE constraint failed: users.email (no statements were applied)'
+    );
+  });
+});
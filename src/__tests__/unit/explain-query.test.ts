@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { ExplainQueryTool } from '../../tools/explain-query.js';
+import type { ToolExecutionContext } from '../../lib/base-tool.js';
+import type { DatabaseConnection } from '../../types/index.js';
+
+describe('ExplainQueryTool', () => {
+  let tool: ExplainQueryTool;
+  let mockConnection: DatabaseConnection;
+  let context: ToolExecutionContext;
+
+  beforeEach(() => {
+    tool = new ExplainQueryTool();
+    mockConnection = { execute: vi.fn() } as unknown as DatabaseConnection;
+    context = { connection: mockConnection, arguments: {} };
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should be a read-only tool', () => {
+    expect(tool.name).toBe('explain-query');
+    expect(tool.readOnly).toBe(true);
+  });
+
+  it('should accept the statements read-query and write-query accept', () => {
+    for (const query of [
+      'SELECT * FROM users WHERE id = ?',
+      'INSERT INTO users (name) VALUES (?)',
+      'UPDATE users SET name = ? WHERE id = ?',
+      'DELETE FROM users WHERE id = ?'
+    ]) {
+      expect(tool.inputSchema.safeParse({ query }).success).toBe(true);
+    }
+  });
+
+  it('should reject other statements and ones the query tools would reject', () => {
+    const drop = tool.inputSchema.safeParse({ query: 'DROP TABLE users' });
+    expect(drop.success).toBe(false);
+    expect(drop.error?.issues[0]?.message).toBe(
+      'Only SELECT, INSERT, UPDATE and DELETE queries can be explained'
+    );
+
+    const system = tool.inputSchema.safeParse({ query: 'SELECT * FROM sqlite_master' });
+    expect(system.error?.issues[0]?.message).toBe('Query attempts to access system tables');
+
+    expect(
+      tool.inputSchema.safeParse({ query: 'SELECT * FROM users; DROP TABLE users' }).success
+    ).toBe(false);
+  });
+
+  it('should render the plan and flag full scans and temporary B-trees', async () => {
+    vi.mocked(mockConnection.execute).mockResolvedValue({
+      rows: [
+        { id: 3, parent: 0, notused: 0, detail: 'SCAN users' },
+        { id: 12, parent: 0, notused: 0, detail: 'USE TEMP B-TREE FOR ORDER BY' }
+      ]
+    });
+    context.arguments = {
+      query: 'SELECT * FROM users WHERE name = ? ORDER BY name',
+      parameters: ['Alice']
+    };
+
+    const result = await tool.execute(context);
+
+    expect(result.isError).toBeFalsy();
+    expect(mockConnection.execute).toHaveBeenCalledWith(
+      'EXPLAIN QUERY PLAN SELECT * FROM users WHERE name = ? ORDER BY name',
+      ['Alice']
+    );
+    const text = result.content[0]?.text;
+    expect(text).toContain('QUERY PLAN\n|--SCAN users\n`--USE TEMP B-TREE FOR ORDER BY');
+    expect(text).toContain('- Full table scan of users');
+    expect(text).toContain('- Temporary B-tree for ORDER BY');
+    expect(result.structuredContent).toMatchObject({
+      plan: [
+        { id: 3, parent: 0, detail: 'SCAN users' },
+        { id: 12, parent: 0, detail: 'USE TEMP B-TREE FOR ORDER BY' }
+      ],
+      warnings: [{ type: 'full-scan' }, { type: 'temp-b-tree' }]
+    });
+    expect(tool.outputSchema.safeParse(result.structuredContent).success).toBe(true);
+  });
+
+  it('should say when the plan has nothing to flag', async () => {
+    vi.mocked(mockConnection.execute).mockResolvedValue({
+      rows: [
+        { id: 2, parent: 0, notused: 0, detail: 'SEARCH users USING INTEGER PRIMARY KEY (rowid=?)' }
+      ]
+    });
+    context.arguments = { query: 'DELETE FROM users WHERE id = 1' };
+
+    const result = await tool.execute(context);
+
+    expect(result.content[0]?.text).toContain('No full table scans or temporary B-trees');
+    expect(mockConnection.execute).toHaveBeenCalledWith(
+      'EXPLAIN QUERY PLAN DELETE FROM users WHERE id = 1'
+    );
+  });
+
+  it('should return planning errors', async () => {
+    vi.mocked(mockConnection.execute).mockRejectedValue(new Error('no such table: users'));
+    context.arguments = { query: 'SELECT * FROM users' };
+
+    const result = await tool.execute(context);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toBe('Error explaining query: no such table: users');
+  });
+});
@@ -0,0 +1,271 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { McpHttpServer } from '../../lib/http-server.js';
+import { Logger } from '../../lib/logger.js';
+
+vi.mock('../../lib/logger.js', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+const initializeRequest = {
+  jsonrpc: '2.0',
+  id: 1,
+  method: 'initialize',
+  params: {
+    protocolVersion: '2025-03-26',
+    capabilities: {},
+    clientInfo: { name: 'test-client', version: '1.0.0' }
+  }
+};
+
+const mcpHeaders = {
+  'Content-Type': 'application/json',
+  Accept: 'application/json, text/event-stream'
+};
+
+describe('McpHttpServer', () => {
+  let httpServer: McpHttpServer;
+  let baseUrl: string;
+  let createServer: ReturnType<typeof vi.fn>;
+
+  const initializeSession = async (): Promise<string> => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: mcpHeaders,
+      body: JSON.stringify(initializeRequest)
+    });
+    await response.text();
+
+    expect(response.status).toBe(200);
+    const sessionId = response.headers.get('mcp-session-id');
+    expect(sessionId).toBeTruthy();
+    return sessionId as string;
+  };
+
+  beforeEach(async () => {
+    createServer = vi.fn(
+      async () =>
+        new Server({ name: 'test-server', version: '1.0.0' }, { capabilities: { tools: {} } })
+    );
+
+    httpServer = new McpHttpServer({ host: '127.0.0.1', port: 0, createServer });
+    const address = await httpServer.listen();
+    baseUrl = `http://127.0.0.1:${address.port}`;
+  });
+
+  afterEach(async () => {
+    await httpServer.close();
+  });
+
+  it('should reject a second listen call', async () => {
+    await expect(httpServer.listen()).rejects.toThrow('HTTP server is already listening');
+  });
+
+  it('should return 404 for paths other than the MCP endpoint', async () => {
+    const response = await fetch(`${baseUrl}/other`, {
+      method: 'POST',
+      headers: mcpHeaders,
+      body: JSON.stringify(initializeRequest)
+    });
+
+    expect(response.status).toBe(404);
+    expect(createServer).not.toHaveBeenCalled();
+  });
+
+  it('should reject non-initialize requests without a session id', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: mcpHeaders,
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' })
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.message).toContain('No valid session ID');
+    expect(httpServer.getSessionCount()).toBe(0);
+  });
+
+  it('should reject malformed JSON bodies', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: mcpHeaders,
+      body: '{not json'
+    });
+    const body = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(body.error.code).toBe(-32700);
+  });
+
+  it('should create a session with its own server on initialize', async () => {
+    await initializeSession();
+
+    expect(createServer).toHaveBeenCalledTimes(1);
+    expect(httpServer.getSessionCount()).toBe(1);
+  });
+
+  it('should keep independent sessions for separate clients', async () => {
+    const first = await initializeSession();
+    const second = await initializeSession();
+
+    expect(first).not.toBe(second);
+    expect(createServer).toHaveBeenCalledTimes(2);
+    expect(httpServer.getSessionCount()).toBe(2);
+  });
+
+  it('should return 404 for unknown session ids', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...mcpHeaders, 'mcp-session-id': 'does-not-exist' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 2, method: 'tools/list' })
+    });
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should end a session on DELETE', async () => {
+    const sessionId = await initializeSession();
+
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'DELETE',
+      headers: { 'mcp-session-id': sessionId }
+    });
+    await response.text();
+
+    expect(response.status).toBe(200);
+    expect(httpServer.getSessionCount()).toBe(0);
+  });
+
+  it('should reject a browser request from another origin', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...mcpHeaders, Origin: 'https://attacker.example' },
+      body: JSON.stringify(initializeRequest)
+    });
+    await response.text();
+
+    expect(response.status).toBe(403);
+    expect(createServer).not.toHaveBeenCalled();
+  });
+
+  it('should accept a browser request from a loopback origin', async () => {
+    const response = await fetch(`${baseUrl}/mcp`, {
+      method: 'POST',
+      headers: { ...mcpHeaders, Origin: 'http://localhost:5173' },
+      body: JSON.stringify(initializeRequest)
+    });
+    await response.text();
+
+    expect(response.status).toBe(200);
+  });
+
+  it('should reject a Host header naming another site', async () => {
+    const { request } = await import('node:http');
+    const status = await new Promise<number | undefined>((resolve, reject) => {
+      const req = request(
+        `${baseUrl}/mcp`,
+        { method: 'POST', headers: { ...mcpHeaders, Host: 'rebound.example:3000' } },
+        res => {
+          res.resume();
+          resolve(res.statusCode);
+        }
+      );
+      req.on('error', reject);
+      req.end(JSON.stringify(initializeRequest));
+    });
+
+    expect(status).toBe(403);
+    expect(createServer).not.toHaveBeenCalled();
+  });
+
+  it('should accept configured hosts and origins', async () => {
+    const configured = new McpHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      createServer,
+      allowedHosts: ['127.0.0.1'],
+      allowedOrigins: ['https://app.example.com']
+    });
+    const { port } = await configured.listen();
+
+    try {
+      const send = (origin: string): ReturnType<typeof fetch> =>
+        fetch(`http://127.0.0.1:${port}/mcp`, {
+          method: 'POST',
+          headers: { ...mcpHeaders, Origin: origin },
+          body: JSON.stringify(initializeRequest)
+        });
+
+      const allowed = await send('https://app.example.com');
+      await allowed.text();
+      const loopback = await send('http://localhost:5173');
+      await loopback.text();
+
+      expect(allowed.status).toBe(200);
+      expect(loopback.status).toBe(403);
+    } finally {
+      await configured.close();
+    }
+  });
+
+  it('should warn when listening beyond loopback without authentication', async () => {
+    const logger = vi.mocked(Logger).mock.results[0]?.value;
+    const exposed = new McpHttpServer({ host: '0.0.0.0', port: 0, createServer });
+
+    await exposed.listen();
+    await exposed.close();
+
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('no authentication'), {
+      host: '0.0.0.0'
+    });
+  });
+
+  it('should close sessions that stay idle past the timeout', async () => {
+    const onSessionClosed = vi.fn();
+    const expiring = new McpHttpServer({
+      host: '127.0.0.1',
+      port: 0,
+      createServer,
+      onSessionClosed,
+      sessionIdleTimeout: 100
+    });
+    const { port } = await expiring.listen();
+    baseUrl = `http://127.0.0.1:${port}`;
+
+    try {
+      const sessionId = await initializeSession();
+      await new Promise(resolve => setTimeout(resolve, 60));
+
+      // A request restarts the idle period
+      const response = await fetch(`${baseUrl}/mcp`, {
+        method: 'POST',
+        headers: { ...mcpHeaders, 'mcp-session-id': sessionId },
+        body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' })
+      });
+      await response.text();
+      await new Promise(resolve => setTimeout(resolve, 60));
+      expect(expiring.getSessionCount()).toBe(1);
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+      expect(expiring.getSessionCount()).toBe(0);
+      expect(onSessionClosed).toHaveBeenCalledTimes(1);
+    } finally {
+      await expiring.close();
+    }
+  });
+
+  it('should close all sessions on close', async () => {
+    await initializeSession();
+    await initializeSession();
+
+    await httpServer.close();
+
+    expect(httpServer.getSessionCount()).toBe(0);
+    expect(httpServer.getAddress()).toBeNull();
+  });
+});
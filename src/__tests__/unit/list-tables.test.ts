@@ -393,6 +393,22 @@ describe('ListTablesTool', () => {
       expect(result.content[0].text).toContain('20ms, 3 objects'); // Mocked performance metrics
     });
 
+    it('should return the objects as structured content', async () => {
+      (mockConnection.execute as any).mockResolvedValue({
+        rows: [{ name: 'users', type: 'table', sql: 'CREATE TABLE users (id INTEGER)' }]
+      });
+
+      context.arguments = {};
+
+      const result = await tool.execute(context);
+
+      expect(result.structuredContent).toMatchObject({
+        objects: [{ name: 'users', type: 'table', sql: 'CREATE TABLE users (id INTEGER)' }],
+        totalCount: 1
+      });
+      expect(tool.outputSchema.safeParse(result.structuredContent).success).toBe(true);
+    });
+
     it('should group objects by type in list format', async () => {
       // Mock query result with mixed types
       (mockConnection.execute as any).mockResolvedValue({
@@ -154,4 +154,30 @@ describe('Logger', () => {
       expect(consoleMocks.log).not.toHaveBeenCalled();
     });
   });
+
+  describe('configure', () => {
+    afterEach(() => {
+      Logger.configure('INFO', 'file');
+    });
+
+    it('should apply the level and mode to loggers created before it', () => {
+      const moduleLogger = new Logger('test-logs');
+
+      Logger.configure('WARN', 'console');
+      moduleLogger.info('Should not log');
+      moduleLogger.warn('Should log');
+
+      expect(consoleMocks.log).not.toHaveBeenCalled();
+      expect(consoleMocks.warn).toHaveBeenCalled();
+    });
+
+    it('should leave loggers given their own level and mode alone', () => {
+      const ownLogger = new Logger('test-logs', 'DEBUG', 'none');
+
+      Logger.configure('DEBUG', 'console');
+      ownLogger.info('Should not log');
+
+      expect(consoleMocks.log).not.toHaveBeenCalled();
+    });
+  });
 });
\ No newline at end of file
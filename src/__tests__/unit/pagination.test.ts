@@ -0,0 +1,213 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  buildPageQuery,
+  decodeCursor,
+  encodeCursor,
+  getPaginationStrategy,
+  readPage
+} from '../../utils/pagination.js';
+import { QueryValidationError } from '../../utils/error-handler.js';
+import type { DatabaseConnection } from '../../types/index.js';
+
+const rowsWithRowids = (from: number, to: number): Record<string, unknown>[] =>
+  Array.from({ length: to - from + 1 }, (_, i) => ({
+    id: from + i,
+    name: `user${from + i}`,
+    __page_rowid: from + i
+  }));
+
+describe('Pagination', () => {
+  describe('getPaginationStrategy', () => {
+    it.each([
+      'SELECT * FROM users',
+      'SELECT id, name FROM users WHERE active = ?',
+      'select name from "user accounts" u where u.id > 10',
+      'SELECT (SELECT 1) AS one FROM users'
+    ])('should page %s by rowid', query => {
+      expect(getPaginationStrategy(query)).toBe('keyset');
+    });
+
+    it.each([
+      'SELECT * FROM users ORDER BY name',
+      'SELECT * FROM users LIMIT 10',
+      'SELECT DISTINCT name FROM users',
+      'SELECT count(*) FROM users',
+      'SELECT * FROM users u JOIN orders o ON o.user_id = u.id',
+      'SELECT * FROM users, orders',
+      'SELECT (SELECT name FROM orders o WHERE o.user_id = 1) AS latest, id FROM users',
+      'SELECT * FROM users WHERE id IN (SELECT user_id FROM orders)',
+      "SELECT 'from here' AS label FROM users",
+      'SELECT 1'
+    ])('should page %s by offset', query => {
+      expect(getPaginationStrategy(query)).toBe('offset');
+    });
+  });
+
+  describe('buildPageQuery', () => {
+    it('should continue after the last rowid for keyset pages', () => {
+      expect(
+        buildPageQuery('SELECT id, name FROM users WHERE active = ?', {
+          strategy: 'keyset',
+          pageSize: 50,
+          offset: 50,
+          lastRowid: 73
+        })
+      ).toBe(
+        'SELECT id, name, rowid AS __page_rowid FROM users WHERE (active = ?) AND rowid > 73 ORDER BY rowid LIMIT 51'
+      );
+    });
+
+    it('should wrap the query for offset pages', () => {
+      expect(
+        buildPageQuery('SELECT * FROM users ORDER BY name', {
+          strategy: 'offset',
+          pageSize: 50,
+          offset: 100
+        })
+      ).toBe('SELECT * FROM (SELECT * FROM users ORDER BY name) LIMIT 51 OFFSET 100');
+    });
+  });
+
+  describe('cursors', () => {
+    const query = 'SELECT * FROM users WHERE active = ?';
+
+    it('should round-trip the page position', () => {
+      const position = { strategy: 'keyset' as const, pageSize: 20, offset: 40, lastRowid: 57 };
+
+      expect(decodeCursor(encodeCursor(position, query, [1]), query, [1])).toEqual(position);
+    });
+
+    it('should reject a cursor for another query or other parameters', () => {
+      const cursor = encodeCursor({ strategy: 'offset', pageSize: 20, offset: 20 }, query, [1]);
+
+      expect(() => decodeCursor(cursor, query, [0])).toThrow('different query or parameters');
+      expect(() => decodeCursor(cursor, 'SELECT * FROM users', [1])).toThrow(QueryValidationError);
+    });
+
+    it('should reject a malformed cursor', () => {
+      expect(() => decodeCursor('not-a-cursor', query, [1])).toThrow('Invalid cursor');
+      expect(() =>
+        decodeCursor(Buffer.from('{"v":1,"s":"keyset"}').toString('base64url'), query, [1])
+      ).toThrow('Invalid cursor');
+    });
+
+    it('should reject a cursor that was edited', () => {
+      const cursor = encodeCursor({ strategy: 'offset', pageSize: 20, offset: 20 }, query, [1]);
+      const [encoded, signature] = cursor.split('.');
+      const payload = JSON.parse(Buffer.from(encoded as string, 'base64url').toString('utf8'));
+      const edited = Buffer.from(JSON.stringify({ ...payload, n: 1000000 })).toString('base64url');
+
+      expect(() => decodeCursor(`${edited}.${signature}`, query, [1])).toThrow('Invalid cursor');
+    });
+
+    it.each([
+      { strategy: 'offset' as const, pageSize: -2, offset: 0 },
+      { strategy: 'offset' as const, pageSize: 0, offset: 0 },
+      { strategy: 'offset' as const, pageSize: 1001, offset: 0 },
+      { strategy: 'offset' as const, pageSize: 20, offset: -20 },
+      { strategy: 'keyset' as const, pageSize: 20, offset: 20, lastRowid: 1.5 }
+    ])('should reject a cursor with an out-of-range position %o', position => {
+      expect(() => decodeCursor(encodeCursor(position, query, [1]), query, [1])).toThrow(
+        'Invalid cursor'
+      );
+    });
+  });
+
+  describe('readPage', () => {
+    it('should return a page without the rowid column and a cursor for the next one', async () => {
+      const execute = vi.fn().mockResolvedValue({
+        columns: ['id', 'name', '__page_rowid'],
+        rows: rowsWithRowids(1, 3)
+      });
+      const connection = { execute } as unknown as DatabaseConnection;
+
+      const page = await readPage(connection, 'SELECT * FROM users', [], {
+        strategy: 'keyset',
+        pageSize: 2,
+        offset: 0
+      });
+
+      expect(page.columns).toEqual(['id', 'name']);
+      expect(page.rows).toHaveLength(2);
+      expect(execute).toHaveBeenCalledWith(
+        'SELECT *, rowid AS __page_rowid FROM users ORDER BY rowid LIMIT 3'
+      );
+      expect(decodeCursor(page.nextCursor!, 'SELECT * FROM users', [])).toEqual({
+        strategy: 'keyset',
+        pageSize: 2,
+        offset: 2,
+        lastRowid: 2
+      });
+    });
+
+    it('should not return a cursor on the last page', async () => {
+      const execute = vi.fn().mockResolvedValue({
+        columns: ['id', 'name', '__page_rowid'],
+        rows: rowsWithRowids(3, 3)
+      });
+
+      const page = await readPage(
+        { execute } as unknown as DatabaseConnection,
+        'SELECT * FROM users',
+        [],
+        { strategy: 'keyset', pageSize: 2, offset: 2, lastRowid: 2 }
+      );
+
+      expect(page.rows).toHaveLength(1);
+      expect(page.nextCursor).toBeUndefined();
+    });
+
+    it('should page through negative rowids', async () => {
+      const query = 'SELECT * FROM users';
+      const execute = vi
+        .fn()
+        .mockResolvedValueOnce({
+          columns: ['id', 'name', '__page_rowid'],
+          rows: rowsWithRowids(-5, -3)
+        })
+        .mockResolvedValueOnce({
+          columns: ['id', 'name', '__page_rowid'],
+          rows: rowsWithRowids(-3, -2)
+        });
+      const connection = { execute } as unknown as DatabaseConnection;
+
+      const first = await readPage(connection, query, [], {
+        strategy: 'keyset',
+        pageSize: 2,
+        offset: 0
+      });
+      const position = decodeCursor(first.nextCursor!, query, []);
+      const second = await readPage(connection, query, [], position);
+
+      expect(position).toEqual({ strategy: 'keyset', pageSize: 2, offset: 2, lastRowid: -4 });
+      expect(execute).toHaveBeenLastCalledWith(
+        'SELECT *, rowid AS __page_rowid FROM users WHERE rowid > -4 ORDER BY rowid LIMIT 3'
+      );
+      expect(second.rows.map(row => row['id'])).toEqual([-3, -2]);
+      expect(second.nextCursor).toBeUndefined();
+    });
+
+    it('should fall back to offset pagination for tables without a rowid', async () => {
+      const execute = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('SQLITE_ERROR: no such column: rowid'))
+        .mockResolvedValue({ columns: ['id'], rows: [{ id: 1 }, { id: 2 }, { id: 3 }] });
+
+      const page = await readPage(
+        { execute } as unknown as DatabaseConnection,
+        'SELECT id FROM active_users WHERE id > ?',
+        [0],
+        { strategy: 'keyset', pageSize: 2, offset: 0 }
+      );
+
+      expect(execute).toHaveBeenLastCalledWith(
+        'SELECT * FROM (SELECT id FROM active_users WHERE id > ?) LIMIT 3 OFFSET 0',
+        [0]
+      );
+      expect(page.strategy).toBe('offset');
+      expect(
+        decodeCursor(page.nextCursor!, 'SELECT id FROM active_users WHERE id > ?', [0])
+      ).toEqual({ strategy: 'offset', pageSize: 2, offset: 2, lastRowid: undefined });
+    });
+  });
+});
@@ -334,6 +334,13 @@ describe('Performance Utilities', () => {
       expect(result).toBe('300ms, 2 affected, 10 returned');
     });
 
+    it('should include retries of transient failures', () => {
+      expect(formatPerformanceMetrics({ executionTime: 90, rowsReturned: 4, retries: 1 })).toBe(
+        '90ms, 4 returned, 1 retry'
+      );
+      expect(formatPerformanceMetrics({ executionTime: 90, retries: 2 })).toBe('90ms, 2 retries');
+    });
+
     it('should handle zero values correctly', () => {
       const result = formatPerformanceMetrics({
         executionTime: 120,
@@ -0,0 +1,171 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { ExploreDatabasePrompt } from '../../prompts/explore-database.js';
+import { WriteMigrationPrompt } from '../../prompts/write-migration.js';
+import { ExplainQueryPerformancePrompt } from '../../prompts/explain-query-performance.js';
+import type { PromptExecutionContext } from '../../lib/base-prompt.js';
+import type { DatabaseConnection } from '../../types/index.js';
+
+const schemaRows = [
+  { name: 'posts', type: 'table', sql: 'CREATE TABLE posts (id INTEGER PRIMARY KEY, user_id INTEGER)' },
+  { name: 'users', type: 'table', sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY, email TEXT)' },
+  { name: 'active_users', type: 'view', sql: 'CREATE VIEW active_users AS SELECT * FROM users' }
+];
+
+const pragmaRows: Record<string, Record<string, unknown>[]> = {
+  'table_info("posts")': [
+    { cid: 0, name: 'id', type: 'INTEGER', notnull: 0, dflt_value: null, pk: 1 },
+    { cid: 1, name: 'user_id', type: 'INTEGER', notnull: 0, dflt_value: null, pk: 0 }
+  ],
+  'table_info("users")': [
+    { cid: 0, name: 'id', type: 'INTEGER', notnull: 0, dflt_value: null, pk: 1 },
+    { cid: 1, name: 'email', type: 'TEXT', notnull: 1, dflt_value: null, pk: 0 }
+  ],
+  'table_info("active_users")': [
+    { cid: 0, name: 'id', type: 'INTEGER', notnull: 0, dflt_value: null, pk: 0 }
+  ],
+  'index_list("users")': [{ name: 'idx_users_email', unique: 1, origin: 'c', partial: 0 }],
+  'index_info("idx_users_email")': [{ seqno: 0, cid: 1, name: 'email' }],
+  'foreign_key_list("posts")': [
+    { from: 'user_id', table: 'users', to: 'id', on_update: 'NO ACTION', on_delete: 'CASCADE' }
+  ]
+};
+
+describe('Prompts', () => {
+  let context: PromptExecutionContext;
+  let execute: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    execute = vi.fn(async (query: string, params?: unknown[]) => {
+      const pragma = query.match(/^PRAGMA (.+)$/);
+      if (pragma) {
+        return { rows: pragmaRows[pragma[1]!] || [] };
+      }
+      if (query.includes('name = ?')) {
+        return { rows: schemaRows.filter(row => row.name === params?.[0]) };
+      }
+      return { rows: schemaRows };
+    });
+
+    context = {
+      connection: {
+        execute: execute as any,
+        transaction: vi.fn() as any,
+        close: vi.fn() as any,
+        isHealthy: vi.fn() as any
+      } as DatabaseConnection,
+      arguments: {}
+    };
+  });
+
+  const promptText = (result: Awaited<ReturnType<ExploreDatabasePrompt['getPrompt']>>) => {
+    const content = result.messages[0]?.content;
+    return content?.type === 'text' ? content.text : '';
+  };
+
+  describe('explore-database', () => {
+    it('should embed every table and view from the live schema', async () => {
+      const result = await new ExploreDatabasePrompt().getPrompt(context);
+      const text = promptText(result);
+
+      expect(result.messages).toHaveLength(1);
+      expect(result.messages[0]?.role).toBe('user');
+      expect(text).toContain('Table: posts');
+      expect(text).toContain('Table: users');
+      expect(text).toContain('View: active_users');
+      expect(text).toContain('- idx_users_email (UNIQUE INDEX) on (email)');
+      expect(text).toContain('- user_id → users.id (NO ACTION/CASCADE)');
+    });
+
+    it('should include the optional focus', async () => {
+      context.arguments = { focus: 'user signups' };
+
+      const text = promptText(await new ExploreDatabasePrompt().getPrompt(context));
+
+      expect(text).toContain('Focus the exploration on: user signups');
+    });
+
+    it('should handle an empty database', async () => {
+      execute.mockResolvedValue({ rows: [] });
+
+      const text = promptText(await new ExploreDatabasePrompt().getPrompt(context));
+
+      expect(text).toContain('no tables or views');
+    });
+  });
+
+  describe('write-migration', () => {
+    it('should require a table name and change', () => {
+      const definition = new WriteMigrationPrompt().getPromptDefinition();
+
+      expect(definition.arguments?.map(argument => [argument.name, argument.required])).toEqual([
+        ['tableName', true],
+        ['change', true]
+      ]);
+    });
+
+    it('should embed the current table schema and the requested change', async () => {
+      context.arguments = { tableName: 'users', change: 'add a created_at timestamp' };
+
+      const text = promptText(await new WriteMigrationPrompt().getPrompt(context));
+
+      expect(text).toContain('Requested change: add a created_at timestamp');
+      expect(text).toContain('CREATE TABLE users');
+      expect(text).toContain('- email TEXT NOT NULL');
+      expect(text).toContain('- idx_users_email (UNIQUE INDEX) on (email)');
+      expect(execute).toHaveBeenCalledWith('PRAGMA table_info("users")');
+      expect(execute).toHaveBeenCalledWith('PRAGMA foreign_key_list("users")');
+    });
+
+    it('should reject tables that do not exist', async () => {
+      context.arguments = { tableName: 'missing', change: 'anything' };
+
+      await expect(new WriteMigrationPrompt().getPrompt(context)).rejects.toThrow(
+        "Table 'missing' does not exist"
+      );
+    });
+
+    it('should reject views', async () => {
+      context.arguments = { tableName: 'active_users', change: 'add a column' };
+
+      await expect(new WriteMigrationPrompt().getPrompt(context)).rejects.toThrow(
+        "Table 'active_users' does not exist"
+      );
+    });
+  });
+
+  describe('explain-query-performance', () => {
+    it('should embed only the tables referenced by the query', async () => {
+      context.arguments = { query: 'SELECT * FROM posts WHERE user_id = ?' };
+
+      const text = promptText(await new ExplainQueryPerformancePrompt().getPrompt(context));
+
+      expect(text).toContain('SELECT * FROM posts WHERE user_id = ?');
+      expect(text).toContain('Table: posts');
+      expect(text).not.toContain('Table: users');
+      expect(text).not.toContain('View: active_users');
+    });
+
+    it('should not match table names inside longer identifiers', async () => {
+      context.arguments = { query: 'SELECT * FROM active_users' };
+
+      const text = promptText(await new ExplainQueryPerformancePrompt().getPrompt(context));
+
+      expect(text).toContain('View: active_users');
+      expect(text).not.toContain('Table: users');
+    });
+
+    it('should note when no known tables are referenced', async () => {
+      context.arguments = { query: 'SELECT 1' };
+
+      const text = promptText(await new ExplainQueryPerformancePrompt().getPrompt(context));
+
+      expect(text).toContain('None of the tables in the database are referenced');
+    });
+
+    it('should require a query', async () => {
+      await expect(new ExplainQueryPerformancePrompt().getPrompt(context)).rejects.toThrow(
+        'Invalid arguments for prompt explain-query-performance'
+      );
+    });
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest';
+import { explainQueryPlan, findPlanWarnings, renderQueryPlan } from '../../utils/query-plan.js';
+import type { DatabaseConnection } from '../../types/index.js';
+
+const plan = [
+  { id: 2, parent: 0, detail: 'SCAN orders' },
+  { id: 5, parent: 0, detail: 'LIST SUBQUERY 1' },
+  { id: 7, parent: 5, detail: 'SEARCH users USING INDEX users_email (email=?)' },
+  { id: 9, parent: 0, detail: 'SEARCH products USING INTEGER PRIMARY KEY (rowid=?)' },
+  { id: 21, parent: 0, detail: 'USE TEMP B-TREE FOR ORDER BY' }
+];
+
+describe('Query plans', () => {
+  it('should run EXPLAIN QUERY PLAN with the query parameters', async () => {
+    const execute = vi.fn().mockResolvedValue({
+      rows: [{ id: 2, parent: 0, notused: 0, detail: 'SCAN users' }]
+    });
+
+    const steps = await explainQueryPlan(
+      { execute } as unknown as DatabaseConnection,
+      ' SELECT * FROM users WHERE name = ?',
+      ['Alice']
+    );
+
+    expect(execute).toHaveBeenCalledWith('EXPLAIN QUERY PLAN SELECT * FROM users WHERE name = ?', [
+      'Alice'
+    ]);
+    expect(steps).toEqual([{ id: 2, parent: 0, detail: 'SCAN users' }]);
+  });
+
+  it('should render the plan as a tree', () => {
+    expect(renderQueryPlan(plan)).toBe(
+      [
+        'QUERY PLAN',
+        '|--SCAN orders',
+        '|--LIST SUBQUERY 1',
+        '|  `--SEARCH users USING INDEX users_email (email=?)',
+        '|--SEARCH products USING INTEGER PRIMARY KEY (rowid=?)',
+        '`--USE TEMP B-TREE FOR ORDER BY'
+      ].join('\n')
+    );
+  });
+
+  it('should flag full table scans and temporary B-trees', () => {
+    expect(findPlanWarnings(plan).map(({ type, detail }) => ({ type, detail }))).toEqual([
+      { type: 'full-scan', detail: 'SCAN orders' },
+      { type: 'temp-b-tree', detail: 'USE TEMP B-TREE FOR ORDER BY' }
+    ]);
+  });
+
+  it.each([
+    'SCAN users USING COVERING INDEX users_email',
+    'SCAN CONSTANT ROW',
+    'SCAN (subquery-1)'
+  ])('should not flag %s', detail => {
+    expect(findPlanWarnings([{ id: 1, parent: 0, detail }])).toEqual([]);
+  });
+
+  it('should recognise the table scans of older SQLite versions', () => {
+    expect(findPlanWarnings([{ id: 1, parent: 0, detail: 'SCAN TABLE users' }])[0]?.message).toBe(
+      'Full table scan of users, an index on the filtered columns may help'
+    );
+  });
+});
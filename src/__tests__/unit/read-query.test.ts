@@ -93,6 +93,15 @@ describe('ReadQueryTool', () => {
       });
       expect(result.success).toBe(false);
     });
+
+    it('should accept a per-call timeout within limits', () => {
+      expect(tool.inputSchema.safeParse({ query: 'SELECT 1', timeoutMs: 5000 }).success).toBe(true);
+      expect(tool.inputSchema.safeParse({ query: 'SELECT 1', timeoutMs: 50 }).success).toBe(false);
+      expect(tool.inputSchema.safeParse({ query: 'SELECT 1', timeoutMs: 600001 }).success).toBe(
+        false
+      );
+      expect(tool.inputSchema.safeParse({ query: 'SELECT 1', timeoutMs: 1.5 }).success).toBe(false);
+    });
   });
 
   describe('query execution', () => {
@@ -190,6 +199,22 @@ describe('ReadQueryTool', () => {
       expect(result.content[0].text).toContain('Query result too large');
     });
 
+    it('should apply the configured result size limit', async () => {
+      mockConnection.execute = vi.fn().mockResolvedValue({
+        rows: Array(3).fill({ id: 1, name: 'test' }),
+        columns: ['id', 'name'],
+        rowsAffected: 0
+      });
+
+      context.arguments = { query: 'SELECT * FROM users' };
+      context.maxResultSize = 2;
+
+      const result = await tool.execute(context);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('3 rows, max 2');
+    });
+
     it('should handle database errors gracefully', async () => {
       const dbError = new Error('Table does not exist');
       mockConnection.execute = vi.fn().mockRejectedValue(dbError);
@@ -204,6 +229,200 @@ describe('ReadQueryTool', () => {
     });
   });
 
+  describe('output formats', () => {
+    const mockResult = {
+      rows: [
+        { id: 1, name: 'John' },
+        { id: 2, name: null }
+      ],
+      columns: ['id', 'name'],
+      columnTypes: ['INTEGER', 'TEXT'],
+      rowsAffected: 0
+    };
+
+    beforeEach(() => {
+      mockConnection.execute = vi.fn().mockResolvedValue(mockResult);
+    });
+
+    it('should accept the supported formats', () => {
+      for (const format of ['table', 'json', 'csv', 'markdown', 'ndjson']) {
+        expect(tool.inputSchema.safeParse({ query: 'SELECT 1', format }).success).toBe(true);
+      }
+      expect(tool.inputSchema.safeParse({ query: 'SELECT 1', format: 'xml' }).success).toBe(false);
+    });
+
+    it('should return columns with their types, rows and metrics as JSON', async () => {
+      context.arguments = { query: 'SELECT id, name FROM users', format: 'json' };
+
+      const result = await tool.execute(context);
+
+      expect(result.isError).toBeFalsy();
+      expect(JSON.parse(result.content[0].text)).toEqual({
+        columns: [
+          { name: 'id', type: 'INTEGER' },
+          { name: 'name', type: 'TEXT' }
+        ],
+        rows: [
+          { id: 1, name: 'John' },
+          { id: 2, name: null }
+        ],
+        rowCount: 2,
+        metrics: { executionTime: expect.any(Number), rowsReturned: 2 }
+      });
+    });
+
+    it('should include the next cursor in paged JSON output', async () => {
+      mockConnection.execute = vi.fn().mockResolvedValue({
+        ...mockResult,
+        rows: [...mockResult.rows, { id: 3, name: 'Jane' }]
+      });
+      context.arguments = { query: 'SELECT * FROM users ORDER BY id', format: 'json', pageSize: 2 };
+
+      const result = await tool.execute(context);
+      const output = JSON.parse(result.content[0].text);
+
+      expect(output.rowCount).toBe(2);
+      expect(output.page).toEqual({ firstRow: 1, nextCursor: expect.any(String) });
+    });
+
+    it('should return the same structured content in every format', async () => {
+      context.arguments = { query: 'SELECT id, name FROM users' };
+      const table = await tool.execute(context);
+
+      context.arguments = { query: 'SELECT id, name FROM users', format: 'json' };
+      const json = await tool.execute(context);
+
+      // The two calls can take different times
+      expect(JSON.parse(json.content[0].text)).toEqual({
+        ...table.structuredContent,
+        metrics: { ...table.structuredContent?.metrics, executionTime: expect.any(Number) }
+      });
+      expect(tool.outputSchema.safeParse(table.structuredContent).success).toBe(true);
+    });
+
+    it('should keep CSV data apart from the performance note', async () => {
+      context.arguments = { query: 'SELECT id, name FROM users', format: 'csv' };
+
+      const result = await tool.execute(context);
+
+      expect(result.content[0].text).toBe('id,name\r\n1,John\r\n2,\r\n');
+      expect(result.content[1].text).toContain('Performance:');
+    });
+
+    it('should render Markdown and NDJSON', async () => {
+      context.arguments = { query: 'SELECT id, name FROM users', format: 'markdown' };
+      const markdown = await tool.execute(context);
+
+      context.arguments = { query: 'SELECT id, name FROM users', format: 'ndjson' };
+      const ndjson = await tool.execute(context);
+
+      expect(markdown.content[0].text).toContain('| 2 | NULL |');
+      expect(ndjson.content[0].text).toBe('{"id":1,"name":"John"}\n{"id":2,"name":null}\n');
+    });
+  });
+
+  describe('query plan', () => {
+    it('should add the query plan to the metrics when asked', async () => {
+      mockConnection.execute = vi
+        .fn()
+        .mockResolvedValueOnce({ rows: [{ id: 1 }], columns: ['id'], rowsAffected: 0 })
+        .mockResolvedValueOnce({ rows: [{ id: 2, parent: 0, notused: 0, detail: 'SCAN users' }] });
+
+      context.arguments = { query: 'SELECT id FROM users', includePlan: true };
+      const result = await tool.execute(context);
+
+      expect(mockConnection.execute).toHaveBeenLastCalledWith(
+        'EXPLAIN QUERY PLAN SELECT id FROM users'
+      );
+      expect(result.content[0].text).toContain('QUERY PLAN\n`--SCAN users');
+      expect(result.structuredContent?.metrics).toMatchObject({
+        queryPlan: 'QUERY PLAN\n`--SCAN users'
+      });
+    });
+
+    it('should not plan the query by default', async () => {
+      mockConnection.execute = vi
+        .fn()
+        .mockResolvedValue({ rows: [{ id: 1 }], columns: ['id'], rowsAffected: 0 });
+
+      context.arguments = { query: 'SELECT id FROM users' };
+      const result = await tool.execute(context);
+
+      expect(mockConnection.execute).toHaveBeenCalledTimes(1);
+      expect(result.structuredContent?.metrics).not.toHaveProperty('queryPlan');
+    });
+  });
+
+  describe('pagination', () => {
+    const pageOf = (from: number, to: number): Record<string, unknown>[] =>
+      Array.from({ length: to - from + 1 }, (_, i) => ({
+        id: from + i,
+        __page_rowid: from + i
+      }));
+
+    it('should validate page sizes and cursors', () => {
+      expect(tool.inputSchema.safeParse({ query: 'SELECT 1', pageSize: 50 }).success).toBe(true);
+      expect(tool.inputSchema.safeParse({ query: 'SELECT 1', pageSize: 0 }).success).toBe(false);
+      expect(tool.inputSchema.safeParse({ query: 'SELECT 1', pageSize: 1001 }).success).toBe(
+        false
+      );
+      expect(tool.inputSchema.safeParse({ query: 'SELECT 1', cursor: '' }).success).toBe(false);
+    });
+
+    it('should walk a result set page by page with the returned cursor', async () => {
+      mockConnection.execute = vi
+        .fn()
+        .mockResolvedValueOnce({ columns: ['id', '__page_rowid'], rows: pageOf(1, 3) })
+        .mockResolvedValueOnce({ columns: ['id', '__page_rowid'], rows: pageOf(3, 3) });
+
+      context.arguments = { query: 'SELECT id FROM users', pageSize: 2 };
+      const first = await tool.execute(context);
+
+      expect(first.isError).toBeFalsy();
+      expect(first.content[0].text).toContain('Showing rows 1-2');
+      expect(first.content[0].text).not.toContain('__page_rowid');
+      const cursor = /cursor: (\S+)/.exec(first.content[0].text)?.[1];
+      expect(cursor).toBeDefined();
+
+      context.arguments = { query: 'SELECT id FROM users', cursor };
+      const second = await tool.execute(context);
+
+      expect(second.content[0].text).toContain('Showing rows 3-3');
+      expect(second.content[0].text).toContain('No more rows');
+      expect(mockConnection.execute).toHaveBeenLastCalledWith(
+        'SELECT id, rowid AS __page_rowid FROM users WHERE rowid > 2 ORDER BY rowid LIMIT 3'
+      );
+    });
+
+    it('should cap the page size at the result size limit', async () => {
+      mockConnection.execute = vi.fn().mockResolvedValue({ columns: ['id'], rows: [] });
+
+      context.arguments = { query: 'SELECT * FROM users ORDER BY id', pageSize: 500 };
+      context.maxResultSize = 100;
+      await tool.execute(context);
+
+      expect(mockConnection.execute).toHaveBeenCalledWith(
+        'SELECT * FROM (SELECT * FROM users ORDER BY id) LIMIT 101 OFFSET 0'
+      );
+    });
+
+    it('should reject a cursor issued for another query', async () => {
+      mockConnection.execute = vi
+        .fn()
+        .mockResolvedValue({ columns: ['id', '__page_rowid'], rows: pageOf(1, 3) });
+
+      context.arguments = { query: 'SELECT id FROM users', pageSize: 2 };
+      const first = await tool.execute(context);
+      const cursor = /cursor: (\S+)/.exec(first.content[0].text)?.[1];
+
+      context.arguments = { query: 'SELECT id FROM orders', cursor };
+      const result = await tool.execute(context);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Cursor belongs to a different query');
+    });
+  });
+
   describe('result formatting', () => {
     it('should format table results with proper alignment', async () => {
       const mockResult = {
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import type { Row } from '@libsql/client';
+import {
+  formatCsv,
+  formatMarkdown,
+  formatNdjson,
+  serializeValue,
+  toRecords,
+  toResultColumns
+} from '../../utils/result-format.js';
+
+const columns = ['id', 'name'];
+const records = [
+  { id: 1, name: 'Smith, "Jo"' },
+  { id: 2, name: null }
+];
+
+describe('Result formats', () => {
+  it('should serialize BigInts and BLOBs as strings', () => {
+    expect(serializeValue(9007199254740993n)).toBe('9007199254740993');
+    expect(serializeValue(new Uint8Array([1, 2, 3]).buffer)).toBe('AQID');
+    expect(serializeValue(null)).toBeNull();
+  });
+
+  it('should keep only the named columns in records', () => {
+    const rows = [{ id: 1, name: 'a', __page_rowid: 1 }] as unknown as Row[];
+
+    expect(toRecords(columns, rows)).toEqual([{ id: 1, name: 'a' }]);
+  });
+
+  it('should report expression columns without a declared type', () => {
+    expect(toResultColumns(['id', 'total'], ['INTEGER', ''])).toEqual([
+      { name: 'id', type: 'INTEGER' },
+      { name: 'total', type: null }
+    ]);
+  });
+
+  it('should quote CSV fields that need it', () => {
+    expect(formatCsv(columns, records)).toBe('id,name\r\n1,"Smith, ""Jo"""\r\n2,\r\n');
+  });
+
+  it('should escape pipes in Markdown tables', () => {
+    expect(formatMarkdown(columns, [{ id: 1, name: 'a|b' }])).toBe(
+      '| id | name |\n| --- | --- |\n| 1 | a\\|b |\n'
+    );
+  });
+
+  it('should write one JSON object per line', () => {
+    expect(formatNdjson(records)).toBe('{"id":1,"name":"Smith, \\"Jo\\""}\n{"id":2,"name":null}\n');
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { getRetryDelay, isTransientError, withRetry } from '../../utils/retry.js';
+import { QueryCancelledError, QueryTimeoutError } from '../../utils/error-handler.js';
+
+const policy = { maxAttempts: 3, initialDelay: 100, maxDelay: 1000, jitter: 0 };
+
+const withCode = (message: string, code: string): Error =>
+  Object.assign(new Error(message), { code });
+
+describe('Retry policy', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('isTransientError', () => {
+    it.each([
+      withCode('database is locked', 'SQLITE_BUSY'),
+      withCode('read ECONNRESET', 'ECONNRESET'),
+      new Error('Server returned HTTP status 503'),
+      new TypeError('fetch failed', { cause: withCode('other side closed', 'UND_ERR_SOCKET') })
+    ])('should retry %s', error => {
+      expect(isTransientError(error)).toBe(true);
+    });
+
+    it.each([
+      withCode('no such table: users', 'SQLITE_ERROR'),
+      new Error('Server returned HTTP status 401'),
+      new Error('Server returned HTTP status 400: bad request'),
+      new QueryTimeoutError(1000),
+      new QueryCancelledError(),
+      'SQLITE_BUSY'
+    ])('should not retry %s', error => {
+      expect(isTransientError(error)).toBe(false);
+    });
+  });
+
+  describe('getRetryDelay', () => {
+    it('should double the delay up to maxDelay', () => {
+      expect([1, 2, 3, 4, 5].map(retry => getRetryDelay(policy, retry))).toEqual([
+        100, 200, 400, 800, 1000
+      ]);
+    });
+
+    it('should spread the delay by the jitter fraction', () => {
+      const jittered = { ...policy, jitter: 0.5 };
+
+      expect(getRetryDelay(jittered, 2, () => 0)).toBe(100);
+      expect(getRetryDelay(jittered, 2, () => 0.5)).toBe(200);
+      expect(getRetryDelay(jittered, 2, () => 1)).toBe(300);
+    });
+  });
+
+  describe('withRetry', () => {
+    it('should retry transient failures with backoff until the operation succeeds', async () => {
+      vi.useFakeTimers();
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(withCode('database is locked', 'SQLITE_BUSY'))
+        .mockRejectedValueOnce(withCode('database is locked', 'SQLITE_BUSY'))
+        .mockResolvedValue('done');
+      const onRetry = vi.fn();
+
+      const result = withRetry(operation, policy, { onRetry });
+      await vi.advanceTimersByTimeAsync(100);
+      expect(operation).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(200);
+
+      await expect(result).resolves.toBe('done');
+      expect(onRetry.mock.calls.map(([attempt, delay]) => [attempt, delay])).toEqual([
+        [1, 100],
+        [2, 200]
+      ]);
+    });
+
+    it('should give up after maxAttempts with the last error', async () => {
+      const operation = vi.fn().mockRejectedValue(new Error('Server returned HTTP status 502'));
+
+      await expect(withRetry(operation, { ...policy, initialDelay: 0 })).rejects.toThrow(
+        'HTTP status 502'
+      );
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+
+    it('should not retry errors that are not transient', async () => {
+      const operation = vi.fn().mockRejectedValue(new Error('no such table: users'));
+
+      await expect(withRetry(operation, policy)).rejects.toThrow('no such table');
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('should let the caller decide what to retry', async () => {
+      const operation = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('connection refused'))
+        .mockResolvedValue('connected');
+
+      await expect(
+        withRetry(operation, { ...policy, initialDelay: 0 }, { shouldRetry: () => true })
+      ).resolves.toBe('connected');
+    });
+
+    it('should stop waiting for the next attempt when aborted', async () => {
+      vi.useFakeTimers();
+      const controller = new AbortController();
+      const operation = vi.fn().mockRejectedValue(withCode('database is locked', 'SQLITE_BUSY'));
+
+      const result = withRetry(operation, policy, { signal: controller.signal });
+      const assertion = expect(result).rejects.toThrow(QueryCancelledError);
+      await vi.advanceTimersByTimeAsync(50);
+      controller.abort();
+
+      await assertion;
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+  });
+});
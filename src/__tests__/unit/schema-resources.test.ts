@@ -0,0 +1,128 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { SchemaResourceProvider, SCHEMA_RESOURCE_URI } from '../../lib/schema-resources.js';
+import type { DatabaseConnection } from '../../types/index.js';
+
+const schemaRows = [
+  { name: 'orders', type: 'table', sql: 'CREATE TABLE orders (id INTEGER PRIMARY KEY, total REAL)' },
+  { name: 'users', type: 'table', sql: 'CREATE TABLE users (id INTEGER PRIMARY KEY, name TEXT NOT NULL)' },
+  { name: 'user names', type: 'view', sql: 'CREATE VIEW "user names" AS SELECT name FROM users' }
+];
+
+const columnRows: Record<string, Record<string, unknown>[]> = {
+  orders: [
+    { cid: 0, name: 'id', type: 'INTEGER', notnull: 0, dflt_value: null, pk: 1 },
+    { cid: 1, name: 'total', type: 'REAL', notnull: 0, dflt_value: null, pk: 0 }
+  ],
+  users: [
+    { cid: 0, name: 'id', type: 'INTEGER', notnull: 0, dflt_value: null, pk: 1 },
+    { cid: 1, name: 'name', type: 'TEXT', notnull: 1, dflt_value: null, pk: 0 }
+  ],
+  'user names': [{ cid: 0, name: 'name', type: 'TEXT', notnull: 0, dflt_value: null, pk: 0 }]
+};
+
+describe('SchemaResourceProvider', () => {
+  let provider: SchemaResourceProvider;
+  let mockConnection: DatabaseConnection;
+
+  beforeEach(() => {
+    provider = new SchemaResourceProvider();
+
+    mockConnection = {
+      execute: vi.fn(async (query: string, params?: unknown[]) => {
+        const pragma = query.match(/PRAGMA table_info\("(.+)"\)/);
+        if (pragma) {
+          return { rows: columnRows[pragma[1]!.replace(/""/g, '"')] || [] };
+        }
+        if (query.includes('name = ?')) {
+          return { rows: schemaRows.filter(row => row.name === params?.[0]) };
+        }
+        return { rows: schemaRows };
+      }) as any,
+      transaction: vi.fn() as any,
+      close: vi.fn() as any,
+      isHealthy: vi.fn() as any
+    } as DatabaseConnection;
+  });
+
+  describe('listResources', () => {
+    it('should list the database schema and one resource per table or view', async () => {
+      const resources = await provider.listResources(mockConnection);
+
+      expect(resources.map(resource => resource.uri)).toEqual([
+        SCHEMA_RESOURCE_URI,
+        'libsql://schema/orders',
+        'libsql://schema/users',
+        'libsql://schema/user%20names'
+      ]);
+      expect(resources[3]?.name).toBe('View: user names');
+      expect(resources.every(resource => resource.mimeType === 'application/json')).toBe(true);
+    });
+
+    it('should exclude SQLite system tables', async () => {
+      await provider.listResources(mockConnection);
+
+      const query = vi.mocked(mockConnection.execute).mock.calls[0]?.[0];
+      expect(query).toContain('sqlite_master');
+      expect(query).toContain("name NOT LIKE 'sqlite_%'");
+    });
+  });
+
+  describe('getResourceTemplates', () => {
+    it('should expose a per-table template', () => {
+      const templates = provider.getResourceTemplates();
+
+      expect(templates).toHaveLength(1);
+      expect(templates[0]?.uriTemplate).toBe('libsql://schema/{table}');
+    });
+  });
+
+  describe('readResource', () => {
+    it('should return the whole-database schema', async () => {
+      const contents = await provider.readResource(mockConnection, SCHEMA_RESOURCE_URI);
+      const data = JSON.parse(contents[0]!.text);
+
+      expect(contents[0]?.uri).toBe(SCHEMA_RESOURCE_URI);
+      expect(data.objects).toHaveLength(3);
+      expect(data.objects[1].name).toBe('users');
+      expect(data.objects[1].columns.map((column: { name: string }) => column.name)).toEqual([
+        'id',
+        'name'
+      ]);
+    });
+
+    it('should return a single table schema', async () => {
+      const contents = await provider.readResource(mockConnection, 'libsql://schema/users');
+      const data = JSON.parse(contents[0]!.text);
+
+      expect(data.name).toBe('users');
+      expect(data.type).toBe('table');
+      expect(data.sql).toContain('CREATE TABLE users');
+      expect(data.columns[1]).toMatchObject({ name: 'name', type: 'TEXT', notnull: 1 });
+    });
+
+    it('should decode encoded table names', async () => {
+      const contents = await provider.readResource(mockConnection, 'libsql://schema/user%20names');
+      const data = JSON.parse(contents[0]!.text);
+
+      expect(data.name).toBe('user names');
+      expect(data.type).toBe('view');
+      expect(mockConnection.execute).toHaveBeenCalledWith('PRAGMA table_info("user names")');
+    });
+
+    it('should reject unknown tables', async () => {
+      await expect(
+        provider.readResource(mockConnection, 'libsql://schema/missing')
+      ).rejects.toThrow("Table or view 'missing' does not exist");
+    });
+
+    it('should reject URIs outside the schema namespace', async () => {
+      await expect(provider.readResource(mockConnection, 'file:///etc/passwd')).rejects.toThrow(
+        McpError
+      );
+      await expect(provider.readResource(mockConnection, 'libsql://schema/')).rejects.toThrow(
+        'Unknown resource'
+      );
+    });
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { SchemaWatcher } from '../../lib/schema-watcher.js';
+import type { ConnectionPool, DatabaseConnection } from '../../types/index.js';
+
+vi.mock('../../lib/logger.js', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+describe('SchemaWatcher', () => {
+  let schemaVersion: number;
+  let objects: Array<{ name: string; type: string; sql: string }>;
+  let connection: DatabaseConnection;
+  let pool: ConnectionPool;
+  let watcher: SchemaWatcher;
+
+  const createServer = (): Server =>
+    ({
+      sendResourceUpdated: vi.fn().mockResolvedValue(undefined),
+      sendResourceListChanged: vi.fn().mockResolvedValue(undefined)
+    }) as unknown as Server;
+
+  beforeEach(() => {
+    schemaVersion = 1;
+    objects = [{ name: 'users', type: 'table', sql: 'CREATE TABLE users (id INTEGER)' }];
+
+    connection = {
+      execute: vi.fn(async (query: string) => {
+        if (query === 'PRAGMA schema_version') {
+          return { rows: [{ schema_version: schemaVersion }] };
+        }
+        return { rows: objects };
+      }) as any,
+      transaction: vi.fn() as any,
+      close: vi.fn() as any,
+      isHealthy: vi.fn() as any
+    };
+
+    pool = {
+      getConnection: vi.fn().mockResolvedValue(connection),
+      releaseConnection: vi.fn(),
+      close: vi.fn(),
+      healthCheck: vi.fn()
+    };
+
+    watcher = new SchemaWatcher(pool, { pollInterval: 0 });
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    vi.useRealTimers();
+  });
+
+  it('should establish a baseline without notifying', async () => {
+    const server = createServer();
+    watcher.subscribe(server, 'libsql://schema');
+
+    const change = await watcher.checkForChanges(connection);
+
+    expect(change).toBeNull();
+    expect(server.sendResourceUpdated).not.toHaveBeenCalled();
+    expect(server.sendResourceListChanged).not.toHaveBeenCalled();
+  });
+
+  it('should skip the snapshot when schema_version is unchanged', async () => {
+    await watcher.checkForChanges(connection);
+    vi.mocked(connection.execute).mockClear();
+
+    const change = await watcher.checkForChanges(connection);
+
+    expect(change).toBeNull();
+    expect(connection.execute).toHaveBeenCalledTimes(1);
+    expect(connection.execute).toHaveBeenCalledWith('PRAGMA schema_version');
+  });
+
+  it('should notify subscribers and list_changed when a table is added', async () => {
+    const server = createServer();
+    watcher.subscribe(server, 'libsql://schema');
+    await watcher.checkForChanges(connection);
+
+    objects.push({ name: 'orders', type: 'table', sql: 'CREATE TABLE orders (id INTEGER)' });
+    schemaVersion = 2;
+    const change = await watcher.checkForChanges(connection);
+
+    expect(change).toEqual({ added: ['orders'], removed: [], modified: [] });
+    expect(server.sendResourceListChanged).toHaveBeenCalledTimes(1);
+    expect(server.sendResourceUpdated).toHaveBeenCalledWith({ uri: 'libsql://schema' });
+  });
+
+  it('should only notify subscribers of the tables that changed', async () => {
+    const usersSubscriber = createServer();
+    const ordersSubscriber = createServer();
+    objects.push({ name: 'orders', type: 'table', sql: 'CREATE TABLE orders (id INTEGER)' });
+    watcher.subscribe(usersSubscriber, 'libsql://schema/users');
+    watcher.subscribe(ordersSubscriber, 'libsql://schema/orders');
+    await watcher.checkForChanges(connection);
+
+    objects[0] = { name: 'users', type: 'table', sql: 'CREATE TABLE users (id INTEGER, name TEXT)' };
+    schemaVersion = 2;
+    const change = await watcher.checkForChanges(connection);
+
+    expect(change).toEqual({ added: [], removed: [], modified: ['users'] });
+    expect(usersSubscriber.sendResourceUpdated).toHaveBeenCalledWith({
+      uri: 'libsql://schema/users'
+    });
+    expect(ordersSubscriber.sendResourceUpdated).not.toHaveBeenCalled();
+    expect(usersSubscriber.sendResourceListChanged).not.toHaveBeenCalled();
+  });
+
+  it('should stop notifying after unsubscribe or server removal', async () => {
+    const unsubscribed = createServer();
+    const removed = createServer();
+    watcher.subscribe(unsubscribed, 'libsql://schema');
+    watcher.subscribe(removed, 'libsql://schema');
+    await watcher.checkForChanges(connection);
+
+    watcher.unsubscribe(unsubscribed, 'libsql://schema');
+    watcher.removeServer(removed);
+    objects[0] = { name: 'users', type: 'table', sql: 'CREATE TABLE users (id TEXT)' };
+    schemaVersion = 2;
+    await watcher.checkForChanges(connection);
+
+    expect(unsubscribed.sendResourceUpdated).not.toHaveBeenCalled();
+    expect(removed.sendResourceUpdated).not.toHaveBeenCalled();
+    expect(watcher.getSubscriptionCount()).toBe(0);
+  });
+
+  it('should keep notifying other servers when one fails', async () => {
+    const failing = createServer();
+    vi.mocked(failing.sendResourceUpdated).mockRejectedValue(new Error('Not connected'));
+    const healthy = createServer();
+    watcher.subscribe(failing, 'libsql://schema');
+    watcher.subscribe(healthy, 'libsql://schema');
+    await watcher.checkForChanges(connection);
+
+    objects.pop();
+    schemaVersion = 2;
+    await watcher.checkForChanges(connection);
+
+    expect(healthy.sendResourceListChanged).toHaveBeenCalled();
+    expect(healthy.sendResourceUpdated).toHaveBeenCalledWith({ uri: 'libsql://schema' });
+  });
+
+  it('should compare a new pool against the previous snapshot', async () => {
+    const server = createServer();
+    watcher.subscribe(server, 'libsql://schema');
+    await watcher.checkForChanges(connection);
+
+    const otherConnection = {
+      ...connection,
+      execute: vi.fn(async (query: string) =>
+        query === 'PRAGMA schema_version' ? { rows: [{ schema_version: 1 }] } : { rows: [] }
+      ) as any
+    };
+    const otherPool = { ...pool, getConnection: vi.fn().mockResolvedValue(otherConnection) };
+
+    watcher.setPool(otherPool);
+    await vi.waitFor(() => expect(server.sendResourceListChanged).toHaveBeenCalledTimes(1));
+
+    expect(otherPool.releaseConnection).toHaveBeenCalledWith(otherConnection);
+  });
+
+  it('should detect out-of-band changes by polling', async () => {
+    vi.useFakeTimers();
+    const server = createServer();
+    watcher = new SchemaWatcher(pool, { pollInterval: 1000 });
+    watcher.subscribe(server, 'libsql://schema');
+
+    watcher.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    objects.push({ name: 'audit', type: 'table', sql: 'CREATE TABLE audit (id INTEGER)' });
+    schemaVersion = 5;
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(server.sendResourceListChanged).toHaveBeenCalledTimes(1);
+    expect(pool.releaseConnection).toHaveBeenCalledWith(connection);
+  });
+});
@@ -44,6 +44,13 @@ describe('Security Verification - Input Validation', () => {
       "SELECT load_extension('/etc/passwd')",
       'SELECT randomblob(1000000000)',
       'SELECT hex(randomblob(10000))',
+      'SELECT zeroblob(1000000000)',
+
+      // Functions called by their quoted names
+      'SELECT "randomblob"(100000000)',
+      "SELECT [load_extension]('x')",
+      'SELECT `zeroblob`(1e9)',
+      'SELECT hex("RandomBlob" (10000)) FROM users',
 
       // Case variation evasion
       'SeLeCt * FrOm UsErS uNiOn SeLeCt * FrOm sQlItE_mAsTeR',
@@ -51,6 +58,10 @@ describe('Security Verification - Input Validation', () => {
 
       // Classic injection patterns (Note: OR 1=1 is syntactically valid, should be prevented by parameterized queries)
 
+      // Quoted and schema-qualified system tables
+      'SELECT * FROM "sqlite_master"',
+      'SELECT * FROM users, main.[sqlite_master]',
+
       // Nested injection attempts
       "SELECT (SELECT sql FROM sqlite_master WHERE type='table')",
       'SELECT * FROM users WHERE username IN (SELECT name FROM sqlite_master)',
@@ -79,7 +90,12 @@ describe('Security Verification - Input Validation', () => {
         'SELECT DISTINCT role FROM users',
         'SELECT * FROM users ORDER BY username LIMIT 10',
         'select * from users',
-        'Select * From Users'
+        'Select * From Users',
+        // Keywords and comment markers inside column names and string literals
+        'SELECT updated_at, created_by FROM users',
+        "SELECT * FROM users WHERE username = 'drop' OR bio = 'a; b -- c'",
+        'SELECT "union", [delete] FROM users',
+        'WITH admins AS (SELECT * FROM users WHERE role = ?) SELECT username FROM admins'
       ];
 
       for (const query of legitimateQueries) {
@@ -172,7 +188,11 @@ describe('Security Verification - Input Validation', () => {
         "UPDATE users SET email = 'updated@example.com' WHERE id = 1",
         "DELETE FROM users WHERE username = 'test'",
         "insert into users (username) values ('test')",
-        "Update Users Set Email = 'test@test.com' Where Id = 1"
+        "Update Users Set Email = 'test@test.com' Where Id = 1",
+        "UPDATE users SET updated_at = datetime('now'), note = 'create table' WHERE id = 1",
+        "INSERT INTO users (username) VALUES ('test') ON CONFLICT (username) DO UPDATE SET email = 'x'",
+        // Quoted table names before a column list are not function calls
+        'INSERT INTO "drop" (id) VALUES (1)'
       ];
 
       for (const query of legitimateQueries) {
@@ -254,6 +274,24 @@ describe('Security Verification - Input Validation', () => {
       });
       expect(alterResult.success).toBe(true);
     });
+
+    it('should allow keywords in names, defaults and foreign key actions', () => {
+      const createResult = CreateTableInputSchema.safeParse({
+        query:
+          "CREATE TABLE orders (id INTEGER PRIMARY KEY, user_id INTEGER REFERENCES users (id) ON DELETE CASCADE ON UPDATE CASCADE, updated_at TEXT, status TEXT DEFAULT 'drop')"
+      });
+      expect(createResult.success).toBe(true);
+
+      const alterResult = AlterTableInputSchema.safeParse({
+        query: 'ALTER TABLE users DROP COLUMN created_at'
+      });
+      expect(alterResult.success).toBe(true);
+
+      const quotedResult = CreateTableInputSchema.safeParse({
+        query: 'CREATE TABLE "delete"(id INTEGER PRIMARY KEY)'
+      });
+      expect(quotedResult.success).toBe(true);
+    });
   });
 
   describe('Table Name Validation', () => {
@@ -7,7 +7,8 @@ vi.mock('@modelcontextprotocol/sdk/server/index.js', () => ({
   Server: vi.fn().mockImplementation(() => ({
     setRequestHandler: vi.fn(),
     connect: vi.fn().mockResolvedValue(undefined),
-    close: vi.fn().mockResolvedValue(undefined)
+    close: vi.fn().mockResolvedValue(undefined),
+    sendToolListChanged: vi.fn().mockResolvedValue(undefined)
   }))
 }));
 
@@ -18,6 +19,28 @@ vi.mock('@modelcontextprotocol/sdk/server/stdio.js', () => ({
   }))
 }));
 
+vi.mock('../../lib/http-server.js', () => ({
+  McpHttpServer: vi.fn().mockImplementation(() => ({
+    listen: vi.fn().mockResolvedValue({ address: '127.0.0.1', port: 3000 }),
+    close: vi.fn().mockResolvedValue(undefined),
+    getSessionCount: vi.fn().mockReturnValue(0)
+  }))
+}));
+
+vi.mock('../../lib/schema-watcher.js', () => ({
+  SchemaWatcher: vi.fn().mockImplementation(() => ({
+    start: vi.fn(),
+    stop: vi.fn(),
+    setPool: vi.fn(),
+    addServer: vi.fn(),
+    removeServer: vi.fn(),
+    subscribe: vi.fn(),
+    unsubscribe: vi.fn(),
+    checkForChanges: vi.fn().mockResolvedValue(null),
+    getSubscriptionCount: vi.fn().mockReturnValue(0)
+  }))
+}));
+
 vi.mock('../../lib/logger.js', () => ({
   Logger: vi.fn().mockImplementation(() => ({
     info: vi.fn(),
@@ -31,7 +54,9 @@ vi.mock('../../lib/database.js', () => ({
   LibSQLConnectionPool: vi.fn().mockImplementation(() => ({
     initialize: vi.fn().mockResolvedValue(undefined),
     close: vi.fn().mockResolvedValue(undefined),
+    drain: vi.fn().mockResolvedValue(undefined),
     getConnection: vi.fn().mockResolvedValue({}),
+    releaseConnection: vi.fn(),
     getStatus: vi.fn().mockReturnValue({ totalConnections: 1 })
   }))
 }));
@@ -40,7 +65,19 @@ vi.mock('../../lib/base-tool.js', () => ({
   ToolRegistry: vi.fn().mockImplementation(() => ({
     register: vi.fn(),
     getToolDefinitions: vi.fn().mockReturnValue([]),
-    getAll: vi.fn().mockReturnValue([])
+    getAll: vi.fn().mockReturnValue([]),
+    get: vi.fn((name: string) => ({
+      name,
+      modifiesSchema: name === 'create-table' || name === 'alter-table',
+      readOnly: ['read-query', 'list-tables', 'describe-table'].includes(name),
+      supportsTransactions: [
+        'read-query',
+        'write-query',
+        'commit-transaction',
+        'rollback-transaction'
+      ].includes(name)
+    })),
+    execute: vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] })
   }))
 }));
 
@@ -53,6 +90,10 @@ vi.mock('../../tools/write-query.js', () => ({
   WriteQueryTool: vi.fn().mockImplementation(() => ({ name: 'write-query' }))
 }));
 
+vi.mock('../../tools/execute-batch.js', () => ({
+  ExecuteBatchTool: vi.fn().mockImplementation(() => ({ name: 'execute-batch' }))
+}));
+
 vi.mock('../../tools/create-table.js', () => ({
   CreateTableTool: vi.fn().mockImplementation(() => ({ name: 'create-table' }))
 }));
@@ -69,6 +110,26 @@ vi.mock('../../tools/describe-table.js', () => ({
   DescribeTableTool: vi.fn().mockImplementation(() => ({ name: 'describe-table' }))
 }));
 
+vi.mock('../../tools/explain-query.js', () => ({
+  ExplainQueryTool: vi.fn().mockImplementation(() => ({ name: 'explain-query' }))
+}));
+
+vi.mock('../../tools/sync-database.js', () => ({
+  SyncDatabaseTool: vi.fn().mockImplementation(() => ({ name: 'sync-database' }))
+}));
+
+vi.mock('../../tools/begin-transaction.js', () => ({
+  BeginTransactionTool: vi.fn().mockImplementation(() => ({ name: 'begin-transaction' }))
+}));
+
+vi.mock('../../tools/commit-transaction.js', () => ({
+  CommitTransactionTool: vi.fn().mockImplementation(() => ({ name: 'commit-transaction' }))
+}));
+
+vi.mock('../../tools/rollback-transaction.js', () => ({
+  RollbackTransactionTool: vi.fn().mockImplementation(() => ({ name: 'rollback-transaction' }))
+}));
+
 describe('ServerManager', () => {
   let serverManager: ServerManager;
   let mockConfig: DatabaseConfig;
@@ -143,6 +204,22 @@ describe('ServerManager', () => {
       expect(status.running).toBe(false);
       expect(status.shuttingDown).toBe(false);
     });
+
+    it('should report the circuit breaker state of each database', async () => {
+      const { LibSQLConnectionPool } = await import('../../lib/database.js');
+      await serverManager.start();
+
+      const pool = vi.mocked(LibSQLConnectionPool).mock.results.at(-1)?.value;
+      const circuitBreaker = {
+        state: 'open',
+        consecutiveFailures: 5,
+        lastError: 'fetch failed',
+        nextProbeAt: '2026-01-01T00:00:30.000Z'
+      };
+      pool.getStatus.mockReturnValue({ totalConnections: 0, circuitBreaker });
+
+      expect(serverManager.getStatus().circuitBreakers).toEqual({ default: circuitBreaker });
+    });
   });
 
   describe('start', () => {
@@ -178,6 +255,548 @@ describe('ServerManager', () => {
     });
   });
 
+  describe('capabilities', () => {
+    it('should advertise tools, schema resources and prompts', async () => {
+      const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+
+      await serverManager.start();
+
+      expect(Server).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'xexr-libsql' }),
+        expect.objectContaining({
+          capabilities: expect.objectContaining({
+            tools: { listChanged: true },
+            resources: expect.any(Object),
+            prompts: {}
+          })
+        })
+      );
+    });
+
+    it('should register resource request handlers', async () => {
+      const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+      const { ListResourcesRequestSchema, ReadResourceRequestSchema } = await import(
+        '@modelcontextprotocol/sdk/types.js'
+      );
+
+      await serverManager.start();
+
+      const server = vi.mocked(Server).mock.results[0]?.value;
+      const schemas = server.setRequestHandler.mock.calls.map((call: unknown[]) => call[0]);
+      expect(schemas).toContain(ListResourcesRequestSchema);
+      expect(schemas).toContain(ReadResourceRequestSchema);
+    });
+
+    it('should register prompt request handlers and the built-in prompts', async () => {
+      const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+      const { ListPromptsRequestSchema, GetPromptRequestSchema } = await import(
+        '@modelcontextprotocol/sdk/types.js'
+      );
+
+      await serverManager.start();
+
+      const server = vi.mocked(Server).mock.results[0]?.value;
+      const schemas = server.setRequestHandler.mock.calls.map((call: unknown[]) => call[0]);
+      expect(schemas).toContain(ListPromptsRequestSchema);
+      expect(schemas).toContain(GetPromptRequestSchema);
+      expect(serverManager.getStatus().registeredPrompts).toBe(3);
+    });
+  });
+
+  describe('schema change notifications', () => {
+    const callTool = async (manager: ServerManager, name: string) => {
+      const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+      const { CallToolRequestSchema } = await import('@modelcontextprotocol/sdk/types.js');
+
+      await manager.start();
+
+      const server = vi.mocked(Server).mock.results.at(-1)?.value;
+      const handler = server.setRequestHandler.mock.calls.find(
+        (call: unknown[]) => call[0] === CallToolRequestSchema
+      )[1];
+      return handler({ params: { name, arguments: {} } }, { signal: new AbortController().signal });
+    };
+
+    it('should check for schema changes after a successful schema-modifying tool', async () => {
+      const { SchemaWatcher } = await import('../../lib/schema-watcher.js');
+
+      await callTool(serverManager, 'create-table');
+
+      const watcher = vi.mocked(SchemaWatcher).mock.results.at(-1)?.value;
+      expect(watcher.checkForChanges).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass the request abort signal to the tool', async () => {
+      const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+      const { ToolRegistry } = await import('../../lib/base-tool.js');
+      const { CallToolRequestSchema } = await import('@modelcontextprotocol/sdk/types.js');
+      const { LibSQLConnectionPool } = await import('../../lib/database.js');
+
+      await serverManager.start();
+      const server = vi.mocked(Server).mock.results.at(-1)?.value;
+      const handler = server.setRequestHandler.mock.calls.find(
+        (call: unknown[]) => call[0] === CallToolRequestSchema
+      )[1];
+      const controller = new AbortController();
+
+      await handler(
+        { params: { name: 'read-query', arguments: {} } },
+        { signal: controller.signal }
+      );
+
+      const registry = vi.mocked(ToolRegistry).mock.results.at(-1)?.value;
+      const pool = vi.mocked(LibSQLConnectionPool).mock.results.at(-1)?.value;
+      expect(registry.execute).toHaveBeenCalledWith(
+        'read-query',
+        expect.objectContaining({ signal: controller.signal })
+      );
+      expect(pool.releaseConnection).toHaveBeenCalled();
+    });
+
+    it('should only let read-only tools retry transient failures', async () => {
+      const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+      const { ToolRegistry } = await import('../../lib/base-tool.js');
+      const { CallToolRequestSchema } = await import('@modelcontextprotocol/sdk/types.js');
+
+      await serverManager.start();
+      const server = vi.mocked(Server).mock.results.at(-1)?.value;
+      const handler = server.setRequestHandler.mock.calls.find(
+        (call: unknown[]) => call[0] === CallToolRequestSchema
+      )[1];
+      const extra = { signal: new AbortController().signal };
+
+      await handler({ params: { name: 'read-query', arguments: {} } }, extra);
+      await handler({ params: { name: 'write-query', arguments: {} } }, extra);
+
+      const registry = vi.mocked(ToolRegistry).mock.results.at(-1)?.value;
+      expect(registry.execute).toHaveBeenCalledWith(
+        'read-query',
+        expect.objectContaining({ retryTransientErrors: true })
+      );
+      expect(registry.execute).toHaveBeenCalledWith(
+        'write-query',
+        expect.objectContaining({ retryTransientErrors: false })
+      );
+    });
+
+    it('should not check for schema changes after read-only tools', async () => {
+      const { SchemaWatcher } = await import('../../lib/schema-watcher.js');
+
+      await callTool(serverManager, 'read-query');
+
+      const watcher = vi.mocked(SchemaWatcher).mock.results.at(-1)?.value;
+      expect(watcher.checkForChanges).not.toHaveBeenCalled();
+    });
+
+    it('should stop the watcher on stop', async () => {
+      const { SchemaWatcher } = await import('../../lib/schema-watcher.js');
+
+      await serverManager.start();
+      const watcher = vi.mocked(SchemaWatcher).mock.results.at(-1)?.value;
+      await serverManager.stop();
+
+      expect(watcher.start).toHaveBeenCalled();
+      expect(watcher.stop).toHaveBeenCalled();
+    });
+  });
+
+  describe('multiple databases', () => {
+    const callTool = async (
+      manager: ServerManager,
+      name: string,
+      args: Record<string, unknown>
+    ) => {
+      const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+      const { CallToolRequestSchema } = await import('@modelcontextprotocol/sdk/types.js');
+
+      await manager.start();
+
+      const server = vi.mocked(Server).mock.results.at(-1)?.value;
+      const handler = server.setRequestHandler.mock.calls.find(
+        (call: unknown[]) => call[0] === CallToolRequestSchema
+      )[1];
+      return handler(
+        { params: { name, arguments: args } },
+        { signal: new AbortController().signal }
+      );
+    };
+
+    beforeEach(() => {
+      serverManager = new ServerManager({
+        ...mockOptions,
+        defaultDatabase: 'dev',
+        databases: { prod: { url: 'libsql://prod.turso.io', authToken: 'prod-token-123' } }
+      });
+    });
+
+    it('should create one pool per database', async () => {
+      const { LibSQLConnectionPool } = await import('../../lib/database.js');
+
+      await serverManager.start();
+
+      expect(LibSQLConnectionPool).toHaveBeenCalledTimes(2);
+      expect(LibSQLConnectionPool).toHaveBeenCalledWith(mockConfig);
+      expect(LibSQLConnectionPool).toHaveBeenCalledWith({
+        url: 'libsql://prod.turso.io',
+        authToken: 'prod-token-123'
+      });
+      expect(serverManager.getStatus().databases).toEqual({ dev: 1, prod: 1 });
+    });
+
+    it('should route tool calls to the named database', async () => {
+      const { LibSQLConnectionPool } = await import('../../lib/database.js');
+
+      await callTool(serverManager, 'read-query', { database: 'prod' });
+
+      const [devPool, prodPool] = vi.mocked(LibSQLConnectionPool).mock.results.map(r => r.value);
+      expect(prodPool.getConnection).toHaveBeenCalledTimes(1);
+      expect(prodPool.releaseConnection).toHaveBeenCalledTimes(1);
+      expect(devPool.getConnection).not.toHaveBeenCalled();
+    });
+
+    it('should use the default database when none is named', async () => {
+      const { LibSQLConnectionPool } = await import('../../lib/database.js');
+
+      await callTool(serverManager, 'read-query', {});
+
+      const [devPool, prodPool] = vi.mocked(LibSQLConnectionPool).mock.results.map(r => r.value);
+      expect(devPool.getConnection).toHaveBeenCalledTimes(1);
+      expect(prodPool.getConnection).not.toHaveBeenCalled();
+    });
+
+    it('should return an error listing available databases for an unknown name', async () => {
+      const result = await callTool(serverManager, 'read-query', { database: 'staging' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Unknown database: staging');
+      expect(result.content[0].text).toContain('dev, prod');
+    });
+
+    it('should only check for schema changes on the default database', async () => {
+      const { SchemaWatcher } = await import('../../lib/schema-watcher.js');
+
+      await callTool(serverManager, 'create-table', { database: 'prod' });
+
+      const watcher = vi.mocked(SchemaWatcher).mock.results.at(-1)?.value;
+      expect(watcher.checkForChanges).not.toHaveBeenCalled();
+    });
+
+    it('should close every pool on stop', async () => {
+      const { LibSQLConnectionPool } = await import('../../lib/database.js');
+
+      await serverManager.start();
+      await serverManager.stop();
+
+      for (const { value: pool } of vi.mocked(LibSQLConnectionPool).mock.results) {
+        expect(pool.close).toHaveBeenCalled();
+      }
+    });
+  });
+
+  describe('read replicas', () => {
+    const callTool = async (name: string, args: Record<string, unknown> = {}) => {
+      const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+      const { CallToolRequestSchema } = await import('@modelcontextprotocol/sdk/types.js');
+
+      const server = vi.mocked(Server).mock.results.at(-1)?.value;
+      const handler = server.setRequestHandler.mock.calls.find(
+        (call: unknown[]) => call[0] === CallToolRequestSchema
+      )[1];
+      return handler(
+        { params: { name, arguments: args } },
+        { signal: new AbortController().signal }
+      );
+    };
+
+    const getPools = async () => {
+      const { LibSQLConnectionPool } = await import('../../lib/database.js');
+      const [primaryPool, readPool] = vi
+        .mocked(LibSQLConnectionPool)
+        .mock.results.map(result => result.value);
+      return { primaryPool, readPool };
+    };
+
+    beforeEach(() => {
+      serverManager = new ServerManager({
+        ...mockOptions,
+        config: { url: 'libsql://primary.turso.io', readUrl: 'libsql://replica.turso.io' }
+      });
+    });
+
+    it('should create a separate pool for the read replica', async () => {
+      const { LibSQLConnectionPool } = await import('../../lib/database.js');
+
+      await serverManager.start();
+
+      expect(LibSQLConnectionPool).toHaveBeenCalledTimes(2);
+      expect(LibSQLConnectionPool).toHaveBeenCalledWith({ url: 'libsql://replica.turso.io' });
+      expect(serverManager.getStatus()).toMatchObject({
+        databases: { default: 1 },
+        readReplicas: { default: { connections: 1, available: true } }
+      });
+    });
+
+    it('should run read-only tools on the replica and writes on the primary', async () => {
+      await serverManager.start();
+      const { primaryPool, readPool } = await getPools();
+
+      await callTool('read-query');
+      await callTool('list-tables');
+      await callTool('write-query');
+
+      expect(readPool.getConnection).toHaveBeenCalledTimes(2);
+      expect(readPool.releaseConnection).toHaveBeenCalledTimes(2);
+      expect(primaryPool.getConnection).toHaveBeenCalledTimes(1);
+    });
+
+    it('should fall back to the primary while the replica is unavailable', async () => {
+      await serverManager.start();
+      const { primaryPool, readPool } = await getPools();
+      readPool.getConnection.mockRejectedValue(new Error('replica down'));
+
+      const first = await callTool('read-query');
+      const second = await callTool('read-query');
+
+      expect(first.isError).toBeFalsy();
+      expect(second.isError).toBeFalsy();
+      // The failed replica is skipped until the retry interval passes
+      expect(readPool.getConnection).toHaveBeenCalledTimes(1);
+      expect(primaryPool.getConnection).toHaveBeenCalledTimes(2);
+      expect(primaryPool.releaseConnection).toHaveBeenCalledTimes(2);
+      expect(serverManager.getStatus().readReplicas).toEqual({
+        default: { connections: 1, available: false }
+      });
+    });
+
+    it('should start with reads on the primary when the replica cannot be reached', async () => {
+      const { LibSQLConnectionPool } = await import('../../lib/database.js');
+      vi.mocked(LibSQLConnectionPool).mockImplementationOnce(
+        () =>
+          ({
+            initialize: vi.fn().mockResolvedValue(undefined),
+            close: vi.fn().mockResolvedValue(undefined),
+            getConnection: vi.fn().mockResolvedValue({}),
+            releaseConnection: vi.fn(),
+            getStatus: vi.fn().mockReturnValue({ totalConnections: 1 })
+          }) as any
+      );
+      vi.mocked(LibSQLConnectionPool).mockImplementationOnce(
+        () =>
+          ({
+            initialize: vi.fn().mockRejectedValue(new Error('replica down')),
+            close: vi.fn().mockResolvedValue(undefined),
+            getConnection: vi.fn(),
+            releaseConnection: vi.fn(),
+            getStatus: vi.fn().mockReturnValue({ totalConnections: 0 })
+          }) as any
+      );
+
+      await serverManager.start();
+      const { primaryPool, readPool } = await getPools();
+      await callTool('describe-table');
+
+      expect(serverManager.isServerRunning()).toBe(true);
+      expect(readPool.getConnection).not.toHaveBeenCalled();
+      expect(primaryPool.getConnection).toHaveBeenCalledTimes(1);
+    });
+
+    it('should close the replica pool on stop', async () => {
+      await serverManager.start();
+      const { readPool } = await getPools();
+
+      await serverManager.stop();
+
+      expect(readPool.close).toHaveBeenCalled();
+    });
+  });
+
+  describe('transactions', () => {
+    let transaction: any;
+    let connection: any;
+
+    const callTool = async (name: string, args: Record<string, unknown> = {}) => {
+      const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+      const { CallToolRequestSchema } = await import('@modelcontextprotocol/sdk/types.js');
+
+      const server = vi.mocked(Server).mock.results.at(-1)?.value;
+      const handler = server.setRequestHandler.mock.calls.find(
+        (call: unknown[]) => call[0] === CallToolRequestSchema
+      )[1];
+      return handler(
+        { params: { name, arguments: args } },
+        { signal: new AbortController().signal }
+      );
+    };
+
+    const getRegistry = async () => {
+      const { ToolRegistry } = await import('../../lib/base-tool.js');
+      return vi.mocked(ToolRegistry).mock.results.at(-1)?.value;
+    };
+
+    const getPool = async () => {
+      const { LibSQLConnectionPool } = await import('../../lib/database.js');
+      return vi.mocked(LibSQLConnectionPool).mock.results[0]?.value;
+    };
+
+    /** Start a transaction the way begin-transaction does, returning its id */
+    const beginTransaction = async (): Promise<string> => {
+      const registry = await getRegistry();
+      let transactionId = '';
+      registry.execute.mockImplementationOnce(async (_name: string, context: any) => {
+        ({ transactionId } = await context.transactions.begin());
+        return { content: [{ type: 'text', text: transactionId }] };
+      });
+      await callTool('begin-transaction');
+      return transactionId;
+    };
+
+    beforeEach(async () => {
+      transaction = {
+        isOpen: true,
+        commit: vi.fn().mockResolvedValue(undefined),
+        rollback: vi.fn().mockResolvedValue(undefined),
+        close: vi.fn().mockResolvedValue(undefined)
+      };
+      connection = { beginTransaction: vi.fn().mockResolvedValue(transaction) };
+
+      await serverManager.start();
+      (await getPool()).getConnection.mockResolvedValue(connection);
+    });
+
+    it('should keep the connection checked out while the transaction is open', async () => {
+      const pool = await getPool();
+
+      const transactionId = await beginTransaction();
+
+      expect(transactionId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(pool.getConnection).toHaveBeenCalledTimes(1);
+      expect(pool.releaseConnection).not.toHaveBeenCalled();
+      expect(serverManager.getStatus().openTransactions).toBe(1);
+    });
+
+    it('should run calls with a transactionId inside the transaction', async () => {
+      const pool = await getPool();
+      const registry = await getRegistry();
+      const transactionId = await beginTransaction();
+
+      await callTool('read-query', { transactionId });
+      await callTool('write-query', { transactionId });
+
+      expect(pool.getConnection).toHaveBeenCalledTimes(1);
+      expect(registry.execute).toHaveBeenLastCalledWith(
+        'write-query',
+        expect.objectContaining({ connection: transaction })
+      );
+    });
+
+    it('should ignore a transactionId passed to tools that do not support one', async () => {
+      const pool = await getPool();
+      const transactionId = await beginTransaction();
+      const otherConnection = {};
+      pool.getConnection.mockResolvedValueOnce(otherConnection);
+
+      await callTool('list-tables', { transactionId });
+
+      expect(pool.getConnection).toHaveBeenCalledTimes(2);
+      expect(pool.releaseConnection).toHaveBeenCalledWith(otherConnection);
+    });
+
+    it('should report an unknown transaction', async () => {
+      const result = await callTool('read-query', {
+        transactionId: '00000000-0000-4000-8000-000000000000'
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(
+        'Transaction 00000000-0000-4000-8000-000000000000 not found'
+      );
+    });
+
+    it('should return the connection to the pool on commit', async () => {
+      const pool = await getPool();
+      const registry = await getRegistry();
+      const transactionId = await beginTransaction();
+      registry.execute.mockImplementationOnce(async (_name: string, context: any) => {
+        await context.transactions.commit(transactionId);
+        return { content: [{ type: 'text', text: 'committed' }] };
+      });
+
+      await callTool('commit-transaction', { transactionId });
+
+      expect(transaction.commit).toHaveBeenCalled();
+      expect(pool.releaseConnection).toHaveBeenCalledWith(connection);
+      expect(serverManager.getStatus().openTransactions).toBe(0);
+    });
+
+    it('should roll back open transactions on shutdown', async () => {
+      const pool = await getPool();
+      await beginTransaction();
+
+      await serverManager.stop();
+
+      expect(transaction.rollback).toHaveBeenCalled();
+      expect(pool.releaseConnection).toHaveBeenCalledWith(connection);
+      expect(pool.close).toHaveBeenCalled();
+    });
+
+    it('should keep transactions open across a reload that leaves their database unchanged', async () => {
+      await beginTransaction();
+
+      await serverManager.reload({ config: { ...mockConfig }, disabledTools: ['drop'] });
+
+      expect(transaction.rollback).not.toHaveBeenCalled();
+      expect(serverManager.getStatus().openTransactions).toBe(1);
+    });
+
+    it('should roll back transactions on a database that is reconfigured', async () => {
+      const pool = await getPool();
+      await beginTransaction();
+
+      await serverManager.reload({ config: { url: 'file:///tmp/other.db' } });
+
+      expect(transaction.rollback).toHaveBeenCalled();
+      expect(pool.releaseConnection).toHaveBeenCalledWith(connection);
+      expect(serverManager.getStatus().openTransactions).toBe(0);
+    });
+  });
+
+  describe('http transport', () => {
+    it('should serve over HTTP instead of stdio when configured', async () => {
+      const { McpHttpServer } = await import('../../lib/http-server.js');
+      const { StdioServerTransport } = await import('@modelcontextprotocol/sdk/server/stdio.js');
+
+      const httpManager = new ServerManager({
+        ...mockOptions,
+        transport: { type: 'http', host: '0.0.0.0', port: 8081 }
+      });
+      await httpManager.start();
+
+      expect(McpHttpServer).toHaveBeenCalledWith(
+        expect.objectContaining({ host: '0.0.0.0', port: 8081 })
+      );
+      expect(StdioServerTransport).not.toHaveBeenCalled();
+      expect(httpManager.getStatus()).toMatchObject({ running: true, httpSessions: 0 });
+
+      await httpManager.stop();
+    });
+
+    it('should close the HTTP transport on stop', async () => {
+      const { McpHttpServer } = await import('../../lib/http-server.js');
+
+      const httpManager = new ServerManager({
+        ...mockOptions,
+        transport: { type: 'http' }
+      });
+      await httpManager.start();
+
+      const httpServer = vi.mocked(McpHttpServer).mock.results[0]?.value;
+      await httpManager.stop();
+
+      expect(httpServer.close).toHaveBeenCalled();
+      expect(httpManager.getStatus().httpSessions).toBeUndefined();
+    });
+  });
+
   describe('stop', () => {
     it('should handle stopping when not running', async () => {
       // Should not throw
@@ -206,6 +825,127 @@ describe('ServerManager', () => {
       await expect(serverManager.reload()).resolves.toBeUndefined();
       expect(serverManager.isServerRunning()).toBe(true);
     });
+
+    it('should keep the stdio session connected while swapping pools', async () => {
+      const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+      const { StdioServerTransport } = await import('@modelcontextprotocol/sdk/server/stdio.js');
+      const { LibSQLConnectionPool } = await import('../../lib/database.js');
+      const { SchemaWatcher } = await import('../../lib/schema-watcher.js');
+
+      await serverManager.start();
+      const server = vi.mocked(Server).mock.results.at(-1)?.value;
+      const oldPool = vi.mocked(LibSQLConnectionPool).mock.results.at(-1)?.value;
+
+      await serverManager.reload({ config: { url: 'file:///tmp/other.db', maxConnections: 4 } });
+
+      const newPool = vi.mocked(LibSQLConnectionPool).mock.results.at(-1)?.value;
+      const watcher = vi.mocked(SchemaWatcher).mock.results.at(-1)?.value;
+      expect(LibSQLConnectionPool).toHaveBeenLastCalledWith({
+        url: 'file:///tmp/other.db',
+        maxConnections: 4
+      });
+      expect(oldPool.drain).toHaveBeenCalled();
+      expect(newPool.drain).not.toHaveBeenCalled();
+      expect(watcher.setPool).toHaveBeenCalledWith(newPool);
+      expect(server.close).not.toHaveBeenCalled();
+      expect(Server).toHaveBeenCalledTimes(1);
+      expect(StdioServerTransport).toHaveBeenCalledTimes(1);
+    });
+
+    it('should keep the previous pools when the new configuration fails', async () => {
+      const { LibSQLConnectionPool } = await import('../../lib/database.js');
+
+      await serverManager.start();
+      const oldPool = vi.mocked(LibSQLConnectionPool).mock.results.at(-1)?.value;
+      vi.mocked(LibSQLConnectionPool).mockImplementationOnce(
+        () =>
+          ({
+            initialize: vi.fn().mockRejectedValue(new Error('Connection refused')),
+            close: vi.fn().mockResolvedValue(undefined)
+          }) as any
+      );
+
+      await expect(
+        serverManager.reload({ config: { url: 'libsql://unreachable.turso.io' } })
+      ).rejects.toThrow('Connection refused');
+
+      expect(oldPool.close).not.toHaveBeenCalled();
+      expect(oldPool.drain).not.toHaveBeenCalled();
+      expect(serverManager.getStatus().poolConnections).toBe(1);
+    });
+
+    it('should keep the pools when no database settings changed', async () => {
+      const { LibSQLConnectionPool } = await import('../../lib/database.js');
+
+      await serverManager.start();
+      const pool = vi.mocked(LibSQLConnectionPool).mock.results.at(-1)?.value;
+      vi.mocked(LibSQLConnectionPool).mockClear();
+
+      await serverManager.reload({ config: { ...mockOptions.config }, disabledTools: ['drop'] });
+
+      expect(LibSQLConnectionPool).not.toHaveBeenCalled();
+      expect(pool.drain).not.toHaveBeenCalled();
+    });
+
+    it('should only reconnect the databases whose settings changed', async () => {
+      const { LibSQLConnectionPool } = await import('../../lib/database.js');
+      const databases = {
+        dev: { url: 'file:///tmp/dev.db' },
+        prod: { url: 'libsql://prod.turso.io' },
+        old: { url: 'file:///tmp/old.db' }
+      };
+
+      serverManager = new ServerManager({ ...mockOptions, databases });
+      await serverManager.start();
+      const [defaultPool, devPool, prodPool, oldPool] = vi
+        .mocked(LibSQLConnectionPool)
+        .mock.results.map(result => result.value);
+
+      await serverManager.reload({
+        databases: { dev: databases.dev, prod: { url: 'libsql://prod-2.turso.io' } }
+      });
+
+      expect(LibSQLConnectionPool).toHaveBeenCalledTimes(5);
+      expect(LibSQLConnectionPool).toHaveBeenLastCalledWith({ url: 'libsql://prod-2.turso.io' });
+      expect(defaultPool.drain).not.toHaveBeenCalled();
+      expect(devPool.drain).not.toHaveBeenCalled();
+      expect(prodPool.drain).toHaveBeenCalled();
+      expect(oldPool.drain).toHaveBeenCalled();
+    });
+
+    it('should hide disabled tools and notify clients when they change', async () => {
+      const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
+      const { ToolRegistry } = await import('../../lib/base-tool.js');
+      const { CallToolRequestSchema, ListToolsRequestSchema } = await import(
+        '@modelcontextprotocol/sdk/types.js'
+      );
+
+      await serverManager.start();
+      const server = vi.mocked(Server).mock.results.at(-1)?.value;
+      const registry = vi.mocked(ToolRegistry).mock.results.at(-1)?.value;
+      registry.getToolDefinitions.mockReturnValue([
+        { name: 'read-query' },
+        { name: 'write-query' }
+      ]);
+      const getHandler = (schema: unknown) =>
+        server.setRequestHandler.mock.calls.find((call: unknown[]) => call[0] === schema)[1];
+
+      await serverManager.reload({ disabledTools: ['write-query'] });
+
+      expect(server.sendToolListChanged).toHaveBeenCalledTimes(1);
+      const { tools } = await getHandler(ListToolsRequestSchema)({});
+      expect(tools).toEqual([{ name: 'read-query' }]);
+
+      const result = await getHandler(CallToolRequestSchema)(
+        { params: { name: 'write-query', arguments: {} } },
+        { signal: new AbortController().signal }
+      );
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Tool write-query is disabled');
+
+      await serverManager.reload({ disabledTools: ['write-query'] });
+      expect(server.sendToolListChanged).toHaveBeenCalledTimes(1);
+    });
   });
 
   describe('error handling', () => {
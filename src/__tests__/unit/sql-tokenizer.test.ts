@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import {
+  analyzeSql,
+  getCalledFunctions,
+  getReferencedTables,
+  getStatementType,
+  isSystemTable,
+  tokenizeSql
+} from '../../utils/sql-tokenizer.js';
+
+describe('SQL tokenizer', () => {
+  describe('tokenizeSql', () => {
+    it('should keep keywords inside strings, quoted identifiers and comments out of words', () => {
+      const tokens = tokenizeSql(
+        'SELECT "drop" FROM t -- delete\nWHERE a = \'it\'\'s; update\' /* create */'
+      );
+
+      expect(tokens.map(({ type, value }) => [type, value])).toEqual([
+        ['word', 'SELECT'],
+        ['identifier', 'drop'],
+        ['word', 'FROM'],
+        ['word', 'T'],
+        ['comment', '-- delete'],
+        ['word', 'WHERE'],
+        ['word', 'A'],
+        ['symbol', '='],
+        ['string', "'it''s; update'"],
+        ['comment', '/* create */']
+      ]);
+    });
+
+    it('should recognise numbers, blobs, parameters and operators', () => {
+      expect(
+        tokenizeSql("x'0F' 1.5e3 0x1f ?1 :name @id $v || <> [a]]").map(({ type }) => type)
+      ).toEqual([
+        'blob',
+        'number',
+        'number',
+        'parameter',
+        'parameter',
+        'parameter',
+        'parameter',
+        'symbol',
+        'symbol',
+        'identifier',
+        'symbol'
+      ]);
+    });
+
+    it('should unescape doubled quotes in identifiers', () => {
+      expect(tokenizeSql('"a""b" `c``d`').map(({ value }) => value)).toEqual(['a"b', 'c`d']);
+    });
+
+    it('should run an unterminated string to the end of the query', () => {
+      expect(tokenizeSql("SELECT 'abc; DROP TABLE t")).toHaveLength(2);
+    });
+  });
+
+  describe('getStatementType', () => {
+    it.each([
+      ['select * from t', 'SELECT'],
+      ['/* note */ INSERT INTO t VALUES (1)', 'INSERT'],
+      ['WITH RECURSIVE c(n) AS (SELECT 1 UNION ALL SELECT n + 1 FROM c) SELECT n FROM c', 'SELECT'],
+      ['WITH old AS (SELECT id FROM t) DELETE FROM t WHERE id IN old', 'DELETE'],
+      ['create table t (id)', 'CREATE TABLE'],
+      ['ALTER TABLE t ADD COLUMN c', 'ALTER TABLE'],
+      ['DROP VIEW v', 'DROP'],
+      ['PRAGMA foreign_keys', 'PRAGMA']
+    ])('should classify %s', (query, type) => {
+      expect(getStatementType(tokenizeSql(query))).toBe(type);
+    });
+
+    it.each(['CREATE INDEX i ON t (c)', 'REPLACE INTO t VALUES (1)', "'SELECT'", ''])(
+      'should not classify %s',
+      query => {
+        expect(getStatementType(tokenizeSql(query))).toBeUndefined();
+      }
+    );
+  });
+
+  describe('getReferencedTables', () => {
+    it.each([
+      ['SELECT * FROM users u JOIN orders o ON o.user_id = u.id', ['users', 'orders']],
+      ['SELECT * FROM a, main.b AS x, (c) WHERE a.id IN (1, 2)', ['a', 'b', 'c']],
+      ['SELECT * FROM (SELECT id FROM a) s, "Quoted Table"', ['a', 'quoted table']],
+      ['SELECT name FROM t ORDER BY a, b', ['t']],
+      ["SELECT * FROM pragma_table_info('t')", ['pragma_table_info']],
+      ['INSERT OR IGNORE INTO t SELECT * FROM s', ['t', 's']],
+      ['UPDATE OR REPLACE t SET a = 1 FROM s', ['t', 's']],
+      ['INSERT INTO t (a) VALUES (1), (2) ON CONFLICT (a) DO UPDATE SET a = 3', ['t']],
+      [
+        'CREATE TABLE IF NOT EXISTS t (p REFERENCES parent (id) ON UPDATE CASCADE)',
+        ['t', 'parent']
+      ],
+      ["SELECT 'FROM sqlite_master' FROM t -- FROM sqlite_master", ['t']]
+    ])('should find the tables of %s', (query, tables) => {
+      expect(getReferencedTables(tokenizeSql(query))).toEqual(tables);
+    });
+  });
+
+  describe('getCalledFunctions', () => {
+    it.each([
+      ['SELECT hex(randomblob(16)) FROM t', ['HEX', 'RANDOMBLOB']],
+      [
+        'SELECT "randomblob"(1), [load_extension] (\'x\'), `ZeroBlob`(2)',
+        ['RANDOMBLOB', 'LOAD_EXTENSION', 'ZEROBLOB']
+      ],
+      ['SELECT * FROM pragma_table_info(\'t\'), main."u"(1)', []],
+      ['INSERT INTO "drop" (id) VALUES (1)', ['VALUES']],
+      ['SELECT \'randomblob(1)\', "randomblob" FROM t -- zeroblob(1)', []]
+    ])('should find the functions called in %s', (query, functions) => {
+      expect(getCalledFunctions(tokenizeSql(query))).toEqual(functions);
+    });
+  });
+
+  it('should recognise system tables', () => {
+    expect(['sqlite_master', 'SQLITE_SEQUENCE', 'pragma_index_list'].every(isSystemTable)).toBe(
+      true
+    );
+    expect(isSystemTable('users_sqlite_backup')).toBe(false);
+  });
+
+  it('should report comments and statement separators outside strings', () => {
+    expect(analyzeSql("SELECT ';', '--' FROM t")).toMatchObject({
+      hasComments: false,
+      hasSemicolon: false
+    });
+    expect(analyzeSql('SELECT 1; -- done')).toMatchObject({
+      hasComments: true,
+      hasSemicolon: true
+    });
+  });
+});
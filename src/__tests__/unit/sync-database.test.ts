@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { SyncDatabaseTool } from '../../tools/sync-database.js';
+import type { ToolExecutionContext } from '../../lib/base-tool.js';
+import type { DatabaseConnection } from '../../types/index.js';
+
+describe('SyncDatabaseTool', () => {
+  let tool: SyncDatabaseTool;
+  let mockConnection: DatabaseConnection;
+  let context: ToolExecutionContext;
+
+  beforeEach(() => {
+    tool = new SyncDatabaseTool();
+
+    mockConnection = {
+      execute: vi.fn() as any,
+      transaction: vi.fn() as any,
+      close: vi.fn() as any,
+      isHealthy: vi.fn() as any,
+      sync: vi.fn() as any
+    } as DatabaseConnection;
+
+    context = {
+      connection: mockConnection,
+      arguments: {}
+    } as ToolExecutionContext;
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should have correct name, description and schema', () => {
+    expect(tool.name).toBe('sync-database');
+    expect(tool.description).toContain('embedded replica');
+    expect(tool.modifiesSchema).toBe(true);
+    expect(tool.inputSchema.safeParse({ database: 'prod' }).success).toBe(true);
+    expect(tool.inputSchema.safeParse({ database: '' }).success).toBe(false);
+  });
+
+  it('should report frames synced', async () => {
+    vi.mocked(mockConnection.sync).mockResolvedValue({ frameNo: 120, framesSynced: 4 });
+
+    const result = await tool.execute(context);
+
+    expect(result.isError).toBeFalsy();
+    expect(result.content[0]?.text).toContain('4 frames synced, replica at frame 120');
+    expect(mockConnection.sync).toHaveBeenCalledTimes(1);
+  });
+
+  it('should report when there was nothing to sync', async () => {
+    vi.mocked(mockConnection.sync).mockResolvedValue(null);
+
+    const result = await tool.execute(context);
+
+    expect(result.content[0]?.text).toContain('no new frames to sync');
+  });
+
+  it('should return the frames synced as structured content', async () => {
+    vi.mocked(mockConnection.sync)
+      .mockResolvedValueOnce({ frameNo: 120, framesSynced: 4 })
+      .mockResolvedValueOnce(null);
+
+    const synced = await tool.execute(context);
+    const unchanged = await tool.execute(context);
+
+    expect(synced.structuredContent).toEqual({
+      framesSynced: 4,
+      frameNo: 120,
+      metrics: { executionTime: expect.any(Number) }
+    });
+    expect(unchanged.structuredContent).toMatchObject({ framesSynced: 0, frameNo: null });
+  });
+
+  it('should return an error when the database is not a replica', async () => {
+    vi.mocked(mockConnection.sync).mockRejectedValue(
+      new Error('Database is not an embedded replica (configure a sync URL to enable syncing)')
+    );
+
+    const result = await tool.execute(context);
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0]?.text).toContain(
+      'Error syncing database: Database is not an embedded replica'
+    );
+  });
+});
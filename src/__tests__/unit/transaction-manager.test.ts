@@ -0,0 +1,185 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TransactionManager } from '../../lib/transaction-manager.js';
+import type { ConnectionPool, DatabaseConnection } from '../../types/index.js';
+
+vi.mock('../../lib/logger.js', () => ({
+  Logger: vi.fn().mockImplementation(() => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn()
+  }))
+}));
+
+describe('TransactionManager', () => {
+  let transaction: any;
+  let connection: DatabaseConnection;
+  let pool: ConnectionPool;
+  let manager: TransactionManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+
+    transaction = {
+      isOpen: true,
+      execute: vi.fn(),
+      commit: vi.fn(async () => {
+        transaction.isOpen = false;
+      }),
+      rollback: vi.fn(async () => {
+        transaction.isOpen = false;
+      }),
+      close: vi.fn(async () => {
+        transaction.isOpen = false;
+      })
+    };
+
+    connection = {
+      execute: vi.fn() as any,
+      transaction: vi.fn() as any,
+      close: vi.fn() as any,
+      isHealthy: vi.fn() as any,
+      sync: vi.fn() as any,
+      beginTransaction: vi.fn().mockResolvedValue(transaction)
+    };
+
+    pool = {
+      getConnection: vi.fn().mockResolvedValue(connection),
+      releaseConnection: vi.fn(),
+      close: vi.fn(),
+      healthCheck: vi.fn()
+    };
+
+    manager = new TransactionManager({ idleTimeout: 1000 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should pin the connection until the transaction is committed', async () => {
+    const { transactionId } = await manager.begin('default', pool, connection);
+
+    expect(manager.isPinned(connection)).toBe(true);
+    expect(manager.getOpenCount()).toBe(1);
+
+    await manager.commit(transactionId, 'default');
+
+    expect(transaction.commit).toHaveBeenCalled();
+    expect(pool.releaseConnection).toHaveBeenCalledWith(connection);
+    expect(manager.isPinned(connection)).toBe(false);
+    expect(manager.getOpenCount()).toBe(0);
+  });
+
+  it('should release the connection even when the commit fails', async () => {
+    transaction.commit.mockRejectedValue(new Error('SQLITE_BUSY'));
+    const { transactionId } = await manager.begin('default', pool, connection);
+
+    await expect(manager.commit(transactionId, 'default')).rejects.toThrow('SQLITE_BUSY');
+
+    expect(pool.releaseConnection).toHaveBeenCalledWith(connection);
+    expect(manager.getOpenCount()).toBe(0);
+  });
+
+  it('should roll back on request and forget the transaction', async () => {
+    const { transactionId } = await manager.begin('default', pool, connection);
+
+    await manager.rollback(transactionId, 'default');
+
+    expect(transaction.rollback).toHaveBeenCalled();
+    expect(pool.releaseConnection).toHaveBeenCalledTimes(1);
+    expect(() => manager.acquire(transactionId, 'default')).toThrow(
+      `Transaction ${transactionId} not found`
+    );
+  });
+
+  it('should reject a transaction used against another database', async () => {
+    const { transactionId } = await manager.begin('default', pool, connection);
+
+    expect(() => manager.acquire(transactionId, 'analytics')).toThrow(
+      `Transaction ${transactionId} belongs to database default, not analytics`
+    );
+  });
+
+  it('should roll back automatically after the idle timeout', async () => {
+    await manager.begin('default', pool, connection);
+
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(transaction.rollback).toHaveBeenCalled();
+    expect(pool.releaseConnection).toHaveBeenCalledWith(connection);
+    expect(manager.getOpenCount()).toBe(0);
+  });
+
+  it('should restart the idle timeout after each call', async () => {
+    const { transactionId } = await manager.begin('default', pool, connection);
+
+    await vi.advanceTimersByTimeAsync(800);
+    manager.acquire(transactionId, 'default');
+    // A running call is never timed out
+    await vi.advanceTimersByTimeAsync(5000);
+    manager.release(transactionId);
+    await vi.advanceTimersByTimeAsync(800);
+
+    expect(transaction.rollback).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(200);
+
+    expect(transaction.rollback).toHaveBeenCalled();
+  });
+
+  it('should end a transaction that an interrupted call rolled back', async () => {
+    const { transactionId } = await manager.begin('default', pool, connection);
+
+    manager.acquire(transactionId, 'default');
+    transaction.isOpen = false;
+    manager.release(transactionId);
+
+    expect(pool.releaseConnection).toHaveBeenCalledWith(connection);
+    expect(manager.getOpenCount()).toBe(0);
+  });
+
+  it('should roll back every open transaction, abandoning running calls', async () => {
+    const running = { ...transaction, close: vi.fn().mockResolvedValue(undefined) };
+    const otherConnection = { ...connection, beginTransaction: vi.fn().mockResolvedValue(running) };
+    await manager.begin('default', pool, connection);
+    const { transactionId } = await manager.begin('default', pool, otherConnection);
+    manager.acquire(transactionId, 'default');
+
+    await manager.rollbackAll('server shutdown');
+
+    expect(transaction.rollback).toHaveBeenCalled();
+    expect(running.close).toHaveBeenCalled();
+    expect(pool.releaseConnection).toHaveBeenCalledTimes(2);
+    expect(manager.getOpenCount()).toBe(0);
+  });
+
+  it('should only roll back the transactions of the given databases', async () => {
+    const other = { ...transaction, rollback: vi.fn().mockResolvedValue(undefined) };
+    const otherConnection = { ...connection, beginTransaction: vi.fn().mockResolvedValue(other) };
+    await manager.begin('default', pool, connection);
+    await manager.begin('analytics', pool, otherConnection);
+
+    await manager.rollbackDatabases(['analytics'], 'configuration reload');
+
+    expect(other.rollback).toHaveBeenCalled();
+    expect(transaction.rollback).not.toHaveBeenCalled();
+    expect(pool.releaseConnection).toHaveBeenCalledWith(otherConnection);
+    expect(manager.getOpenCount()).toBe(1);
+  });
+
+  it('should bind a scope to the database and connection of a call', async () => {
+    const scope = manager.scope('analytics', pool, connection);
+
+    const info = await scope.begin();
+    expect(info).toEqual({
+      transactionId: expect.any(String),
+      database: 'analytics',
+      idleTimeout: 1000
+    });
+
+    await scope.commit(info.transactionId);
+
+    expect(transaction.commit).toHaveBeenCalled();
+  });
+});
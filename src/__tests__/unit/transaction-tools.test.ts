@@ -0,0 +1,123 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { BeginTransactionTool } from '../../tools/begin-transaction.js';
+import { CommitTransactionTool } from '../../tools/commit-transaction.js';
+import { RollbackTransactionTool } from '../../tools/rollback-transaction.js';
+import type { ToolExecutionContext } from '../../lib/base-tool.js';
+import type { TransactionScope } from '../../lib/transaction-manager.js';
+import type { DatabaseConnection } from '../../types/index.js';
+
+const TRANSACTION_ID = '3f2b8a9e-4c1d-4e6f-9a7b-2d5c8e1f0a3b';
+
+describe('Transaction tools', () => {
+  let transactions: TransactionScope;
+  let context: ToolExecutionContext;
+
+  beforeEach(() => {
+    transactions = {
+      begin: vi.fn().mockResolvedValue({
+        transactionId: TRANSACTION_ID,
+        database: 'default',
+        idleTimeout: 60000
+      }),
+      commit: vi.fn().mockResolvedValue(undefined),
+      rollback: vi.fn().mockResolvedValue(undefined)
+    };
+
+    context = {
+      connection: {} as DatabaseConnection,
+      arguments: {},
+      transactions
+    };
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('BeginTransactionTool', () => {
+    it('should return the new transaction id and idle timeout', async () => {
+      const result = await new BeginTransactionTool().execute(context);
+
+      expect(result.isError).toBeFalsy();
+      expect(result.content[0]?.text).toContain(`Transaction ID: ${TRANSACTION_ID}`);
+      expect(result.content[0]?.text).toContain('rolled back automatically after 60 seconds');
+      expect(result.structuredContent).toEqual({
+        transactionId: TRANSACTION_ID,
+        idleTimeout: 60000
+      });
+    });
+
+    it('should return an error when the transaction cannot start', async () => {
+      vi.mocked(transactions.begin).mockRejectedValue(new Error('SQLITE_BUSY: database is locked'));
+
+      const result = await new BeginTransactionTool().execute(context);
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toBe(
+        'Error starting transaction: SQLITE_BUSY: database is locked'
+      );
+    });
+  });
+
+  describe('CommitTransactionTool', () => {
+    it('should commit the given transaction', async () => {
+      const tool = new CommitTransactionTool();
+
+      const result = await tool.execute({
+        ...context,
+        arguments: { transactionId: TRANSACTION_ID }
+      });
+
+      expect(tool.supportsTransactions).toBe(true);
+      expect(transactions.commit).toHaveBeenCalledWith(TRANSACTION_ID);
+      expect(result.content[0]?.text).toBe(`Transaction ${TRANSACTION_ID} committed`);
+      expect(result.structuredContent).toEqual({
+        transactionId: TRANSACTION_ID,
+        status: 'committed'
+      });
+    });
+
+    it('should require a valid transaction id', async () => {
+      const result = await new CommitTransactionTool().execute({
+        ...context,
+        arguments: { transactionId: 'not-an-id' }
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('Invalid transaction id');
+      expect(transactions.commit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('RollbackTransactionTool', () => {
+    it('should roll back the given transaction', async () => {
+      const result = await new RollbackTransactionTool().execute({
+        ...context,
+        arguments: { transactionId: TRANSACTION_ID }
+      });
+
+      expect(transactions.rollback).toHaveBeenCalledWith(TRANSACTION_ID);
+      expect(result.content[0]?.text).toBe(`Transaction ${TRANSACTION_ID} rolled back`);
+      expect(result.structuredContent).toEqual({
+        transactionId: TRANSACTION_ID,
+        status: 'rolled-back'
+      });
+    });
+
+    it('should report a transaction that already ended', async () => {
+      vi.mocked(transactions.rollback).mockRejectedValue(
+        new Error(
+          `Transaction ${TRANSACTION_ID} not found: it was committed, rolled back or timed out`
+        )
+      );
+
+      const result = await new RollbackTransactionTool().execute({
+        ...context,
+        arguments: { transactionId: TRANSACTION_ID }
+      });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0]?.text).toContain('not found');
+    });
+  });
+});
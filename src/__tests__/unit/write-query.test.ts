@@ -370,6 +370,28 @@ describe('WriteQueryTool', () => {
       expect(result.content[0].text).toContain('Last insert row ID: 456');
     });
 
+    it('should return the affected rows and insert ID as structured content', async () => {
+      mockConnection.execute = vi.fn().mockResolvedValue({
+        rowsAffected: 1,
+        lastInsertRowid: 456n
+      });
+
+      context.arguments = {
+        query: 'INSERT INTO users (name) VALUES (?)',
+        parameters: ['Alice'],
+        useTransaction: false
+      };
+
+      const result = await tool.execute(context);
+
+      expect(result.structuredContent).toEqual({
+        rowsAffected: 1,
+        lastInsertRowid: '456',
+        metrics: { executionTime: expect.any(Number), rowsAffected: 1 }
+      });
+      expect(tool.outputSchema.safeParse(result.structuredContent).success).toBe(true);
+    });
+
     it('should not show last insert row ID for UPDATE operations', async () => {
       mockConnection.execute = vi.fn().mockResolvedValue({
         rowsAffected: 1
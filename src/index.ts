@@ -1,41 +1,125 @@
 #!/usr/bin/env node
 
+import { readFileSync, realpathSync } from 'fs';
 import { parseArgs } from 'node:util';
 import { Logger, type LogMode } from './lib/logger.js';
-import { DatabaseConfig } from './types/index.js';
+import { DatabaseConfig, LogLevel, TransportConfig, TransportType } from './types/index.js';
 import { ServerManager } from './lib/server-manager.js';
+import { ConfigFileWatcher, loadConfigFile, type ConfigFile } from './lib/config-file.js';
+import {
+  CONFIG_WATCH_INTERVAL,
+  DEFAULT_DATABASE_NAME,
+  DEFAULT_HTTP_TRANSPORT
+} from './lib/constants.js';
 
-let logger = new Logger();
+const logger = new Logger();
 
-interface CLIOptions {
+export interface CLIOptions {
   url: string;
   authToken: string | undefined;
+  authTokenFile: string | undefined;
   minConnections: number | undefined;
   maxConnections: number | undefined;
   connectionTimeout: number | undefined;
   queryTimeout: number | undefined;
+  idleTimeout: number | undefined;
+  maxLifetime: number | undefined;
+  retryAttempts: number | undefined;
+  retryInterval: number | undefined;
+  retryMaxDelay: number | undefined;
+  syncUrl: string | undefined;
+  syncInterval: number | undefined;
+  readYourWrites: boolean | undefined;
   help: boolean | undefined;
   version: boolean | undefined;
   dev: boolean | undefined;
   logMode: LogMode | undefined;
+  transport: TransportType | undefined;
+  port: number | undefined;
+  host: string | undefined;
+  allowedHost: string[] | undefined;
+  allowedOrigin: string[] | undefined;
+  sessionIdleTimeout: number | undefined;
+  db: string[] | undefined;
+  dbAuthToken: string[] | undefined;
+  readUrl: string | undefined;
+  dbReadUrl: string[] | undefined;
+  encryptionKey: string | undefined;
+  encryptionKeyFile: string | undefined;
+  defaultDb: string | undefined;
+  config: string | undefined;
 }
 
+export interface ValidatedConfig {
+  config: DatabaseConfig;
+  databases: Record<string, DatabaseConfig>;
+  defaultDatabase: string;
+  disabledTools: string[];
+  logMode: LogMode;
+  logLevel: keyof LogLevel;
+}
+
+const DATABASE_NAME_PATTERN = /^[a-zA-Z][\w-]*$/;
+
 function showHelp(): void {
   // eslint-disable-next-line no-console
   console.log(`
 MCP libSQL Server by xexr
 
 Usage: mcp-libsql --url <DATABASE_URL> [options]
+       mcp-libsql --db <name>=<DATABASE_URL> [--db <name>=<DATABASE_URL> ...] [options]
+       mcp-libsql --config <PATH> [options]
 
 Options:
-  --url <URL>                    libSQL database URL (required)
+  --config <path>                JSON or YAML config file, watched and reloaded on change
+                                 (command line options take precedence)
+  --url <URL>                    libSQL database URL, served as the "default" database
+                                 (required unless --db is used)
   --auth-token <token>           Authentication token for Turso databases (optional)
                                  Can also be set via LIBSQL_AUTH_TOKEN environment variable
+  --auth-token-file <path>       Read the --url auth token from a file instead, re-read when
+                                 the file changes or authentication fails
+  --db <name>=<URL>              Additional named database, repeatable
+  --db-auth-token <name>=<token> Authentication token for a named database, repeatable
+                                 Can also be set via LIBSQL_AUTH_TOKEN_<NAME> environment variable
+  --encryption-key <key>         Encryption key of an encrypted local --url database file
+                                 Can also be set via LIBSQL_ENCRYPTION_KEY environment variable
+  --encryption-key-file <path>   Read the encryption key from a file instead
+  --read-url <URL>               Read replica of --url for read-only tools, falling back to
+                                 --url while the replica is unavailable
+  --db-read-url <name>=<URL>     Read replica of a named database, repeatable
+  --sync-url <URL>               Remote primary to sync from, serving --url as a local
+                                 embedded replica file (e.g. --url file:replica.db)
+  --sync-interval <seconds>      Sync the embedded replica automatically at this interval
+  --read-your-writes             Make writes visible to reads on the replica immediately
+  --default-db <name>            Database used when a tool call does not name one
+                                 (default: "default" with --url, otherwise the first --db)
   --min-connections <number>     Minimum connections in pool (default: 1)
   --max-connections <number>     Maximum connections in pool (default: 10)
   --connection-timeout <number>  Connection timeout in ms (default: 30000)
   --query-timeout <number>       Query timeout in ms (default: 30000)
+  --idle-timeout <number>        Close connections idle this long in ms, down to
+                                 --min-connections, 0 disables (default: 300000)
+  --max-lifetime <number>        Replace connections older than this in ms,
+                                 0 disables (default: 1800000)
+  --retry-attempts <number>      Attempts for a connection or a read query that fails with a
+                                 transient error, 1 disables retries (default: 3)
+  --retry-interval <number>      Delay before the first retry in ms, doubled for each
+                                 retry after it (default: 200)
+  --retry-max-delay <number>     Maximum delay between retries in ms (default: 5000)
   --log-mode <mode>              Logging mode: file, console, both, none (default: file)
+  --transport <type>             MCP transport: stdio, http (default: stdio)
+  --port <number>                Port for the HTTP transport (default: 3000)
+  --host <address>               Host address for the HTTP transport (default: 127.0.0.1).
+                                 The transport has no authentication, so other addresses
+                                 let anyone who can connect run SQL
+  --allowed-host <name>          Host header name the HTTP transport accepts, repeatable
+                                 (default: localhost, 127.0.0.1 and [::1] on loopback)
+  --allowed-origin <origin>      Browser origin allowed to call the HTTP transport,
+                                 repeatable (default: pages served from a loopback host)
+  --session-idle-timeout <number>
+                                 Close HTTP sessions without a request for this long in ms,
+                                 0 disables (default: 1800000)
   --dev                          Enable development mode with enhanced logging
   --help                         Show this help message
   --version                      Show version information
@@ -46,6 +130,9 @@ Examples:
   LIBSQL_AUTH_TOKEN="your-token" mcp-libsql --url "libsql://your-db.turso.io"
   mcp-libsql --url "http://localhost:8080" --min-connections 2 --dev
   mcp-libsql --url "file:local.db" --log-mode console
+  mcp-libsql --url "file:local.db" --transport http --port 3000 --host 0.0.0.0
+  mcp-libsql --db dev=file:dev.db --db prod=libsql://your-db.turso.io --default-db dev
+  mcp-libsql --config mcp-libsql.yaml
 
 Development:
   Use --dev flag for enhanced logging and development features
@@ -87,11 +174,34 @@ function parseCliArgs(): CLIOptions {
       options: {
         url: { type: 'string' },
         'auth-token': { type: 'string' },
+        'auth-token-file': { type: 'string' },
         'min-connections': { type: 'string' },
         'max-connections': { type: 'string' },
         'connection-timeout': { type: 'string' },
         'query-timeout': { type: 'string' },
+        'idle-timeout': { type: 'string' },
+        'max-lifetime': { type: 'string' },
+        'retry-attempts': { type: 'string' },
+        'retry-interval': { type: 'string' },
+        'retry-max-delay': { type: 'string' },
+        'sync-url': { type: 'string' },
+        'sync-interval': { type: 'string' },
+        'read-your-writes': { type: 'boolean' },
         'log-mode': { type: 'string' },
+        transport: { type: 'string' },
+        port: { type: 'string' },
+        host: { type: 'string' },
+        'allowed-host': { type: 'string', multiple: true },
+        'allowed-origin': { type: 'string', multiple: true },
+        'session-idle-timeout': { type: 'string' },
+        db: { type: 'string', multiple: true },
+        'db-auth-token': { type: 'string', multiple: true },
+        'read-url': { type: 'string' },
+        'encryption-key': { type: 'string' },
+        'encryption-key-file': { type: 'string' },
+        'db-read-url': { type: 'string', multiple: true },
+        'default-db': { type: 'string' },
+        config: { type: 'string', short: 'c' },
         dev: { type: 'boolean', short: 'd' },
         help: { type: 'boolean', short: 'h' },
         version: { type: 'boolean', short: 'v' }
@@ -101,7 +211,11 @@ function parseCliArgs(): CLIOptions {
 
     return {
       url: values.url || '',
-      authToken: values['auth-token'] || process.env['LIBSQL_AUTH_TOKEN'],
+      // A token file replaces LIBSQL_AUTH_TOKEN, but not an explicit --auth-token
+      authToken:
+        values['auth-token'] ||
+        (values['auth-token-file'] ? undefined : process.env['LIBSQL_AUTH_TOKEN']),
+      authTokenFile: values['auth-token-file'],
       minConnections: values['min-connections']
         ? parseInt(values['min-connections'], 10)
         : undefined,
@@ -112,7 +226,33 @@ function parseCliArgs(): CLIOptions {
         ? parseInt(values['connection-timeout'], 10)
         : undefined,
       queryTimeout: values['query-timeout'] ? parseInt(values['query-timeout'], 10) : undefined,
+      idleTimeout: values['idle-timeout'] ? parseInt(values['idle-timeout'], 10) : undefined,
+      maxLifetime: values['max-lifetime'] ? parseInt(values['max-lifetime'], 10) : undefined,
+      retryAttempts: values['retry-attempts'] ? parseInt(values['retry-attempts'], 10) : undefined,
+      retryInterval: values['retry-interval'] ? parseInt(values['retry-interval'], 10) : undefined,
+      retryMaxDelay: values['retry-max-delay']
+        ? parseInt(values['retry-max-delay'], 10)
+        : undefined,
+      syncUrl: values['sync-url'],
+      syncInterval: values['sync-interval'] ? parseInt(values['sync-interval'], 10) : undefined,
+      readYourWrites: values['read-your-writes'],
       logMode: values['log-mode'] as LogMode | undefined,
+      transport: values.transport as TransportType | undefined,
+      port: values.port ? parseInt(values.port, 10) : undefined,
+      host: values.host,
+      allowedHost: values['allowed-host'],
+      allowedOrigin: values['allowed-origin'],
+      sessionIdleTimeout: values['session-idle-timeout']
+        ? parseInt(values['session-idle-timeout'], 10)
+        : undefined,
+      db: values.db,
+      dbAuthToken: values['db-auth-token'],
+      readUrl: values['read-url'],
+      dbReadUrl: values['db-read-url'],
+      encryptionKey: values['encryption-key'],
+      encryptionKeyFile: values['encryption-key-file'],
+      defaultDb: values['default-db'],
+      config: values.config,
       dev: values.dev,
       help: values.help,
       version: values.version
@@ -126,21 +266,188 @@ function parseCliArgs(): CLIOptions {
   }
 }
 
-async function validateOptions(options: CLIOptions): Promise<DatabaseConfig> {
-  if (options.help) {
-    showHelp();
-    process.exit(0);
+/**
+ * Split a repeatable "name=value" option
+ */
+function parseNamedValue(entry: string, option: string): [string, string] {
+  const separator = entry.indexOf('=');
+  const name = separator > 0 ? entry.slice(0, separator).trim() : '';
+  const value = separator > 0 ? entry.slice(separator + 1).trim() : '';
+
+  if (!name || !value) {
+    throw new Error(`${option} must be in the form name=value`);
   }
 
-  if (options.version) {
-    await showVersion();
-    process.exit(0);
+  if (!DATABASE_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `Invalid database name: ${name} (must start with a letter and contain only letters, digits, _ or -)`
+    );
   }
 
-  if (!options.url) {
-    logger.error('Database URL is required');
-    showHelp();
-    process.exit(1);
+  return [name, value];
+}
+
+/**
+ * Environment variable holding the auth token of a named database
+ */
+function getDatabaseTokenEnvVar(name: string): string {
+  return `LIBSQL_AUTH_TOKEN_${name.toUpperCase().replace(/-/g, '_')}`;
+}
+
+function validateDatabaseUrl(url: string, label: string): void {
+  if (!/^(file:|libsql:\/\/|https?:\/\/|wss?:\/\/)/.test(url) && url !== ':memory:') {
+    throw new Error(`${label} must be a file:, libsql://, http(s):// or ws(s):// URL`);
+  }
+}
+
+function validateAuthToken(authToken: string, url: string, label: string): void {
+  if (typeof authToken !== 'string' || authToken.trim().length === 0) {
+    throw new Error(`${label} must be a non-empty string`);
+  }
+
+  // Validate auth token format for Turso tokens (basic validation)
+  // Turso tokens are typically JWT-like base64 encoded strings
+  if (authToken.includes(' ') || authToken.includes('\n')) {
+    throw new Error(`${label} contains invalid characters (spaces or newlines)`);
+  }
+
+  // Warn if auth token looks suspicious (too short)
+  if (authToken.length < 10) {
+    logger.warn(`${label} appears to be very short, please ensure it is correct`);
+  }
+
+  // Validate that auth token is used with appropriate URLs
+  if (!url.startsWith('libsql://') && !url.startsWith('https://')) {
+    logger.warn(
+      `${label} provided but URL does not appear to be a remote database (libsql:// or https://)`
+    );
+    logger.warn('Auth tokens are typically used with Turso or other remote libSQL databases');
+  }
+}
+
+/**
+ * Read the auth token for --auth-token-file. The pool re-reads the file the same way
+ * when it rotates the token.
+ */
+function readAuthTokenFile(path: string): string {
+  let token: string;
+  try {
+    token = readFileSync(path, 'utf-8').trim();
+  } catch (error) {
+    throw new Error(
+      `Cannot read auth-token-file ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+
+  if (token.length === 0) {
+    throw new Error(`auth-token-file ${path} is empty`);
+  }
+  return token;
+}
+
+/**
+ * Resolve the encryption key from --encryption-key, --encryption-key-file or
+ * LIBSQL_ENCRYPTION_KEY, in that order. The key itself must never be logged.
+ */
+function resolveEncryptionKey(
+  options: CLIOptions
+): { key: string; source: 'option' | 'environment' } | undefined {
+  if (options.encryptionKey !== undefined && options.encryptionKeyFile !== undefined) {
+    throw new Error('Use either encryption-key or encryption-key-file, not both');
+  }
+
+  if (options.encryptionKey !== undefined) {
+    if (options.encryptionKey.length === 0) {
+      throw new Error('encryption-key must be a non-empty string');
+    }
+    return { key: options.encryptionKey, source: 'option' };
+  }
+
+  if (options.encryptionKeyFile !== undefined) {
+    let key: string;
+    try {
+      // Trailing newlines from editors or `echo` are not part of the key
+      key = readFileSync(options.encryptionKeyFile, 'utf-8').replace(/[\r\n]+$/, '');
+    } catch (error) {
+      throw new Error(
+        `Cannot read encryption-key-file ${options.encryptionKeyFile}: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+
+    if (key.length === 0) {
+      throw new Error(`encryption-key-file ${options.encryptionKeyFile} is empty`);
+    }
+    return { key, source: 'option' };
+  }
+
+  const envKey = process.env['LIBSQL_ENCRYPTION_KEY'];
+  return envKey ? { key: envKey, source: 'environment' } : undefined;
+}
+
+/**
+ * Fill options not given on the command line from the config file, CLI flags take precedence
+ */
+function mergeConfigFile(options: CLIOptions, configFile: ConfigFile): CLIOptions {
+  const cliDatabases = new Set((options.db || []).map(entry => entry.split('=')[0]?.trim()));
+  const fileDatabases = Object.entries(configFile.databases || {}).filter(
+    ([name]) => !cliDatabases.has(name)
+  );
+
+  return {
+    ...options,
+    url: options.url || configFile.url || '',
+    // A token or token file given on the command line replaces the file's either way
+    ...(options.authToken === undefined &&
+      options.authTokenFile === undefined && {
+        authToken: configFile.authToken,
+        authTokenFile: configFile.authTokenFile
+      }),
+    minConnections: options.minConnections ?? configFile.pool?.minConnections,
+    maxConnections: options.maxConnections ?? configFile.pool?.maxConnections,
+    connectionTimeout: options.connectionTimeout ?? configFile.timeouts?.connection,
+    queryTimeout: options.queryTimeout ?? configFile.timeouts?.query,
+    idleTimeout: options.idleTimeout ?? configFile.pool?.idleTimeout,
+    maxLifetime: options.maxLifetime ?? configFile.pool?.maxLifetime,
+    retryAttempts: options.retryAttempts ?? configFile.retry?.attempts,
+    retryInterval: options.retryInterval ?? configFile.retry?.interval,
+    retryMaxDelay: options.retryMaxDelay ?? configFile.retry?.maxDelay,
+    syncUrl: options.syncUrl ?? configFile.sync?.url,
+    syncInterval: options.syncInterval ?? configFile.sync?.interval,
+    readYourWrites: options.readYourWrites ?? configFile.sync?.readYourWrites,
+    logMode: options.logMode ?? configFile.logging?.mode,
+    db: [...fileDatabases.map(([name, entry]) => `${name}=${entry.url}`), ...(options.db || [])],
+    dbAuthToken: [
+      ...fileDatabases
+        .filter(([, entry]) => entry.authToken !== undefined)
+        .map(([name, entry]) => `${name}=${entry.authToken}`),
+      ...(options.dbAuthToken || [])
+    ],
+    readUrl: options.readUrl ?? configFile.readUrl,
+    dbReadUrl: [
+      ...fileDatabases
+        .filter(([, entry]) => entry.readUrl !== undefined)
+        .map(([name, entry]) => `${name}=${entry.readUrl}`),
+      ...(options.dbReadUrl || [])
+    ],
+    defaultDb: options.defaultDb ?? configFile.defaultDatabase,
+    // A key given on the command line replaces the file's key however either was given
+    ...(options.encryptionKey === undefined &&
+      options.encryptionKeyFile === undefined && {
+        encryptionKey: configFile.encryptionKey,
+        encryptionKeyFile: configFile.encryptionKeyFile
+      })
+  };
+}
+
+/**
+ * Build the server settings from CLI options and the config file, throwing on invalid values.
+ * Used at startup and again whenever the config file changes.
+ */
+export function buildConfig(cliOptions: CLIOptions, configFile: ConfigFile = {}): ValidatedConfig {
+  const options = mergeConfigFile(cliOptions, configFile);
+
+  if (!options.url && !options.db?.length) {
+    throw new Error('Database URL is required (use --url, --db or a config file)');
   }
 
   // Validate numeric options
@@ -148,16 +455,14 @@ async function validateOptions(options: CLIOptions): Promise<DatabaseConfig> {
     options.minConnections !== undefined &&
     (options.minConnections < 1 || !Number.isInteger(options.minConnections))
   ) {
-    logger.error('min-connections must be a positive integer');
-    process.exit(1);
+    throw new Error('min-connections must be a positive integer');
   }
 
   if (
     options.maxConnections !== undefined &&
     (options.maxConnections < 1 || !Number.isInteger(options.maxConnections))
   ) {
-    logger.error('max-connections must be a positive integer');
-    process.exit(1);
+    throw new Error('max-connections must be a positive integer');
   }
 
   if (
@@ -165,24 +470,83 @@ async function validateOptions(options: CLIOptions): Promise<DatabaseConfig> {
     options.maxConnections !== undefined &&
     options.minConnections > options.maxConnections
   ) {
-    logger.error('min-connections cannot be greater than max-connections');
-    process.exit(1);
+    throw new Error('min-connections cannot be greater than max-connections');
   }
 
   if (
     options.connectionTimeout !== undefined &&
     (options.connectionTimeout < 1000 || !Number.isInteger(options.connectionTimeout))
   ) {
-    logger.error('connection-timeout must be an integer >= 1000ms');
-    process.exit(1);
+    throw new Error('connection-timeout must be an integer >= 1000ms');
   }
 
   if (
     options.queryTimeout !== undefined &&
     (options.queryTimeout < 1000 || !Number.isInteger(options.queryTimeout))
   ) {
-    logger.error('query-timeout must be an integer >= 1000ms');
-    process.exit(1);
+    throw new Error('query-timeout must be an integer >= 1000ms');
+  }
+
+  if (
+    options.idleTimeout !== undefined &&
+    (!Number.isInteger(options.idleTimeout) ||
+      (options.idleTimeout !== 0 && options.idleTimeout < 1000))
+  ) {
+    throw new Error('idle-timeout must be 0 or an integer >= 1000ms');
+  }
+
+  if (
+    options.maxLifetime !== undefined &&
+    (!Number.isInteger(options.maxLifetime) ||
+      (options.maxLifetime !== 0 && options.maxLifetime < 1000))
+  ) {
+    throw new Error('max-lifetime must be 0 or an integer >= 1000ms');
+  }
+
+  if (
+    options.retryAttempts !== undefined &&
+    (options.retryAttempts < 1 || !Number.isInteger(options.retryAttempts))
+  ) {
+    throw new Error('retry-attempts must be a positive integer');
+  }
+
+  if (
+    options.retryInterval !== undefined &&
+    (options.retryInterval < 0 || !Number.isInteger(options.retryInterval))
+  ) {
+    throw new Error('retry-interval must be a non-negative integer');
+  }
+
+  if (
+    options.retryMaxDelay !== undefined &&
+    (options.retryMaxDelay < 0 || !Number.isInteger(options.retryMaxDelay))
+  ) {
+    throw new Error('retry-max-delay must be a non-negative integer');
+  }
+
+  // Validate embedded replica options
+  if (options.syncUrl !== undefined) {
+    if (!/^(libsql|https?|wss?):\/\//.test(options.syncUrl)) {
+      throw new Error('sync-url must be a remote libsql://, http(s):// or ws(s):// URL');
+    }
+
+    if (!options.url.startsWith('file:')) {
+      throw new Error('sync-url requires --url to be the local replica file (e.g. file:replica.db)');
+    }
+  }
+
+  if (
+    options.syncInterval !== undefined &&
+    (options.syncInterval < 1 || !Number.isInteger(options.syncInterval))
+  ) {
+    throw new Error('sync-interval must be a positive integer (seconds)');
+  }
+
+  if (
+    options.syncUrl === undefined &&
+    (options.syncInterval !== undefined || options.readYourWrites !== undefined)
+  ) {
+    throw new Error('sync-interval and read-your-writes require sync-url');
   }
 
   // Validate log-mode
@@ -190,62 +554,251 @@ async function validateOptions(options: CLIOptions): Promise<DatabaseConfig> {
     options.logMode !== undefined &&
     !['file', 'console', 'both', 'none'].includes(options.logMode)
   ) {
-    logger.error('log-mode must be one of: file, console, both, none');
-    process.exit(1);
+    throw new Error('log-mode must be one of: file, console, both, none');
   }
 
-  // Validate auth-token
-  if (options.authToken !== undefined) {
-    if (typeof options.authToken !== 'string' || options.authToken.trim().length === 0) {
-      logger.error('auth-token must be a non-empty string');
-      process.exit(1);
+  // Validate transport options
+  if (options.transport !== undefined && !['stdio', 'http'].includes(options.transport)) {
+    throw new Error('transport must be one of: stdio, http');
+  }
+
+  if (
+    options.port !== undefined &&
+    (!Number.isInteger(options.port) || options.port < 1 || options.port > 65535)
+  ) {
+    throw new Error('port must be an integer between 1 and 65535');
+  }
+
+  if (options.host !== undefined && options.host.trim().length === 0) {
+    throw new Error('host must be a non-empty string');
+  }
+
+  if (
+    options.sessionIdleTimeout !== undefined &&
+    (!Number.isInteger(options.sessionIdleTimeout) || options.sessionIdleTimeout < 0)
+  ) {
+    throw new Error('session-idle-timeout must be a non-negative integer');
+  }
+
+  if (
+    options.transport !== 'http' &&
+    (options.port !== undefined ||
+      options.host !== undefined ||
+      options.allowedHost !== undefined ||
+      options.allowedOrigin !== undefined ||
+      options.sessionIdleTimeout !== undefined)
+  ) {
+    logger.warn(
+      'port, host, allowed-host, allowed-origin and session-idle-timeout are only used with --transport http and will be ignored'
+    );
+  }
+
+  // Collect databases by name, --url becomes the default database
+  const urls = new Map<string, string>();
+  if (options.url) {
+    validateDatabaseUrl(options.url, 'url');
+    urls.set(DEFAULT_DATABASE_NAME, options.url);
+  }
+
+  for (const entry of options.db || []) {
+    const [name, url] = parseNamedValue(entry, '--db');
+    if (urls.has(name)) {
+      throw new Error(`Database ${name} is defined more than once`);
     }
+    validateDatabaseUrl(url, `URL of database ${name}`);
+    urls.set(name, url);
+  }
 
-    // Validate auth token format for Turso tokens (basic validation)
-    // Turso tokens are typically JWT-like base64 encoded strings
-    if (options.authToken.includes(' ') || options.authToken.includes('\n')) {
-      logger.error('auth-token contains invalid characters (spaces or newlines)');
-      process.exit(1);
+  if (options.authToken !== undefined && options.authTokenFile !== undefined) {
+    throw new Error('Use either auth-token or auth-token-file, not both');
+  }
+  if (options.authTokenFile !== undefined && !options.url) {
+    throw new Error('auth-token-file requires --url');
+  }
+
+  const authTokens = new Map<string, string>();
+  const authToken =
+    options.authTokenFile !== undefined
+      ? readAuthTokenFile(options.authTokenFile)
+      : options.authToken;
+  if (authToken !== undefined && options.url) {
+    authTokens.set(DEFAULT_DATABASE_NAME, authToken);
+  } else if (authToken !== undefined) {
+    // May come from LIBSQL_AUTH_TOKEN, so a missing --url is not an error
+    logger.warn(
+      'auth-token requires --url and is ignored, use --db-auth-token <name>=<token> for --db databases'
+    );
+  }
+
+  for (const entry of options.dbAuthToken || []) {
+    const [name, token] = parseNamedValue(entry, '--db-auth-token');
+    if (!urls.has(name)) {
+      throw new Error(`--db-auth-token refers to unknown database: ${name}`);
     }
+    authTokens.set(name, token);
+  }
 
-    // Warn if auth token looks suspicious (too short)
-    if (options.authToken.length < 10) {
-      logger.warn('auth-token appears to be very short, please ensure it is correct');
+  for (const name of urls.keys()) {
+    const envToken = process.env[getDatabaseTokenEnvVar(name)];
+    if (!authTokens.has(name) && envToken) {
+      authTokens.set(name, envToken);
     }
+  }
 
-    // Validate that auth token is used with appropriate URLs
-    if (!options.url.startsWith('libsql://') && !options.url.startsWith('https://')) {
-      logger.warn(
-        'auth-token provided but URL does not appear to be a remote database (libsql:// or https://)'
-      );
-      logger.warn('Auth tokens are typically used with Turso or other remote libSQL databases');
+  const readUrls = new Map<string, string>();
+  if (options.readUrl !== undefined) {
+    if (!options.url) {
+      throw new Error('read-url requires --url (use --db-read-url for named databases)');
+    }
+    readUrls.set(DEFAULT_DATABASE_NAME, options.readUrl);
+  }
+
+  for (const entry of options.dbReadUrl || []) {
+    const [name, readUrl] = parseNamedValue(entry, '--db-read-url');
+    if (!urls.has(name)) {
+      throw new Error(`--db-read-url refers to unknown database: ${name}`);
+    }
+    readUrls.set(name, readUrl);
+  }
+
+  if (options.syncUrl !== undefined && readUrls.has(DEFAULT_DATABASE_NAME)) {
+    throw new Error('read-url cannot be combined with sync-url, the embedded replica serves reads');
+  }
+
+  // The encryption key applies to the --url database, which must be a local file
+  let encryptionKey = resolveEncryptionKey(options);
+  if (encryptionKey && !options.url.startsWith('file:')) {
+    if (encryptionKey.source === 'option') {
+      throw new Error('encryption-key can only be used with a local file --url (file:...)');
     }
+    logger.warn('LIBSQL_ENCRYPTION_KEY is set but --url is not a local file, ignoring it');
+    encryptionKey = undefined;
+  }
+
+  // Validate auth tokens
+  for (const [name, authToken] of authTokens) {
+    const label = name === DEFAULT_DATABASE_NAME ? 'auth-token' : `auth-token for ${name}`;
+    // An embedded replica authenticates against its sync URL
+    const remoteUrl = name === DEFAULT_DATABASE_NAME && options.syncUrl;
+    validateAuthToken(authToken, remoteUrl || urls.get(name) || '', label);
   }
 
-  const config: DatabaseConfig = {
-    url: options.url,
-    ...(options.authToken !== undefined && { authToken: options.authToken }),
-    ...(options.minConnections !== undefined && { minConnections: options.minConnections }),
-    ...(options.maxConnections !== undefined && { maxConnections: options.maxConnections }),
-    ...(options.connectionTimeout !== undefined && {
-      connectionTimeout: options.connectionTimeout
-    }),
-    ...(options.queryTimeout !== undefined && { queryTimeout: options.queryTimeout })
+  const defaultDatabase = options.defaultDb || urls.keys().next().value || DEFAULT_DATABASE_NAME;
+  if (!urls.has(defaultDatabase)) {
+    throw new Error(
+      `default-db ${defaultDatabase} is not a configured database (available: ${Array.from(urls.keys()).join(', ')})`
+    );
+  }
+
+  const maxResultSize = configFile.limits?.maxResultSize;
+  const connectionInit = configFile.connectionInit;
+  const retryJitter = configFile.retry?.jitter;
+  const circuitBreaker = configFile.circuitBreaker;
+
+  // Pool, timeout, limit and connection settings apply to every database, sync to --url only
+  const buildDatabaseConfig = (name: string, url: string): DatabaseConfig => {
+    const authToken = authTokens.get(name);
+    const readUrl = readUrls.get(name);
+    const syncUrl = name === DEFAULT_DATABASE_NAME ? options.syncUrl : undefined;
+    const key = name === DEFAULT_DATABASE_NAME ? encryptionKey?.key : undefined;
+    const authTokenFile = name === DEFAULT_DATABASE_NAME ? options.authTokenFile : undefined;
+    return {
+      url,
+      ...(authToken !== undefined && { authToken }),
+      ...(authTokenFile !== undefined && { authTokenFile }),
+      ...(readUrl !== undefined && { readUrl }),
+      ...(key !== undefined && { encryptionKey: key }),
+      ...(syncUrl !== undefined && { syncUrl }),
+      ...(syncUrl !== undefined &&
+        options.syncInterval !== undefined && { syncInterval: options.syncInterval }),
+      ...(syncUrl !== undefined &&
+        options.readYourWrites !== undefined && { readYourWrites: options.readYourWrites }),
+      ...(options.minConnections !== undefined && { minConnections: options.minConnections }),
+      ...(options.maxConnections !== undefined && { maxConnections: options.maxConnections }),
+      ...(options.connectionTimeout !== undefined && {
+        connectionTimeout: options.connectionTimeout
+      }),
+      ...(options.queryTimeout !== undefined && { queryTimeout: options.queryTimeout }),
+      ...(options.idleTimeout !== undefined && { idleTimeout: options.idleTimeout }),
+      ...(options.maxLifetime !== undefined && { maxLifetime: options.maxLifetime }),
+      ...(options.retryAttempts !== undefined && { retryAttempts: options.retryAttempts }),
+      ...(options.retryInterval !== undefined && { retryInterval: options.retryInterval }),
+      ...(options.retryMaxDelay !== undefined && { retryMaxDelay: options.retryMaxDelay }),
+      ...(retryJitter !== undefined && { retryJitter }),
+      ...(circuitBreaker?.failureThreshold !== undefined && {
+        circuitBreakerThreshold: circuitBreaker.failureThreshold
+      }),
+      ...(circuitBreaker?.resetTimeout !== undefined && {
+        circuitBreakerResetTimeout: circuitBreaker.resetTimeout
+      }),
+      ...(maxResultSize !== undefined && { maxResultSize }),
+      ...(connectionInit !== undefined && { connectionInit })
+    };
   };
 
-  return config;
+  const databases: Record<string, DatabaseConfig> = {};
+  for (const [name, url] of urls) {
+    if (name !== defaultDatabase) {
+      databases[name] = buildDatabaseConfig(name, url);
+    }
+  }
+
+  return {
+    config: buildDatabaseConfig(defaultDatabase, urls.get(defaultDatabase) || ''),
+    databases,
+    defaultDatabase,
+    disabledTools: configFile.tools?.disabled || [],
+    logMode: options.logMode || 'file',
+    logLevel: configFile.logging?.level || 'INFO'
+  };
+}
+
+async function validateOptions(options: CLIOptions): Promise<ValidatedConfig> {
+  if (options.help) {
+    showHelp();
+    process.exit(0);
+  }
+
+  if (options.version) {
+    await showVersion();
+    process.exit(0);
+  }
+
+  let configFile: ConfigFile = {};
+  if (options.config) {
+    try {
+      configFile = await loadConfigFile(options.config);
+    } catch (error) {
+      logger.error(error instanceof Error ? error.message : String(error));
+      process.exit(1);
+    }
+  }
+
+  if (!options.url && !options.db?.length && !configFile.url && !configFile.databases) {
+    logger.error('Database URL is required (use --url, --db or --config)');
+    showHelp();
+    process.exit(1);
+  }
+
+  try {
+    return buildConfig(options, configFile);
+  } catch (error) {
+    logger.error(error instanceof Error ? error.message : String(error));
+    process.exit(1);
+  }
 }
 
 async function main(): Promise<void> {
   let serverManager: ServerManager | null = null;
+  let configWatcher: ConfigFileWatcher | null = null;
 
   try {
     const options = parseCliArgs();
-    const config = await validateOptions(options);
+    const { config, databases, defaultDatabase, disabledTools, logMode, logLevel } =
+      await validateOptions(options);
 
-    // Create logger with specified log mode (default to 'file')
-    const logMode = options.logMode || 'file';
-    logger = new Logger(undefined, 'INFO', logMode);
+    // Apply the log level and mode to the loggers of every module
+    Logger.configure(logLevel, logMode);
 
     logger.info('Starting MCP libSQL Server');
     logger.info(`Node.js version: ${process.version}`);
@@ -260,9 +813,25 @@ async function main(): Promise<void> {
 
     const isDevelopment = options.dev || process.env['NODE_ENV'] === 'development';
 
+    const transport: TransportConfig =
+      options.transport === 'http'
+        ? {
+            type: 'http',
+            host: options.host || DEFAULT_HTTP_TRANSPORT.host,
+            port: options.port ?? DEFAULT_HTTP_TRANSPORT.port,
+            ...(options.allowedHost && { allowedHosts: options.allowedHost }),
+            ...(options.allowedOrigin && { allowedOrigins: options.allowedOrigin }),
+            ...(options.sessionIdleTimeout !== undefined && {
+              sessionIdleTimeout: options.sessionIdleTimeout
+            })
+          }
+        : { type: 'stdio' };
+
     // Determine auth token source for logging
     let authTokenSource = 'none';
-    if (config.authToken) {
+    if (config.authTokenFile) {
+      authTokenSource = 'file';
+    } else if (config.authToken) {
       const cliToken = parseArgs({
         args: process.argv.slice(2),
         options: { 'auth-token': { type: 'string' } },
@@ -278,18 +847,44 @@ async function main(): Promise<void> {
 
     logger.info('Configuration validated', {
       url: config.url,
+      defaultDatabase,
+      additionalDatabases: Object.fromEntries(
+        Object.entries(databases).map(([name, database]) => [
+          name,
+          {
+            url: database.url,
+            readUrl: database.readUrl,
+            authTokenProvided: !!database.authToken
+          }
+        ])
+      ),
       authTokenProvided: !!config.authToken,
       authTokenSource,
+      encryptionKeyProvided: !!config.encryptionKey,
+      readUrl: config.readUrl,
+      syncUrl: config.syncUrl,
+      syncInterval: config.syncInterval,
       minConnections: config.minConnections,
       maxConnections: config.maxConnections,
       connectionTimeout: config.connectionTimeout,
       queryTimeout: config.queryTimeout,
+      idleTimeout: config.idleTimeout,
+      maxLifetime: config.maxLifetime,
+      retryAttempts: config.retryAttempts,
+      retryInterval: config.retryInterval,
+      retryMaxDelay: config.retryMaxDelay,
+      connectionInit: config.connectionInit,
+      transport,
       developmentMode: isDevelopment
     });
 
     // Create and start server manager
     serverManager = new ServerManager({
       config,
+      databases,
+      defaultDatabase,
+      disabledTools,
+      transport,
       developmentMode: isDevelopment,
       enableHotReload: isDevelopment
     });
@@ -297,6 +892,29 @@ async function main(): Promise<void> {
 
     logger.info('MCP libSQL Server started successfully');
 
+    // Apply config file changes while running, keeping the MCP session alive
+    if (options.config) {
+      const manager = serverManager;
+      configWatcher = new ConfigFileWatcher(
+        options.config,
+        async (configFile): Promise<void> => {
+          const next = buildConfig(options, configFile);
+          logger.info('Config file changed, reloading', { path: options.config });
+
+          await manager.reload({
+            config: next.config,
+            databases: next.databases,
+            defaultDatabase: next.defaultDatabase,
+            disabledTools: next.disabledTools
+          });
+          // Only a configuration that was applied changes logging
+          Logger.configure(next.logLevel, next.logMode);
+        },
+        { interval: CONFIG_WATCH_INTERVAL }
+      );
+      configWatcher.start();
+    }
+
     // Log server status
     const status = serverManager.getStatus();
     logger.info('Server status', status);
@@ -305,6 +923,8 @@ async function main(): Promise<void> {
     const gracefulShutdown = async (signal: string): Promise<void> => {
       logger.info(`Received ${signal}, shutting down gracefully`);
 
+      configWatcher?.stop();
+
       if (serverManager && serverManager.isServerRunning()) {
         try {
           await serverManager.stop();
@@ -327,7 +947,10 @@ async function main(): Promise<void> {
     process.on('SIGUSR1', async () => {
       logger.info('Received SIGUSR1, reloading server');
 
-      if (serverManager) {
+      if (configWatcher) {
+        // Re-read the config file so SIGUSR1 also picks up its latest contents
+        await configWatcher.reload();
+      } else if (serverManager) {
         try {
           await serverManager.reload();
           logger.info('Server reloaded successfully');
@@ -340,15 +963,18 @@ async function main(): Promise<void> {
     });
 
     // Keep the process alive to handle MCP communication
-    // The server is now running and will handle requests via stdio
-    // We need to prevent the main function from exiting
-    process.stdin.resume();
+    // With stdio the server handles requests via stdin, so we need to prevent the
+    // main function from exiting; the HTTP listener keeps the process alive itself
+    if (transport.type === 'stdio') {
+      process.stdin.resume();
+    }
   } catch (error) {
     logger.error('Failed to start MCP libSQL Server', {
       error: error instanceof Error ? error.message : String(error)
     });
 
     // Clean up on startup failure
+    configWatcher?.stop();
     if (serverManager) {
       try {
         await serverManager.stop();
@@ -366,7 +992,6 @@ async function main(): Promise<void> {
 // Start the server
 // Check if this file is being run directly (handles symlinks from npm bin)
 import { fileURLToPath } from 'url';
-import { realpathSync } from 'fs';
 
 function isMainModule(): boolean {
   // Handle npm bin symlinks by resolving the real path
@@ -377,13 +1002,14 @@ function isMainModule(): boolean {
     return realArgvPath === currentModulePath;
   } catch {
     // Fallback for cases where realpathSync might fail
-    return import.meta.url === `file://${process.argv[1]}` ||
-           (process.argv[1]?.endsWith('/dist/index.js') ?? false) ||
-           (process.argv[1]?.endsWith('\\dist\\index.js') ?? false);
+    return (
+      import.meta.url === `file://${process.argv[1]}` ||
+      (process.argv[1]?.endsWith('/dist/index.js') ?? false) ||
+      (process.argv[1]?.endsWith('\\dist\\index.js') ?? false)
+    );
   }
 }
 
-
 if (isMainModule()) {
   main().catch(error => {
     logger.error('Unhandled error in main', {
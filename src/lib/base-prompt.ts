@@ -0,0 +1,144 @@
+import { z } from 'zod';
+import {
+  ErrorCode,
+  McpError,
+  type GetPromptResult,
+  type Prompt,
+  type PromptArgument
+} from '@modelcontextprotocol/sdk/types.js';
+import type { DatabaseConnection } from '../types/index.js';
+import type { TableDescription } from '../utils/schema-introspection.js';
+import { Logger } from './logger.js';
+
+const logger = new Logger();
+
+export interface PromptExecutionContext {
+  connection: DatabaseConnection;
+  arguments: Record<string, string>;
+}
+
+export abstract class BasePrompt {
+  abstract readonly name: string;
+  abstract readonly description: string;
+  abstract readonly argumentsSchema: z.ZodObject<z.ZodRawShape>;
+
+  protected abstract buildPrompt(context: PromptExecutionContext): Promise<GetPromptResult>;
+
+  getPromptDefinition(): Prompt {
+    const promptArguments: PromptArgument[] = Object.entries(this.argumentsSchema.shape).map(
+      ([name, field]) => ({
+        name,
+        ...(field.description && { description: field.description }),
+        required: !field.isOptional()
+      })
+    );
+
+    return {
+      name: this.name,
+      description: this.description,
+      arguments: promptArguments
+    };
+  }
+
+  async getPrompt(context: PromptExecutionContext): Promise<GetPromptResult> {
+    const validationResult = this.argumentsSchema.safeParse(context.arguments);
+    if (!validationResult.success) {
+      const errorMessage = `Invalid arguments for prompt ${this.name}: ${validationResult.error.message}`;
+      logger.error('Prompt validation failed', {
+        prompt: this.name,
+        error: errorMessage,
+        arguments: context.arguments
+      });
+      throw new McpError(ErrorCode.InvalidParams, errorMessage);
+    }
+
+    logger.info(`Building prompt: ${this.name}`, { arguments: validationResult.data });
+
+    return this.buildPrompt({
+      ...context,
+      arguments: validationResult.data as Record<string, string>
+    });
+  }
+
+  protected userMessage(text: string): GetPromptResult['messages'][number] {
+    return {
+      role: 'user',
+      content: {
+        type: 'text',
+        text
+      }
+    };
+  }
+
+  /**
+   * Render a table or view description as plain text for embedding in prompts
+   */
+  protected formatTable(table: TableDescription): string {
+    let output = `${table.type === 'view' ? 'View' : 'Table'}: ${table.name}\n`;
+
+    if (table.sql) {
+      output += `${table.sql}\n`;
+    }
+
+    output += 'Columns:\n';
+    for (const column of table.columns) {
+      const attributes = [column.type || 'ANY'];
+      if (column.pk) attributes.push('PRIMARY KEY');
+      if (column.notnull) attributes.push('NOT NULL');
+      if (column.dflt_value !== null) attributes.push(`DEFAULT ${column.dflt_value}`);
+      output += `- ${column.name} ${attributes.join(' ')}\n`;
+    }
+
+    if (table.indexes.length > 0) {
+      output += 'Indexes:\n';
+      for (const index of table.indexes) {
+        const indexType = index.unique ? 'UNIQUE INDEX' : 'INDEX';
+        output += `- ${index.name} (${indexType}) on (${index.columns.join(', ')})\n`;
+      }
+    }
+
+    if (table.foreignKeys.length > 0) {
+      output += 'Foreign Keys:\n';
+      for (const fk of table.foreignKeys) {
+        output += `- ${fk.from} → ${fk.table}.${fk.to} (${fk.on_update}/${fk.on_delete})\n`;
+      }
+    }
+
+    return output;
+  }
+}
+
+export class PromptRegistry {
+  private prompts = new Map<string, BasePrompt>();
+
+  register(prompt: BasePrompt): void {
+    if (this.prompts.has(prompt.name)) {
+      throw new Error(`Prompt ${prompt.name} is already registered`);
+    }
+
+    this.prompts.set(prompt.name, prompt);
+    logger.info(`Prompt registered: ${prompt.name}`);
+  }
+
+  get(name: string): BasePrompt | undefined {
+    return this.prompts.get(name);
+  }
+
+  getAll(): BasePrompt[] {
+    return Array.from(this.prompts.values());
+  }
+
+  getPromptDefinitions(): Prompt[] {
+    return this.getAll().map(prompt => prompt.getPromptDefinition());
+  }
+
+  async getPrompt(name: string, context: PromptExecutionContext): Promise<GetPromptResult> {
+    const prompt = this.get(name);
+    if (!prompt) {
+      logger.error('Prompt not found', { prompt: name });
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+    }
+
+    return prompt.getPrompt(context);
+  }
+}
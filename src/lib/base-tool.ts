@@ -1,24 +1,85 @@
 import { z } from 'zod';
 import type { CallToolResult, Tool } from '@modelcontextprotocol/sdk/types.js';
-import type { DatabaseConnection } from '../types/index.js';
+import type { BatchStatement, DatabaseConnection, QueryOptions } from '../types/index.js';
 import { Logger } from './logger.js';
+import type { TransactionScope } from './transaction-manager.js';
 
 const logger = new Logger();
 
 export interface ToolExecutionContext {
   connection: DatabaseConnection;
   arguments: Record<string, unknown>;
+  /** Aborted when the client cancels the tool call */
+  signal?: AbortSignal;
+  /** Row limit for query results, defaults to DEFAULT_CONFIG.maxResultSize */
+  maxResultSize?: number;
+  /** Begin, commit and roll back transactions on the call's database */
+  transactions?: TransactionScope;
+  /** Retry queries that fail with a transient error, for tools that only read */
+  retryTransientErrors?: boolean;
+  /** What happened to the call's queries so far, for the performance metrics */
+  queryStats?: QueryStats;
+}
+
+export interface QueryStats {
+  /** Query attempts that failed with a transient error and were retried */
+  retries: number;
 }
 
 export interface ToolExecutionResult extends CallToolResult {
   isError?: boolean;
 }
 
+/**
+ * Apply call-wide query options to every query the tool runs, so tools need no changes
+ * to be cancellable or to honour a per-call timeout
+ */
+function bindQueryOptions(
+  connection: DatabaseConnection,
+  queryOptions: QueryOptions
+): DatabaseConnection {
+  return {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    execute: (query: string, params?: any, options?: QueryOptions) =>
+      connection.execute(query, params, { ...queryOptions, ...options }),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    transaction: <T>(fn: (tx: any) => Promise<T>, options?: QueryOptions) =>
+      connection.transaction(fn, { ...queryOptions, ...options }),
+    batch: (statements: BatchStatement[], options?: QueryOptions) =>
+      connection.batch(statements, { ...queryOptions, ...options }),
+    close: () => connection.close(),
+    isHealthy: () => connection.isHealthy(),
+    sync: () => connection.sync(),
+    beginTransaction: () => connection.beginTransaction()
+  };
+}
+
 export abstract class BaseTool {
   abstract readonly name: string;
   abstract readonly description: string;
   abstract readonly inputSchema: z.ZodSchema;
 
+  /**
+   * Shape of the structuredContent a successful call returns next to its text,
+   * advertised to clients as the tool's outputSchema
+   */
+  readonly outputSchema?: z.ZodSchema;
+
+  /**
+   * Whether a successful call can change the database schema
+   */
+  readonly modifiesSchema: boolean = false;
+
+  /**
+   * Whether the tool never writes, so it can run against a read replica
+   */
+  readonly readOnly: boolean = false;
+
+  /**
+   * Whether the tool accepts a transactionId, so runs inside that open transaction
+   */
+  readonly supportsTransactions: boolean = false;
+
   protected abstract executeImpl(context: ToolExecutionContext): Promise<ToolExecutionResult>;
 
   getToolDefinition(): Tool {
@@ -28,7 +89,13 @@ export abstract class BaseTool {
       inputSchema: {
         type: 'object',
         ...this.zodSchemaToJsonSchema(this.inputSchema)
-      }
+      },
+      ...(this.outputSchema && {
+        outputSchema: {
+          type: 'object',
+          ...this.zodSchemaToJsonSchema(this.outputSchema)
+        }
+      })
     };
   }
 
@@ -58,9 +125,26 @@ export abstract class BaseTool {
       }
 
       // Update context with validated arguments
+      const queryStats: QueryStats = { retries: 0 };
+      const queryOptions: QueryOptions = {
+        ...(context.signal && { signal: context.signal }),
+        ...(typeof validationResult.data?.timeoutMs === 'number' && {
+          timeoutMs: validationResult.data.timeoutMs
+        }),
+        ...(context.retryTransientErrors && {
+          retry: true,
+          onRetry: (): void => {
+            queryStats.retries++;
+          }
+        })
+      };
       const validatedContext: ToolExecutionContext = {
         ...context,
-        arguments: validationResult.data
+        ...(Object.keys(queryOptions).length > 0 && {
+          connection: bindQueryOptions(context.connection, queryOptions)
+        }),
+        arguments: validationResult.data,
+        ...(context.retryTransientErrors && { queryStats })
       };
 
       logger.info(`Executing tool: ${this.name}`, { arguments: validatedContext.arguments });
@@ -68,10 +152,21 @@ export abstract class BaseTool {
       // Execute the tool
       const result = await this.executeImpl(validatedContext);
 
+      // Clients validate structuredContent against the outputSchema, so a mismatch is a bug here
+      if (!result.isError && this.outputSchema) {
+        const outputValidation = this.outputSchema.safeParse(result.structuredContent);
+        if (!outputValidation.success) {
+          logger.warn(`Tool output does not match its output schema: ${this.name}`, {
+            error: outputValidation.error.message
+          });
+        }
+      }
+
       const executionTime = Date.now() - startTime;
       logger.info(`Tool executed successfully: ${this.name}`, {
         executionTime,
-        hasError: result.isError || false
+        hasError: result.isError || false,
+        ...(queryStats.retries > 0 && { retries: queryStats.retries })
       });
 
       return result;
@@ -138,6 +233,22 @@ export abstract class BaseTool {
       return { type: 'boolean' };
     }
 
+    if (zodType instanceof z.ZodObject) {
+      return this.zodSchemaToJsonSchema(zodType);
+    }
+
+    if (zodType instanceof z.ZodRecord) {
+      return {
+        type: 'object',
+        additionalProperties: this.zodTypeToJsonSchema(zodType.valueSchema)
+      };
+    }
+
+    // Any JSON value
+    if (zodType instanceof z.ZodUnknown || zodType instanceof z.ZodAny) {
+      return {};
+    }
+
     if (zodType instanceof z.ZodArray) {
       return {
         type: 'array',
@@ -0,0 +1,136 @@
+import { DatabaseUnavailableError } from '../utils/error-handler.js';
+import { Logger } from './logger.js';
+
+const logger = new Logger();
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface CircuitBreakerOptions {
+  /** Consecutive failures that open the circuit */
+  failureThreshold: number;
+  /** How long the circuit stays open before going half-open, in ms */
+  resetTimeout: number;
+  /** Called on every state change, e.g. to start a reconnection probe when half-open */
+  onStateChange?: (state: CircuitState) => void;
+}
+
+export interface CircuitBreakerStatus {
+  state: CircuitState;
+  consecutiveFailures: number;
+  lastError?: string;
+  /** When the circuit goes half-open, while it is open */
+  nextProbeAt?: string;
+}
+
+/**
+ * Stops callers from waiting on a database that keeps failing. After failureThreshold
+ * consecutive failures the circuit opens and calls are rejected straight away. After
+ * resetTimeout it goes half-open while a single probe runs: the probe closes the circuit
+ * if it succeeds and opens it again if it fails.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private lastError: Error | undefined;
+  private openedAt = 0;
+  private resetTimer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(
+    private label: string,
+    private options: CircuitBreakerOptions
+  ) {}
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Throw DatabaseUnavailableError unless the circuit is closed
+   */
+  ensureClosed(): void {
+    if (this.state !== 'closed') {
+      throw this.unavailableError();
+    }
+  }
+
+  /**
+   * The error for calls rejected while the circuit is not closed
+   */
+  unavailableError(): DatabaseUnavailableError {
+    const retryInMs =
+      this.state === 'open'
+        ? Math.max(0, this.openedAt + this.options.resetTimeout - Date.now())
+        : 0;
+    return new DatabaseUnavailableError(retryInMs, this.lastError);
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.lastError = undefined;
+
+    if (this.state !== 'closed') {
+      this.clearResetTimer();
+      logger.info('Circuit breaker closed, database reachable again', { database: this.label });
+      this.setState('closed');
+    }
+  }
+
+  recordFailure(error: Error): void {
+    this.consecutiveFailures++;
+    this.lastError = error;
+
+    if (
+      this.state === 'half-open' ||
+      (this.state === 'closed' && this.consecutiveFailures >= this.options.failureThreshold)
+    ) {
+      this.open();
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(this.lastError && { lastError: this.lastError.message }),
+      ...(this.state === 'open' && {
+        nextProbeAt: new Date(this.openedAt + this.options.resetTimeout).toISOString()
+      })
+    };
+  }
+
+  stop(): void {
+    this.clearResetTimer();
+  }
+
+  private open(): void {
+    this.openedAt = Date.now();
+    this.clearResetTimer();
+
+    this.resetTimer = setTimeout(() => {
+      this.resetTimer = null;
+      logger.info('Circuit breaker half-open, probing the database', { database: this.label });
+      this.setState('half-open');
+    }, this.options.resetTimeout);
+    this.resetTimer.unref();
+
+    logger.warn('Circuit breaker opened, failing fast until the database recovers', {
+      database: this.label,
+      consecutiveFailures: this.consecutiveFailures,
+      resetTimeout: this.options.resetTimeout,
+      error: this.lastError?.message
+    });
+    this.setState('open');
+  }
+
+  private setState(state: CircuitState): void {
+    this.state = state;
+    this.options.onStateChange?.(state);
+  }
+
+  private clearResetTimer(): void {
+    if (this.resetTimer) {
+      clearTimeout(this.resetTimer);
+      this.resetTimer = null;
+    }
+  }
+}
@@ -0,0 +1,284 @@
+import { readFile } from 'fs/promises';
+import { unwatchFile, watchFile, type Stats } from 'fs';
+import { extname } from 'path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { Logger } from './logger.js';
+
+const logger = new Logger();
+
+type Environment = Record<string, string | undefined>;
+
+const ENV_VAR_PATTERN = /\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g;
+
+const DatabaseEntrySchema = z
+  .object({
+    url: z.string().min(1, 'url cannot be empty'),
+    authToken: z.string().min(1, 'authToken cannot be empty').optional(),
+    readUrl: z.string().min(1, 'readUrl cannot be empty').optional()
+  })
+  .strict();
+
+/**
+ * Schema of the --config file. Every section is optional, CLI flags take precedence.
+ */
+export const ConfigFileSchema = z
+  .object({
+    url: z.string().min(1, 'url cannot be empty').optional(),
+    authToken: z.string().min(1, 'authToken cannot be empty').optional(),
+    authTokenFile: z.string().min(1, 'authTokenFile cannot be empty').optional(),
+    readUrl: z.string().min(1, 'readUrl cannot be empty').optional(),
+    encryptionKey: z.string().min(1, 'encryptionKey cannot be empty').optional(),
+    encryptionKeyFile: z.string().min(1, 'encryptionKeyFile cannot be empty').optional(),
+    databases: z
+      .record(z.string().regex(/^[a-zA-Z][\w-]*$/, 'Invalid database name'), DatabaseEntrySchema)
+      .optional(),
+    defaultDatabase: z.string().min(1).optional(),
+    pool: z
+      .object({
+        minConnections: z.number().int().min(1).optional(),
+        maxConnections: z.number().int().min(1).optional(),
+        idleTimeout: z.number().int().min(0).optional(),
+        maxLifetime: z.number().int().min(0).optional()
+      })
+      .strict()
+      .refine(
+        pool =>
+          pool.minConnections === undefined ||
+          pool.maxConnections === undefined ||
+          pool.minConnections <= pool.maxConnections,
+        { message: 'minConnections cannot be greater than maxConnections' }
+      )
+      .optional(),
+    timeouts: z
+      .object({
+        connection: z.number().int().min(1000).optional(),
+        query: z.number().int().min(1000).optional()
+      })
+      .strict()
+      .optional(),
+    retry: z
+      .object({
+        attempts: z.number().int().min(1).optional(),
+        interval: z.number().int().min(0).optional(),
+        maxDelay: z.number().int().min(0).optional(),
+        jitter: z.number().min(0).max(1).optional()
+      })
+      .strict()
+      .optional(),
+    circuitBreaker: z
+      .object({
+        failureThreshold: z.number().int().min(1).optional(),
+        resetTimeout: z.number().int().min(1000).optional()
+      })
+      .strict()
+      .optional(),
+    sync: z
+      .object({
+        url: z.string().min(1, 'url cannot be empty'),
+        interval: z.number().int().min(1).optional(),
+        readYourWrites: z.boolean().optional()
+      })
+      .strict()
+      .optional(),
+    connectionInit: z
+      .object({
+        foreignKeys: z.boolean().optional(),
+        busyTimeout: z.number().int().min(0).optional(),
+        cacheSize: z.number().int().optional()
+      })
+      .strict()
+      .optional(),
+    limits: z
+      .object({
+        maxResultSize: z.number().int().min(1).optional()
+      })
+      .strict()
+      .optional(),
+    logging: z
+      .object({
+        mode: z.enum(['file', 'console', 'both', 'none']).optional(),
+        level: z.enum(['DEBUG', 'INFO', 'WARN', 'ERROR']).optional()
+      })
+      .strict()
+      .optional(),
+    tools: z
+      .object({
+        disabled: z.array(z.string().min(1)).optional()
+      })
+      .strict()
+      .optional()
+  })
+  .strict();
+
+export type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+export class ConfigFileError extends Error {
+  constructor(
+    message: string,
+    public readonly path: string
+  ) {
+    super(`${path}: ${message}`);
+    this.name = 'ConfigFileError';
+  }
+}
+
+/**
+ * Replace ${ENV_VAR} references in every string value, so secrets can stay out of the file
+ */
+export function interpolateEnv(value: unknown, env: Environment = process.env): unknown {
+  if (typeof value === 'string') {
+    return value.replace(ENV_VAR_PATTERN, (_match, name: string) => {
+      const resolved = env[name];
+      if (resolved === undefined) {
+        throw new Error(`Environment variable ${name} is not set`);
+      }
+      return resolved;
+    });
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(item => interpolateEnv(item, env));
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, interpolateEnv(item, env)])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Parse and validate config file contents. YAML is used unless the file ends in .json.
+ */
+export function parseConfigFile(
+  content: string,
+  path: string,
+  env: Environment = process.env
+): ConfigFile {
+  let raw: unknown;
+  try {
+    raw = extname(path).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+  } catch (error) {
+    throw new ConfigFileError(
+      `Invalid ${extname(path).toLowerCase() === '.json' ? 'JSON' : 'YAML'}: ${error instanceof Error ? error.message : String(error)}`,
+      path
+    );
+  }
+
+  let interpolated: unknown;
+  try {
+    // An empty YAML document parses to null
+    interpolated = interpolateEnv(raw ?? {}, env);
+  } catch (error) {
+    throw new ConfigFileError(error instanceof Error ? error.message : String(error), path);
+  }
+
+  const result = ConfigFileSchema.safeParse(interpolated);
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+      .join('; ');
+    throw new ConfigFileError(`Invalid configuration: ${issues}`, path);
+  }
+
+  return result.data;
+}
+
+export async function loadConfigFile(
+  path: string,
+  env: Environment = process.env
+): Promise<ConfigFile> {
+  let content: string;
+  try {
+    content = await readFile(path, 'utf-8');
+  } catch (error) {
+    throw new ConfigFileError(
+      `Cannot read config file: ${error instanceof Error ? error.message : String(error)}`,
+      path
+    );
+  }
+
+  return parseConfigFile(content, path, env);
+}
+
+export interface ConfigFileWatcherOptions {
+  /** How often to stat the file for changes in ms */
+  interval: number;
+}
+
+/**
+ * Watches a config file and passes each valid new version to the change handler.
+ * Invalid versions are logged and skipped so the running configuration stays in place.
+ * Polls with fs.watchFile so editors that replace the file on save are handled too.
+ */
+export class ConfigFileWatcher {
+  private watching = false;
+  private pendingChange: Promise<void> = Promise.resolve();
+
+  constructor(
+    private path: string,
+    private onChange: (config: ConfigFile) => Promise<void>,
+    private options: ConfigFileWatcherOptions
+  ) {}
+
+  start(): void {
+    if (this.watching) {
+      return;
+    }
+
+    watchFile(this.path, { interval: this.options.interval, persistent: false }, this.listener);
+    this.watching = true;
+    logger.info('Watching config file for changes', { path: this.path });
+  }
+
+  stop(): void {
+    if (!this.watching) {
+      return;
+    }
+
+    unwatchFile(this.path, this.listener);
+    this.watching = false;
+  }
+
+  /**
+   * Load the file and apply it, serialized so overlapping saves are applied in order
+   */
+  reload(): Promise<void> {
+    this.pendingChange = this.pendingChange.then(() => this.applyChange());
+    return this.pendingChange;
+  }
+
+  private listener = (current: Stats, previous: Stats): void => {
+    // A deleted file reports mtime 0, keep the current configuration until it reappears
+    if (current.mtimeMs === 0 || current.mtimeMs === previous.mtimeMs) {
+      return;
+    }
+
+    void this.reload();
+  };
+
+  private async applyChange(): Promise<void> {
+    let config: ConfigFile;
+    try {
+      config = await loadConfigFile(this.path);
+    } catch (error) {
+      logger.error('Ignoring invalid config file change', {
+        path: this.path,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return;
+    }
+
+    try {
+      await this.onChange(config);
+    } catch (error) {
+      logger.error('Failed to apply config file change', {
+        path: this.path,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
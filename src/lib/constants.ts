@@ -2,11 +2,44 @@ export const DEFAULT_CONFIG = {
   minConnections: 1,
   maxConnections: 10,
   connectionTimeout: 30000, // 30 seconds
-  retryInterval: 5000, // 5 seconds
+  retryAttempts: 3,
+  retryInterval: 200, // 200 milliseconds, doubled per retry
+  retryMaxDelay: 5000, // 5 seconds
+  retryJitter: 0.2,
+  circuitBreakerThreshold: 5,
+  circuitBreakerResetTimeout: 30000, // 30 seconds
   queryTimeout: 30000, // 30 seconds
-  maxResultSize: 10000 // 10,000 rows
+  maxResultSize: 10000, // 10,000 rows
+  idleTimeout: 300000, // 5 minutes
+  maxLifetime: 1800000 // 30 minutes
 } as const;
 
+export const DEFAULT_DATABASE_NAME = 'default';
+
+export const DEFAULT_HTTP_TRANSPORT = {
+  host: '127.0.0.1',
+  port: 3000,
+  path: '/mcp'
+} as const;
+
+export const SCHEMA_POLL_INTERVAL = 5000; // 5 seconds
+
+export const POOL_MAINTENANCE_INTERVAL = 30000; // 30 seconds
+
+export const POOL_DRAIN_TIMEOUT = 30000; // 30 seconds
+
+export const CONNECTION_VALIDATION_THRESHOLD = 60000; // 1 minute
+
+export const READ_REPLICA_RETRY_INTERVAL = 30000; // 30 seconds
+
+export const TRANSACTION_IDLE_TIMEOUT = 60000; // 1 minute
+
+export const HTTP_SESSION_IDLE_TIMEOUT = 1800000; // 30 minutes
+
+export const CONFIG_WATCH_INTERVAL = 1000; // 1 second
+
+export const AUTH_TOKEN_WATCH_INTERVAL = 1000; // 1 second
+
 export const RESTRICTED_OPERATIONS = [
   'DROP DATABASE',
   'DROP TABLE',
@@ -1,34 +1,402 @@
-import { createClient, type Client, type ResultSet } from '@libsql/client';
-import type { DatabaseConfig, DatabaseConnection, ConnectionPool } from '../types/index.js';
-import { DEFAULT_CONFIG } from './constants.js';
+import {
+  createClient,
+  type Client,
+  type InStatement,
+  type ResultSet,
+  type Transaction
+} from '@libsql/client';
+import { unwatchFile, watchFile, type Stats } from 'fs';
+import { readFile } from 'fs/promises';
+import type {
+  BatchStatement,
+  ConnectionInitSettings,
+  DatabaseConfig,
+  DatabaseConnection,
+  DatabaseTransaction,
+  ConnectionPool,
+  QueryOptions,
+  SyncResult
+} from '../types/index.js';
+import { CircuitBreaker, type CircuitBreakerStatus, type CircuitState } from './circuit-breaker.js';
+import {
+  EncryptionKeyError,
+  QueryCancelledError,
+  QueryTimeoutError,
+  withAbortSignal,
+  withTimeout
+} from '../utils/error-handler.js';
+import { withRetry, type RetryPolicy } from '../utils/retry.js';
+import {
+  AUTH_TOKEN_WATCH_INTERVAL,
+  CONNECTION_VALIDATION_THRESHOLD,
+  DEFAULT_CONFIG,
+  POOL_MAINTENANCE_INTERVAL
+} from './constants.js';
 import { logger } from './logger.js';
 
+/**
+ * Run one statement, rejecting on timeout or cancellation without waiting for it to finish
+ */
+function runStatement(
+  target: Pick<Transaction, 'execute'>,
+  query: string,
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  params: any,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<ResultSet> {
+  return withTimeout(
+    withAbortSignal(
+      params && Array.isArray(params) && params.length > 0
+        ? target.execute({ sql: query, args: params })
+        : target.execute(query),
+      signal,
+      () => new QueryCancelledError(query)
+    ),
+    timeoutMs,
+    new QueryTimeoutError(timeoutMs, query)
+  );
+}
+
+/**
+ * PRAGMA statements for the connectionInit settings
+ */
+function connectionInitStatements(settings: ConnectionInitSettings = {}): string[] {
+  const statements: string[] = [];
+
+  if (settings.foreignKeys !== undefined) {
+    statements.push(`PRAGMA foreign_keys = ${settings.foreignKeys ? 'ON' : 'OFF'}`);
+  }
+  if (settings.busyTimeout !== undefined) {
+    statements.push(`PRAGMA busy_timeout = ${Math.trunc(settings.busyTimeout)}`);
+  }
+  if (settings.cacheSize !== undefined) {
+    statements.push(`PRAGMA cache_size = ${Math.trunc(settings.cacheSize)}`);
+  }
+
+  return statements;
+}
+
+/**
+ * Whether PRAGMAs stick to the client. A remote database serves each HTTP request
+ * from a fresh server connection, so settings made in one request are gone by the next.
+ */
+function isLocalUrl(url: string): boolean {
+  return url.startsWith('file:');
+}
+
+/**
+ * Whether the server rejected the auth token. Remote databases report it as HTTP 401/403.
+ */
+function isAuthenticationError(error: unknown): boolean {
+  const message = error instanceof Error ? error.message : String(error);
+  return /auth|HTTP status 40[13]/i.test(message);
+}
+
+function getRetryPolicy(config: DatabaseConfig): RetryPolicy {
+  return {
+    maxAttempts: config.retryAttempts ?? DEFAULT_CONFIG.retryAttempts,
+    initialDelay: config.retryInterval ?? DEFAULT_CONFIG.retryInterval,
+    maxDelay: config.retryMaxDelay ?? DEFAULT_CONFIG.retryMaxDelay,
+    jitter: config.retryJitter ?? DEFAULT_CONFIG.retryJitter
+  };
+}
+
+function toStatement({ query, params }: BatchStatement): InStatement {
+  return params && params.length > 0 ? { sql: query, args: params } : query;
+}
+
+/**
+ * A write transaction held open across tool calls. A failed statement leaves it open, as
+ * in SQLite, but a cancelled or timed out one rolls it back: the statement may still be
+ * running, so nothing else can safely run in the transaction.
+ */
+class LibSQLTransaction implements DatabaseTransaction {
+  private open = true;
+  private savepointCount = 0;
+
+  constructor(
+    private tx: Transaction,
+    private config: DatabaseConfig
+  ) {}
+
+  get isOpen(): boolean {
+    return this.open;
+  }
+
+  private getTimeout(options: QueryOptions): number {
+    return options.timeoutMs ?? this.config.queryTimeout ?? DEFAULT_CONFIG.queryTimeout;
+  }
+
+  private ensureOpen(): void {
+    if (!this.open) {
+      throw new Error('Transaction is no longer open');
+    }
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  async execute(query: string, params?: any, options: QueryOptions = {}): Promise<ResultSet> {
+    this.ensureOpen();
+
+    const startTime = Date.now();
+    const timeoutMs = this.getTimeout(options);
+
+    try {
+      logger.debug('Executing query in transaction', { query, params, timeoutMs });
+
+      if (options.signal?.aborted) {
+        throw new QueryCancelledError(query);
+      }
+
+      const result = await runStatement(this.tx, query, params, timeoutMs, options.signal);
+
+      logger.debug('Query executed successfully', {
+        query,
+        executionTime: Date.now() - startTime,
+        rowsAffected: result.rowsAffected,
+        rowsReturned: result.rows.length
+      });
+
+      return result;
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+
+      if (error instanceof QueryCancelledError || error instanceof QueryTimeoutError) {
+        logger.warn('Query interrupted, rolling back transaction', {
+          query,
+          executionTime,
+          reason: error.message
+        });
+        await this.close();
+        throw error;
+      }
+
+      logger.error('Query execution failed', { query, params, executionTime }, error as Error);
+      throw error;
+    }
+  }
+
+  /**
+   * Run fn in a savepoint, so its statements are undone together if it fails
+   */
+  async transaction<T>(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    fn: (tx: any) => Promise<T>,
+    options: QueryOptions = {}
+  ): Promise<T> {
+    this.ensureOpen();
+
+    if (options.signal?.aborted) {
+      throw new QueryCancelledError();
+    }
+
+    const timeoutMs = this.getTimeout(options);
+    const savepoint = `mcp_savepoint_${++this.savepointCount}`;
+    await this.tx.execute(`SAVEPOINT ${savepoint}`);
+
+    try {
+      const result = await withTimeout(
+        withAbortSignal(fn(this.tx), options.signal),
+        timeoutMs,
+        new QueryTimeoutError(timeoutMs)
+      );
+      await this.tx.execute(`RELEASE ${savepoint}`);
+      return result;
+    } catch (error) {
+      if (error instanceof QueryCancelledError || error instanceof QueryTimeoutError) {
+        logger.warn('Call interrupted, rolling back transaction', { reason: error.message });
+        await this.close();
+      } else if (this.open) {
+        try {
+          await this.tx.execute(`ROLLBACK TO ${savepoint}`);
+          await this.tx.execute(`RELEASE ${savepoint}`);
+          logger.debug('Rolled back to savepoint due to error', { savepoint });
+        } catch (rollbackError) {
+          logger.error('Failed to roll back to savepoint', {}, rollbackError as Error);
+          await this.close();
+        }
+      }
+      throw error;
+    }
+  }
+
+  async batch(statements: BatchStatement[], options: QueryOptions = {}): Promise<ResultSet[]> {
+    return this.transaction(tx => tx.batch(statements.map(toStatement)), options);
+  }
+
+  async commit(): Promise<void> {
+    this.ensureOpen();
+    this.open = false;
+
+    try {
+      await this.tx.commit();
+      logger.debug('Transaction committed successfully');
+    } catch (error) {
+      this.tx.close();
+      throw error;
+    }
+  }
+
+  async rollback(): Promise<void> {
+    if (!this.open) {
+      return;
+    }
+    this.open = false;
+
+    try {
+      await this.tx.rollback();
+    } catch (error) {
+      logger.warn('Rollback failed, closing transaction', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      this.tx.close();
+    }
+    logger.debug('Transaction rolled back');
+  }
+
+  /**
+   * Roll back without waiting behind a statement that may still be in flight
+   */
+  async close(): Promise<void> {
+    if (this.open) {
+      this.open = false;
+      this.tx.close();
+    }
+  }
+
+  async isHealthy(): Promise<boolean> {
+    return this.open;
+  }
+
+  async sync(): Promise<SyncResult | null> {
+    throw new Error('Cannot sync the database inside a transaction');
+  }
+
+  async beginTransaction(): Promise<DatabaseTransaction> {
+    throw new Error('A transaction is already open');
+  }
+}
+
 class LibSQLConnection implements DatabaseConnection {
   private client: Client;
   private isConnected: boolean = false;
+  private lastActivityAt = Date.now();
+  private lastCallFailed = false;
+  private initStatements: string[];
+  /** Set when interrupt() replaces the client, which loses the connectionInit settings */
+  private initPending = false;
 
   constructor(private config: DatabaseConfig) {
-    this.client = createClient({
-      url: config.url,
-      ...(config.authToken && { authToken: config.authToken })
+    this.client = this.openClient();
+    this.initStatements = isLocalUrl(config.url)
+      ? connectionInitStatements(config.connectionInit)
+      : [];
+  }
+
+  private openClient(): Client {
+    return createClient({
+      url: this.config.url,
+      ...(this.config.authToken && { authToken: this.config.authToken }),
+      ...(this.config.encryptionKey && { encryptionKey: this.config.encryptionKey }),
+      ...(this.config.syncUrl && {
+        syncUrl: this.config.syncUrl,
+        readYourWrites: this.config.readYourWrites ?? false,
+        ...(this.config.syncInterval !== undefined && { syncInterval: this.config.syncInterval })
+      })
     });
   }
 
+  private getTimeout(options: QueryOptions): number {
+    return options.timeoutMs ?? this.config.queryTimeout ?? DEFAULT_CONFIG.queryTimeout;
+  }
+
+  /**
+   * Interrupt a timed out statement by replacing the client, which aborts its in-flight
+   * requests to a remote database. Local file databases run each statement synchronously,
+   * so there the statement has always finished before the timeout can fire.
+   */
+  private interrupt(): void {
+    try {
+      this.client.close();
+    } catch (error) {
+      logger.warn('Error closing interrupted client', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+    this.client = this.openClient();
+    this.initPending = this.initStatements.length > 0;
+  }
+
+  private async applyConnectionInit(): Promise<void> {
+    for (const statement of this.initStatements) {
+      await this.client.execute(statement);
+    }
+    this.initPending = false;
+  }
+
+  private recordActivity(succeeded: boolean): void {
+    this.lastCallFailed = !succeeded;
+    if (succeeded) {
+      this.lastActivityAt = Date.now();
+    }
+  }
+
+  /**
+   * Whether the pool should run a health check before trusting this connection:
+   * after a failed call, or when nothing has gone over the wire for idleThreshold ms
+   */
+  needsValidation(idleThreshold: number, now: number = Date.now()): boolean {
+    return this.lastCallFailed || now - this.lastActivityAt >= idleThreshold;
+  }
+
   async connect(): Promise<void> {
     try {
+      // Catch the replica up before serving reads from it
+      if (this.config.syncUrl) {
+        await this.client.sync();
+      }
+
       // Test connection with a simple query
       await this.client.execute('SELECT 1');
+
+      // SELECT 1 never reads the file, so a missing or wrong encryption key only shows up here
+      if (this.config.url.startsWith('file:')) {
+        await this.client.execute('SELECT 1 FROM sqlite_master LIMIT 1');
+      }
+
+      if (this.initStatements.length > 0) {
+        await this.applyConnectionInit();
+        logger.info('Applied connection settings', {
+          url: this.config.url,
+          ...this.config.connectionInit
+        });
+      }
+
       this.isConnected = true;
+      this.recordActivity(true);
       logger.info('Database connection established', {
         url: this.config.url,
+        ...(this.config.syncUrl && { syncUrl: this.config.syncUrl }),
         authTokenProvided: !!this.config.authToken
       });
     } catch (error) {
       this.isConnected = false;
       const errorMessage = error instanceof Error ? error.message : String(error);
 
+      if (
+        (error as { code?: string }).code === 'SQLITE_NOTADB' ||
+        errorMessage.includes('file is not a database')
+      ) {
+        const keyError = new EncryptionKeyError(!!this.config.encryptionKey, error as Error);
+        logger.error('Database connection failed - cannot decrypt database file', {
+          url: this.config.url,
+          encryptionKeyProvided: !!this.config.encryptionKey
+        });
+        throw keyError;
+      }
+
       // Provide more helpful error messages for auth-related issues
-      if (this.config.authToken && errorMessage.toLowerCase().includes('auth')) {
+      if (this.config.authToken && isAuthenticationError(error)) {
         logger.error(
           'Database connection failed - authentication error',
           {
@@ -53,20 +421,47 @@ class LibSQLConnection implements DatabaseConnection {
   }
 
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  async execute(query: string, params?: any): Promise<ResultSet> {
+  async execute(query: string, params?: any, options: QueryOptions = {}): Promise<ResultSet> {
+    if (!options.retry) {
+      return this.executeOnce(query, params, options);
+    }
+
+    return withRetry(() => this.executeOnce(query, params, options), getRetryPolicy(this.config), {
+      ...(options.signal && { signal: options.signal }),
+      onRetry: (attempt, delay, error) => {
+        logger.warn('Retrying query after transient failure', {
+          query,
+          attempt,
+          delay,
+          error: error.message
+        });
+        options.onRetry?.(attempt, error);
+      }
+    });
+  }
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private async executeOnce(query: string, params: any, options: QueryOptions): Promise<ResultSet> {
     if (!this.isConnected) {
       throw new Error('Database connection not established');
     }
 
+    if (this.initPending) {
+      await this.applyConnectionInit();
+    }
+
     const startTime = Date.now();
+    const timeoutMs = this.getTimeout(options);
 
     try {
-      logger.debug('Executing query', { query, params });
+      logger.debug('Executing query', { query, params, timeoutMs });
+
+      if (options.signal?.aborted) {
+        throw new QueryCancelledError(query);
+      }
 
-      const result =
-        params && Array.isArray(params) && params.length > 0
-          ? await this.client.execute({ sql: query, args: params })
-          : await this.client.execute(query);
+      // A cancelled query is abandoned so the caller gets the connection back straight away
+      const result = await runStatement(this.client, query, params, timeoutMs, options.signal);
 
       const executionTime = Date.now() - startTime;
       logger.debug('Query executed successfully', {
@@ -76,9 +471,23 @@ class LibSQLConnection implements DatabaseConnection {
         rowsReturned: result.rows.length
       });
 
+      this.recordActivity(true);
       return result;
     } catch (error) {
       const executionTime = Date.now() - startTime;
+      if (error instanceof QueryCancelledError) {
+        logger.info('Query cancelled', { query, executionTime });
+        throw error;
+      }
+
+      this.recordActivity(false);
+
+      if (error instanceof QueryTimeoutError) {
+        logger.warn('Query timed out, interrupting', { query, timeoutMs, executionTime });
+        this.interrupt();
+        throw error;
+      }
+
       logger.error(
         'Query execution failed',
         {
@@ -92,39 +501,164 @@ class LibSQLConnection implements DatabaseConnection {
     }
   }
 
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  async transaction<T>(fn: (tx: any) => Promise<T>): Promise<T> {
+  async transaction<T>(
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    fn: (tx: any) => Promise<T>,
+    options: QueryOptions = {}
+  ): Promise<T> {
     if (!this.isConnected) {
       throw new Error('Database connection not established');
     }
 
+    if (this.initPending) {
+      await this.applyConnectionInit();
+    }
+
     const startTime = Date.now();
+    const timeoutMs = this.getTimeout(options);
     let tx;
 
     try {
       logger.debug('Starting transaction');
 
+      if (options.signal?.aborted) {
+        throw new QueryCancelledError();
+      }
+
       tx = await this.client.transaction('write');
-      const result = await fn(tx);
+      // A local client hands its database handle to the transaction and opens a new one,
+      // without the connection settings, for the next statement
+      this.initPending = this.initStatements.length > 0;
+
+      // The timeout covers the whole transaction, not each statement
+      const result = await withTimeout(
+        withAbortSignal(fn(tx), options.signal),
+        timeoutMs,
+        new QueryTimeoutError(timeoutMs)
+      );
+
+      // Never commit work the client has already given up on
+      if (options.signal?.aborted) {
+        throw new QueryCancelledError();
+      }
       await tx.commit();
 
       const executionTime = Date.now() - startTime;
       logger.debug('Transaction committed successfully', { executionTime });
 
+      this.recordActivity(true);
       return result;
     } catch (error) {
       const executionTime = Date.now() - startTime;
 
+      const interrupted =
+        error instanceof QueryCancelledError || error instanceof QueryTimeoutError;
+
+      if (!(error instanceof QueryCancelledError)) {
+        this.recordActivity(false);
+      }
+
       if (tx) {
         try {
-          await tx.rollback();
+          if (interrupted) {
+            // close() rolls back without waiting behind the statement still in flight
+            tx.close();
+          } else {
+            await tx.rollback();
+          }
           logger.debug('Transaction rolled back due to error', { executionTime });
         } catch (rollbackError) {
           logger.error('Failed to rollback transaction', {}, rollbackError as Error);
         }
       }
 
-      logger.error('Transaction failed and rolled back', { executionTime }, error as Error);
+      if (error instanceof QueryCancelledError) {
+        logger.info('Transaction cancelled and rolled back', { executionTime });
+      } else if (error instanceof QueryTimeoutError) {
+        logger.warn('Transaction timed out and rolled back', { timeoutMs, executionTime });
+      } else {
+        logger.error('Transaction failed and rolled back', { executionTime }, error as Error);
+      }
+      throw error;
+    }
+  }
+
+  async batch(statements: BatchStatement[], options: QueryOptions = {}): Promise<ResultSet[]> {
+    if (!this.isConnected) {
+      throw new Error('Database connection not established');
+    }
+
+    if (this.initPending) {
+      await this.applyConnectionInit();
+    }
+
+    const startTime = Date.now();
+    const timeoutMs = this.getTimeout(options);
+
+    try {
+      logger.debug('Executing batch', { statements: statements.length, timeoutMs });
+
+      if (options.signal?.aborted) {
+        throw new QueryCancelledError();
+      }
+
+      // libSQL runs the batch in one write transaction, rolled back if any statement fails
+      const results = await withTimeout(
+        withAbortSignal(this.client.batch(statements.map(toStatement), 'write'), options.signal),
+        timeoutMs,
+        new QueryTimeoutError(timeoutMs)
+      );
+
+      logger.debug('Batch executed successfully', {
+        statements: statements.length,
+        executionTime: Date.now() - startTime
+      });
+
+      this.recordActivity(true);
+      return results;
+    } catch (error) {
+      const executionTime = Date.now() - startTime;
+      if (error instanceof QueryCancelledError) {
+        logger.info('Batch cancelled', { statements: statements.length, executionTime });
+        throw error;
+      }
+
+      this.recordActivity(false);
+
+      if (error instanceof QueryTimeoutError) {
+        logger.warn('Batch timed out, interrupting', { timeoutMs, executionTime });
+        this.interrupt();
+        throw error;
+      }
+
+      logger.error(
+        'Batch execution failed and rolled back',
+        { statements: statements.length, executionTime },
+        error as Error
+      );
+      throw error;
+    }
+  }
+
+  async beginTransaction(): Promise<DatabaseTransaction> {
+    if (!this.isConnected) {
+      throw new Error('Database connection not established');
+    }
+
+    if (this.initPending) {
+      await this.applyConnectionInit();
+    }
+
+    try {
+      const tx = await this.client.transaction('write');
+      // The next statement runs on a new database handle, as in transaction()
+      this.initPending = this.initStatements.length > 0;
+      this.recordActivity(true);
+      logger.debug('Interactive transaction started');
+      return new LibSQLTransaction(tx, this.config);
+    } catch (error) {
+      this.recordActivity(false);
+      logger.error('Failed to start transaction', {}, error as Error);
       throw error;
     }
   }
@@ -140,38 +674,159 @@ class LibSQLConnection implements DatabaseConnection {
     }
   }
 
+  async sync(): Promise<SyncResult | null> {
+    if (!this.config.syncUrl) {
+      throw new Error(
+        'Database is not an embedded replica (configure a sync URL to enable syncing)'
+      );
+    }
+
+    const startTime = Date.now();
+    try {
+      // Pulling frames is idempotent, so a dropped connection is simply retried
+      const replicated = await withRetry(() => this.client.sync(), getRetryPolicy(this.config), {
+        onRetry: (attempt, delay, error) => {
+          logger.warn('Retrying embedded replica sync after transient failure', {
+            attempt,
+            delay,
+            error: error.message
+          });
+        }
+      });
+      this.recordActivity(true);
+
+      const result = replicated
+        ? { frameNo: replicated.frame_no, framesSynced: replicated.frames_synced }
+        : null;
+      logger.info('Embedded replica synced', {
+        syncUrl: this.config.syncUrl,
+        executionTime: Date.now() - startTime,
+        ...result
+      });
+
+      return result;
+    } catch (error) {
+      this.recordActivity(false);
+      logger.error(
+        'Embedded replica sync failed',
+        { syncUrl: this.config.syncUrl, executionTime: Date.now() - startTime },
+        error as Error
+      );
+      throw error;
+    }
+  }
+
   async isHealthy(): Promise<boolean> {
     try {
       await this.client.execute('SELECT 1');
+      this.recordActivity(true);
       return true;
     } catch {
+      this.recordActivity(false);
       return false;
     }
   }
 }
 
+/**
+ * DatabaseConfig settings that DEFAULT_CONFIG leaves unset
+ */
+type UnsetByDefault =
+  | 'authToken'
+  | 'authTokenFile'
+  | 'connectionInit'
+  | 'encryptionKey'
+  | 'readUrl'
+  | 'syncUrl'
+  | 'syncInterval'
+  | 'readYourWrites';
+
+/**
+ * A caller queued in getConnection until a connection is released
+ */
+interface ConnectionWaiter {
+  resolve: (connection: LibSQLConnection) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+  enqueuedAt: number;
+}
+
+interface ConnectionTimestamps {
+  createdAt: number;
+  /** When the connection last went back to the available list */
+  idleSince: number;
+}
+
 class LibSQLConnectionPool implements ConnectionPool {
   private connections: LibSQLConnection[] = [];
   private availableConnections: LibSQLConnection[] = [];
-  private config: Required<Omit<DatabaseConfig, 'authToken'>> & Pick<DatabaseConfig, 'authToken'>;
+  private waiters: ConnectionWaiter[] = [];
+  private timestamps = new Map<LibSQLConnection, ConnectionTimestamps>();
+  /** Connections opened with an auth token that has since been replaced */
+  private staleConnections = new Set<LibSQLConnection>();
+  private pendingConnections = 0;
+  private maintenanceTimer: ReturnType<typeof setInterval> | null = null;
+  private isMaintaining = false;
+  private config: Required<Omit<DatabaseConfig, UnsetByDefault>> &
+    Pick<DatabaseConfig, UnsetByDefault>;
   private isShuttingDown: boolean = false;
+  /** Resolves drain() once every checked-out connection is back */
+  private onDrained: (() => void) | null = null;
+  private breaker: CircuitBreaker;
 
   constructor(config: DatabaseConfig) {
     this.config = {
       ...DEFAULT_CONFIG,
       ...config
     };
+
+    this.breaker = new CircuitBreaker(config.url, {
+      failureThreshold: this.config.circuitBreakerThreshold,
+      resetTimeout: this.config.circuitBreakerResetTimeout,
+      onStateChange: (state): void => this.onCircuitStateChange(state)
+    });
+
+    if (config.connectionInit && !isLocalUrl(config.url)) {
+      logger.warn('Connection settings only apply to local databases, ignoring them', {
+        url: config.url
+      });
+    }
+
+    // Every client would sync the replica file on its own, so a replica gets one connection
+    if (config.syncUrl && this.config.maxConnections > 1) {
+      logger.info('Embedded replica uses a single connection', {
+        requestedMaxConnections: this.config.maxConnections
+      });
+      this.config.minConnections = 1;
+      this.config.maxConnections = 1;
+    }
   }
 
   async initialize(): Promise<void> {
     logger.info('Initializing connection pool', {
       minConnections: this.config.minConnections,
-      maxConnections: this.config.maxConnections
+      maxConnections: this.config.maxConnections,
+      idleTimeout: this.config.idleTimeout,
+      maxLifetime: this.config.maxLifetime
     });
 
     // Create minimum connections
     for (let i = 0; i < this.config.minConnections; i++) {
-      await this.createConnection();
+      this.handOff(await this.createConnection());
+    }
+
+    this.maintenanceTimer = setInterval(
+      () => void this.runMaintenance(),
+      POOL_MAINTENANCE_INTERVAL
+    );
+    this.maintenanceTimer.unref();
+
+    if (this.config.authTokenFile) {
+      watchFile(
+        this.config.authTokenFile,
+        { interval: AUTH_TOKEN_WATCH_INTERVAL, persistent: false },
+        this.authTokenFileListener
+      );
     }
 
     logger.info('Connection pool initialized', {
@@ -179,62 +834,280 @@ class LibSQLConnectionPool implements ConnectionPool {
     });
   }
 
+  /**
+   * Open a new connection and count it against maxConnections. The caller decides
+   * whether to use it directly or hand it off to the pool.
+   */
   private async createConnection(): Promise<LibSQLConnection> {
-    if (this.connections.length >= this.config.maxConnections) {
+    if (this.connections.length + this.pendingConnections >= this.config.maxConnections) {
       throw new Error('Maximum connection limit reached');
     }
 
-    const connection = new LibSQLConnection(this.config);
-    await this.retryWithBackoff(async () => {
-      await connection.connect();
-    });
+    // Each connection keeps the auth token it was opened with, even after a rotation
+    let connection = new LibSQLConnection({ ...this.config });
+    this.pendingConnections++;
+    try {
+      await withRetry(
+        async () => {
+          try {
+            await connection.connect();
+          } catch (error) {
+            // Retry with the token from the file if it has been rotated
+            if (
+              isAuthenticationError(error) &&
+              (await this.reloadAuthToken('authentication failed'))
+            ) {
+              await connection.close().catch(() => undefined);
+              connection = new LibSQLConnection({ ...this.config });
+            }
+            throw error;
+          }
+        },
+        getRetryPolicy(this.config),
+        {
+          // A missing or wrong key will not fix itself
+          shouldRetry: error => !(error instanceof EncryptionKeyError),
+          onRetry: (attempt, delay, error) => {
+            logger.warn(`Connection attempt ${attempt} failed, retrying in ${delay}ms`, {
+              attempt,
+              maxAttempts: this.config.retryAttempts,
+              error: error.message
+            });
+          }
+        }
+      );
+      this.breaker.recordSuccess();
+    } catch (error) {
+      this.breaker.recordFailure(error as Error);
+      throw error;
+    } finally {
+      this.pendingConnections--;
+    }
 
+    if (this.isShuttingDown) {
+      await connection.close();
+      throw new Error('Connection pool is shutting down');
+    }
+
+    const now = Date.now();
     this.connections.push(connection);
-    this.availableConnections.push(connection);
+    this.timestamps.set(connection, { createdAt: now, idleSince: now });
 
     return connection;
   }
 
-  private async retryWithBackoff(operation: () => Promise<void>, maxRetries = 3): Promise<void> {
-    let lastError: Error | undefined;
+  /**
+   * Give an idle connection to the oldest waiter, or put it back on the available list
+   */
+  private handOff(connection: LibSQLConnection): void {
+    // Hand the connection straight to the oldest waiter so newer callers cannot overtake it
+    const waiter = this.waiters.shift();
+    if (waiter) {
+      clearTimeout(waiter.timer);
+      waiter.resolve(connection);
+      return;
+    }
 
-    for (let attempt = 1; attempt <= maxRetries; attempt++) {
-      try {
-        await operation();
-        return;
-      } catch (error) {
-        lastError = error as Error;
+    const timestamps = this.timestamps.get(connection);
+    if (timestamps) {
+      timestamps.idleSince = Date.now();
+    }
+    this.availableConnections.push(connection);
+  }
+
+  /**
+   * Whether a connection is past maxLifetime or was opened with a replaced auth token
+   */
+  private isExpired(connection: LibSQLConnection, now: number): boolean {
+    if (this.staleConnections.has(connection)) {
+      return true;
+    }
+
+    const createdAt = this.timestamps.get(connection)?.createdAt;
+    return (
+      this.config.maxLifetime > 0 &&
+      createdAt !== undefined &&
+      now - createdAt >= this.config.maxLifetime
+    );
+  }
+
+  /**
+   * Re-read authTokenFile and, if the token changed, replace every connection opened with
+   * the old one: idle connections right away, connections in use when they are released.
+   * Returns whether the token changed.
+   */
+  async reloadAuthToken(reason: string): Promise<boolean> {
+    const path = this.config.authTokenFile;
+    if (!path || this.isShuttingDown) {
+      return false;
+    }
+
+    let token: string;
+    try {
+      token = (await readFile(path, 'utf-8')).trim();
+    } catch (error) {
+      logger.error('Failed to read auth token file', {
+        path,
+        error: error instanceof Error ? error.message : String(error)
+      });
+      return false;
+    }
+
+    // An editor may truncate the file before writing the new token
+    if (token.length === 0 || token === this.config.authToken) {
+      return false;
+    }
 
-        if (attempt === maxRetries) {
-          throw lastError;
+    this.config.authToken = token;
+    for (const connection of this.connections) {
+      this.staleConnections.add(connection);
+    }
+    logger.info('Auth token changed, replacing connections', {
+      path,
+      reason,
+      connections: this.connections.length
+    });
+
+    void this.runMaintenance();
+    return true;
+  }
+
+  private authTokenFileListener = (current: Stats, previous: Stats): void => {
+    // A deleted file reports mtime 0, keep the current token until it reappears
+    if (current.mtimeMs === 0 || current.mtimeMs === previous.mtimeMs) {
+      return;
+    }
+
+    void this.reloadAuthToken('file changed');
+  };
+
+  /**
+   * Close idle connections past idleTimeout (down to minConnections) and expired
+   * connections, probe the rest, then open replacements for minConnections and
+   * queued callers. Connections in use are checked for expiry when they are released.
+   */
+  async runMaintenance(): Promise<void> {
+    if (this.isShuttingDown || this.isMaintaining) {
+      return;
+    }
+
+    this.isMaintaining = true;
+    try {
+      for (const connection of [...this.availableConnections]) {
+        // The connection may have been checked out while an earlier one was closing
+        if (!this.availableConnections.includes(connection)) {
+          continue;
         }
 
-        const delay = this.config.retryInterval * attempt;
-        logger.warn(`Connection attempt ${attempt} failed, retrying in ${delay}ms`, {
-          attempt,
-          maxRetries,
-          error: lastError.message
-        });
+        const now = Date.now();
+        const idleSince = this.timestamps.get(connection)?.idleSince ?? now;
 
-        await new Promise(resolve => setTimeout(resolve, delay));
+        if (this.isExpired(connection, now)) {
+          logger.debug('Closing expired connection');
+          await this.removeConnection(connection);
+        } else if (
+          this.config.idleTimeout > 0 &&
+          now - idleSince >= this.config.idleTimeout &&
+          this.connections.length > this.config.minConnections
+        ) {
+          logger.debug('Closing idle connection', { idleMs: now - idleSince });
+          await this.removeConnection(connection);
+        }
       }
+
+      await this.probeIdleConnections();
+      await this.replenish();
+    } catch (error) {
+      logger.error('Connection pool maintenance failed', {}, error as Error);
+    } finally {
+      this.isMaintaining = false;
     }
+  }
 
-    throw lastError || new Error('Unknown error occurred during retry');
+  /**
+   * Health check idle connections in the background so checkouts can skip the round-trip.
+   * Connections used since the last maintenance run have already proven themselves.
+   */
+  private async probeIdleConnections(): Promise<void> {
+    for (const connection of [...this.availableConnections]) {
+      const index = this.availableConnections.indexOf(connection);
+      if (index === -1 || !connection.needsValidation(POOL_MAINTENANCE_INTERVAL)) {
+        continue;
+      }
+
+      // Keep the connection out of rotation while the probe is in flight
+      this.availableConnections.splice(index, 1);
+      const healthy = await connection.isHealthy();
+
+      if (this.isShuttingDown) {
+        return;
+      }
+
+      if (!healthy) {
+        logger.warn('Closing connection that failed its health probe');
+        this.breaker.recordFailure(new Error('Connection failed its health probe'));
+        await this.removeConnection(connection);
+        continue;
+      }
+
+      this.breaker.recordSuccess();
+      if (this.waiters.length > 0) {
+        this.handOff(connection);
+      } else {
+        // A probe does not count as use, so idleSince is left alone for idle reaping
+        this.availableConnections.push(connection);
+      }
+    }
+  }
+
+  /**
+   * Open connections until the pool is back at minConnections and every waiter has one coming
+   */
+  private async replenish(): Promise<void> {
+    // While the circuit is open only the breaker's probe may connect
+    while (!this.isShuttingDown && this.breaker.getState() === 'closed') {
+      const total = this.connections.length + this.pendingConnections;
+      const needed =
+        total < this.config.minConnections || this.waiters.length > this.pendingConnections;
+      if (!needed || total >= this.config.maxConnections) {
+        return;
+      }
+
+      this.handOff(await this.createConnection());
+    }
+  }
+
+  /**
+   * Replace a connection that expired while it was checked out
+   */
+  private async retireConnection(connection: LibSQLConnection): Promise<void> {
+    logger.debug('Retiring expired connection');
+    await this.removeConnection(connection);
+
+    try {
+      await this.replenish();
+    } catch (error) {
+      logger.error('Failed to replace retired connection', {}, error as Error);
+    }
   }
 
   async getConnection(): Promise<DatabaseConnection> {
-    if (this.isShuttingDown) {
+    if (this.isShuttingDown || this.onDrained) {
       throw new Error('Connection pool is shutting down');
     }
 
+    // Fail fast instead of waiting through connection timeouts on a database that is down
+    this.breaker.ensureClosed();
+
     // Try to get an available connection
     let connection = this.availableConnections.pop();
 
     // If no available connections and we haven't reached max, create a new one
-    if (!connection && this.connections.length < this.config.maxConnections) {
+    if (
+      !connection &&
+      this.connections.length + this.pendingConnections < this.config.maxConnections
+    ) {
       connection = await this.createConnection();
-      this.availableConnections.pop(); // Remove it from available since we're using it
     }
 
     // If still no connection, wait for one to become available
@@ -242,44 +1115,101 @@ class LibSQLConnectionPool implements ConnectionPool {
       connection = await this.waitForConnection();
     }
 
-    // Verify connection health
-    if (!(await connection.isHealthy())) {
-      logger.warn('Unhealthy connection detected, creating new one');
+    // Maintenance may not have replaced it yet after an auth token change
+    if (this.staleConnections.has(connection)) {
       await this.removeConnection(connection);
-      return this.getConnection(); // Recursive call to get a healthy connection
+      return this.getConnection();
+    }
+
+    // Only re-validate connections that failed or have sat idle since they were last probed
+    if (connection.needsValidation(CONNECTION_VALIDATION_THRESHOLD)) {
+      if (!(await connection.isHealthy())) {
+        logger.warn('Unhealthy connection detected, creating new one');
+        this.breaker.recordFailure(new Error('Connection failed its health check'));
+        await this.removeConnection(connection);
+        return this.getConnection(); // Recursive call to get a healthy connection
+      }
+      this.breaker.recordSuccess();
     }
 
     return connection;
   }
 
-  private async waitForConnection(): Promise<LibSQLConnection> {
+  private onCircuitStateChange(state: CircuitState): void {
+    if (this.isShuttingDown) {
+      return;
+    }
+
+    if (state === 'open') {
+      // Queued callers would only wait for connections that are not coming
+      for (const waiter of this.waiters.splice(0)) {
+        clearTimeout(waiter.timer);
+        waiter.reject(this.breaker.unavailableError());
+      }
+    } else if (state === 'half-open') {
+      void this.probeCircuit();
+    }
+  }
+
+  /**
+   * Try to reconnect while the circuit is half-open. Success closes the circuit and
+   * refills the pool, failure opens it again.
+   */
+  private async probeCircuit(): Promise<void> {
+    try {
+      this.handOff(await this.createConnection());
+      await this.replenish();
+    } catch (error) {
+      // Failures before a connection attempt, e.g. a full pool, must not leave it half-open
+      if (this.breaker.getState() === 'half-open') {
+        this.breaker.recordFailure(error as Error);
+      }
+    }
+  }
+
+  /**
+   * Queue the caller until releaseConnection hands it a connection.
+   * Waiters are served oldest first and each times out on its own deadline.
+   */
+  private waitForConnection(): Promise<LibSQLConnection> {
     return new Promise((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('Connection timeout: No connections available'));
-      }, this.config.connectionTimeout);
-
-      const checkForConnection = (): void => {
-        const connection = this.availableConnections.pop();
-        if (connection) {
-          clearTimeout(timeout);
-          resolve(connection);
-        } else {
-          setTimeout(checkForConnection, 100); // Check every 100ms
-        }
+      const waiter: ConnectionWaiter = {
+        resolve,
+        reject,
+        enqueuedAt: Date.now(),
+        timer: setTimeout(() => {
+          const index = this.waiters.indexOf(waiter);
+          if (index > -1) {
+            this.waiters.splice(index, 1);
+          }
+          logger.warn('Timed out waiting for a connection', {
+            waitedMs: Date.now() - waiter.enqueuedAt,
+            waitingRequests: this.waiters.length
+          });
+          reject(new Error('Connection timeout: No connections available'));
+        }, this.config.connectionTimeout)
       };
 
-      checkForConnection();
+      this.waiters.push(waiter);
     });
   }
 
   releaseConnection(connection: DatabaseConnection): void {
     const libsqlConnection = connection as LibSQLConnection;
     if (
-      this.connections.includes(libsqlConnection) &&
-      !this.availableConnections.includes(libsqlConnection)
+      !this.connections.includes(libsqlConnection) ||
+      this.availableConnections.includes(libsqlConnection)
     ) {
-      this.availableConnections.push(libsqlConnection);
+      return;
     }
+
+    if (this.isExpired(libsqlConnection, Date.now())) {
+      void this.retireConnection(libsqlConnection);
+      return;
+    }
+
+    this.handOff(libsqlConnection);
+    this.checkDrained();
   }
 
   private async removeConnection(connection: LibSQLConnection): Promise<void> {
@@ -294,6 +1224,10 @@ class LibSQLConnectionPool implements ConnectionPool {
       this.availableConnections.splice(availableIndex, 1);
     }
 
+    this.timestamps.delete(connection);
+    this.staleConnections.delete(connection);
+    this.checkDrained();
+
     // Close the connection
     try {
       await connection.close();
@@ -313,16 +1247,69 @@ class LibSQLConnectionPool implements ConnectionPool {
     }
   }
 
+  /**
+   * Close the pool once every checked-out connection has been released, so queries
+   * already running finish first. New checkouts are refused meanwhile, and connections
+   * still checked out after timeout ms are closed anyway.
+   */
+  async drain(timeout: number): Promise<void> {
+    if (this.maintenanceTimer) {
+      clearInterval(this.maintenanceTimer);
+      this.maintenanceTimer = null;
+    }
+
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(() => {
+        logger.warn('Closing connection pool with connections still checked out', {
+          checkedOut: this.connections.length - this.availableConnections.length
+        });
+        resolve();
+      }, timeout);
+
+      this.onDrained = (): void => {
+        clearTimeout(timer);
+        resolve();
+      };
+      this.checkDrained();
+    });
+
+    await this.close();
+  }
+
+  private checkDrained(): void {
+    const checkedOut = this.connections.length - this.availableConnections.length;
+    if (this.onDrained && checkedOut === 0 && this.waiters.length === 0) {
+      this.onDrained();
+    }
+  }
+
   async close(): Promise<void> {
     logger.info('Shutting down connection pool');
     this.isShuttingDown = true;
 
+    if (this.maintenanceTimer) {
+      clearInterval(this.maintenanceTimer);
+      this.maintenanceTimer = null;
+    }
+    this.breaker.stop();
+
+    if (this.config.authTokenFile) {
+      unwatchFile(this.config.authTokenFile, this.authTokenFileListener);
+    }
+
+    for (const waiter of this.waiters.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new Error('Connection pool is shutting down'));
+    }
+
     // Close all connections
     const closePromises = this.connections.map(connection => connection.close());
     await Promise.allSettled(closePromises);
 
     this.connections = [];
     this.availableConnections = [];
+    this.timestamps.clear();
+    this.staleConnections.clear();
 
     logger.info('Connection pool shutdown complete');
   }
@@ -333,13 +1320,25 @@ class LibSQLConnectionPool implements ConnectionPool {
     isShuttingDown: boolean;
     minConnections: number;
     maxConnections: number;
+    waitingRequests: number;
+    longestWaitMs: number;
+    averageWaitMs: number;
+    circuitBreaker: CircuitBreakerStatus;
   } {
+    const now = Date.now();
+    const waitTimes = this.waiters.map(waiter => now - waiter.enqueuedAt);
+    const totalWaitMs = waitTimes.reduce((total, waitMs) => total + waitMs, 0);
+
     return {
       totalConnections: this.connections.length,
       availableConnections: this.availableConnections.length,
       isShuttingDown: this.isShuttingDown,
       minConnections: this.config.minConnections,
-      maxConnections: this.config.maxConnections
+      maxConnections: this.config.maxConnections,
+      waitingRequests: this.waiters.length,
+      longestWaitMs: waitTimes.length > 0 ? Math.max(...waitTimes) : 0,
+      averageWaitMs: waitTimes.length > 0 ? Math.round(totalWaitMs / waitTimes.length) : 0,
+      circuitBreaker: this.breaker.getStatus()
     };
   }
 }
@@ -0,0 +1,338 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type Server as HttpServer,
+  type ServerResponse
+} from 'node:http';
+import { randomUUID } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_HTTP_TRANSPORT, HTTP_SESSION_IDLE_TIMEOUT } from './constants.js';
+import { Logger } from './logger.js';
+
+const logger = new Logger();
+
+const MAX_BODY_SIZE = 4 * 1024 * 1024; // 4MB, matches the SDK transport limit
+
+const LOOPBACK_HOSTS = ['localhost', '127.0.0.1', '[::1]'];
+
+export interface McpHttpServerOptions {
+  host: string;
+  port: number;
+  path?: string;
+  /** Host header names to accept, defaults to the loopback names when bound to loopback */
+  allowedHosts?: string[];
+  /** Origins browsers may call from, defaults to pages served from a loopback host */
+  allowedOrigins?: string[];
+  /** Close sessions without a request for this many ms (0 disables) */
+  sessionIdleTimeout?: number;
+  createServer: () => Promise<Server>;
+  onSessionClosed?: (server: Server) => void;
+}
+
+function isLoopbackHost(host: string): boolean {
+  return /^(?:localhost|127\.\d+\.\d+\.\d+|::1|\[::1\])$/i.test(host);
+}
+
+function getHostname(url: string): string | null {
+  try {
+    return new URL(url).hostname.toLowerCase();
+  } catch {
+    return null;
+  }
+}
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+  /** Requests in flight, including open SSE streams, which hold off the idle timeout */
+  activeRequests: number;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Hosts MCP over the Streamable HTTP transport.
+ * Every client session gets its own MCP server instance, created through the
+ * supplied factory, so sessions can share the same tool registry and pool.
+ */
+export class McpHttpServer {
+  private httpServer: HttpServer | null = null;
+  private sessions = new Map<string, HttpSession>();
+  private readonly path: string;
+  private readonly allowedHosts: string[] | undefined;
+
+  constructor(private options: McpHttpServerOptions) {
+    this.path = options.path || DEFAULT_HTTP_TRANSPORT.path;
+    this.allowedHosts =
+      options.allowedHosts?.map(host => host.toLowerCase()) ??
+      (isLoopbackHost(options.host) ? LOOPBACK_HOSTS : undefined);
+  }
+
+  async listen(): Promise<AddressInfo> {
+    if (this.httpServer) {
+      throw new Error('HTTP server is already listening');
+    }
+
+    const httpServer = createServer((req, res) => {
+      this.handleRequest(req, res).catch(error => {
+        logger.error('Unhandled error in HTTP request handler', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        if (!res.headersSent) {
+          this.sendError(res, 500, -32603, 'Internal server error');
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      httpServer.once('error', reject);
+      httpServer.listen(this.options.port, this.options.host, () => {
+        httpServer.off('error', reject);
+        resolve();
+      });
+    });
+
+    this.httpServer = httpServer;
+    const address = httpServer.address() as AddressInfo;
+
+    logger.info('MCP HTTP transport listening', {
+      host: address.address,
+      port: address.port,
+      path: this.path
+    });
+
+    if (!isLoopbackHost(this.options.host)) {
+      logger.warn(
+        'MCP HTTP transport is reachable from other hosts and has no authentication, anyone who can connect can run SQL',
+        { host: this.options.host }
+      );
+    }
+
+    return address;
+  }
+
+  async close(): Promise<void> {
+    const sessions = Array.from(this.sessions.values());
+    this.sessions.clear();
+    sessions.forEach(session => this.clearIdleTimeout(session));
+
+    await Promise.allSettled(sessions.map(session => session.server.close()));
+    sessions.forEach(session => this.options.onSessionClosed?.(session.server));
+
+    if (this.httpServer) {
+      const httpServer = this.httpServer;
+      this.httpServer = null;
+
+      // Open SSE streams would otherwise keep the server from closing
+      httpServer.closeAllConnections();
+      await new Promise<void>(resolve => httpServer.close(() => resolve()));
+      logger.info('MCP HTTP transport closed', { closedSessions: sessions.length });
+    }
+  }
+
+  getServers(): Server[] {
+    return Array.from(this.sessions.values(), session => session.server);
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  getAddress(): AddressInfo | null {
+    return (this.httpServer?.address() as AddressInfo | null) ?? null;
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    if (!this.isAllowedOrigin(req)) {
+      this.sendError(res, 403, -32000, 'Forbidden: Host or Origin not allowed');
+      return;
+    }
+
+    const requestPath = (req.url || '').split('?')[0];
+    if (requestPath !== this.path) {
+      this.sendError(res, 404, -32000, `Not found: MCP endpoint is ${this.path}`);
+      return;
+    }
+
+    const sessionIdHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionIdHeader) ? sessionIdHeader[0] : sessionIdHeader;
+
+    if (sessionId) {
+      const session = this.sessions.get(sessionId);
+      if (!session) {
+        this.sendError(res, 404, -32001, 'Session not found');
+        return;
+      }
+
+      this.trackRequest(session, res);
+      await session.transport.handleRequest(req, res);
+      return;
+    }
+
+    if (req.method !== 'POST') {
+      this.sendError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    let body: unknown;
+    try {
+      body = await this.readJsonBody(req);
+    } catch (error) {
+      this.sendError(
+        res,
+        400,
+        -32700,
+        `Parse error: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return;
+    }
+
+    if (!isInitializeRequest(body)) {
+      this.sendError(res, 400, -32000, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    await this.createSession(req, res, body);
+  }
+
+  private async createSession(
+    req: IncomingMessage,
+    res: ServerResponse,
+    body: unknown
+  ): Promise<void> {
+    const server = await this.options.createServer();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: (): string => randomUUID(),
+      onsessioninitialized: (sessionId): void => {
+        this.sessions.set(sessionId, { server, transport, activeRequests: 0, idleTimer: null });
+        logger.info('HTTP session initialized', {
+          sessionId,
+          activeSessions: this.sessions.size
+        });
+      }
+    });
+
+    // The SDK replaces transport.onclose on connect, so track closure on the server
+    server.onclose = (): void => {
+      const sessionId = transport.sessionId;
+      const session = sessionId ? this.sessions.get(sessionId) : undefined;
+      if (sessionId && session) {
+        this.sessions.delete(sessionId);
+        this.clearIdleTimeout(session);
+        logger.info('HTTP session closed', { sessionId, activeSessions: this.sessions.size });
+        this.options.onSessionClosed?.(server);
+      }
+    };
+
+    // sessionId is optional on this transport, which exactOptionalPropertyTypes rejects
+    await server.connect(transport as Transport);
+    await transport.handleRequest(req, res, body);
+
+    const session = transport.sessionId ? this.sessions.get(transport.sessionId) : undefined;
+    if (session) {
+      this.scheduleIdleTimeout(session);
+    }
+  }
+
+  /**
+   * Hold off the idle timeout until the response, or the SSE stream it opens, has ended
+   */
+  private trackRequest(session: HttpSession, res: ServerResponse): void {
+    this.clearIdleTimeout(session);
+    session.activeRequests++;
+
+    res.once('close', () => {
+      session.activeRequests--;
+      if (session.activeRequests === 0) {
+        this.scheduleIdleTimeout(session);
+      }
+    });
+  }
+
+  /**
+   * Close a session its client has stopped using, e.g. one that went away without
+   * sending DELETE, so its server and transport are not kept for the life of the process
+   */
+  private scheduleIdleTimeout(session: HttpSession): void {
+    const timeout = this.options.sessionIdleTimeout ?? HTTP_SESSION_IDLE_TIMEOUT;
+    if (timeout === 0 || session.activeRequests > 0) {
+      return;
+    }
+
+    this.clearIdleTimeout(session);
+    session.idleTimer = setTimeout(() => {
+      logger.info('Closing idle HTTP session', {
+        sessionId: session.transport.sessionId,
+        idleTimeout: timeout
+      });
+      session.server.close().catch(error => {
+        logger.error('Failed to close idle HTTP session', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+    }, timeout);
+    session.idleTimer.unref();
+  }
+
+  private clearIdleTimeout(session: HttpSession): void {
+    if (session.idleTimer) {
+      clearTimeout(session.idleTimer);
+      session.idleTimer = null;
+    }
+  }
+
+  /**
+   * Guard against DNS rebinding, where a web page reaches the server under a hostname of
+   * its own: the Host header must be an allowed name, and a browser's Origin an allowed
+   * origin. Clients other than browsers send no Origin.
+   */
+  private isAllowedOrigin(req: IncomingMessage): boolean {
+    if (this.allowedHosts) {
+      const hostname = req.headers.host ? getHostname(`http://${req.headers.host}`) : null;
+      if (!hostname || !this.allowedHosts.includes(hostname)) {
+        return false;
+      }
+    }
+
+    const origin = req.headers.origin;
+    if (origin === undefined) {
+      return true;
+    }
+
+    if (this.options.allowedOrigins) {
+      return this.options.allowedOrigins.includes(origin);
+    }
+
+    const hostname = getHostname(origin);
+    return hostname !== null && isLoopbackHost(hostname);
+  }
+
+  private async readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    for await (const chunk of req) {
+      const buffer = chunk as Buffer;
+      size += buffer.length;
+      if (size > MAX_BODY_SIZE) {
+        throw new Error('Request body too large');
+      }
+      chunks.push(buffer);
+    }
+
+    return JSON.parse(Buffer.concat(chunks).toString('utf-8'));
+  }
+
+  private sendError(res: ServerResponse, status: number, code: number, message: string): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' }).end(
+      JSON.stringify({
+        jsonrpc: '2.0',
+        error: { code, message },
+        id: null
+      })
+    );
+  }
+}
@@ -8,18 +8,39 @@ import type { LogEntry, LogLevel } from '../types/index.js';
 export type LogMode = 'file' | 'console' | 'both' | 'none';
 
 class Logger {
+  /** Level and mode of every logger not given its own, set through configure() */
+  private static defaultLogLevel: keyof LogLevel = 'INFO';
+  private static defaultLogMode: LogMode = 'file';
+
   private logDir: string;
   private logFile: string;
-  private currentLogLevel: keyof LogLevel;
+  private ownLogLevel: keyof LogLevel | undefined;
   private directoryEnsured: boolean = false;
-  private logMode: LogMode;
+  private ownLogMode: LogMode | undefined;
 
-  constructor(logDir?: string, logLevel: keyof LogLevel = 'INFO', logMode: LogMode = 'file') {
+  constructor(logDir?: string, logLevel?: keyof LogLevel, logMode?: LogMode) {
     // Use temp directory by default for better cross-platform compatibility
     this.logDir = logDir || join(tmpdir(), 'mcp-libsql-logs');
     this.logFile = join(this.logDir, `mcp-libsql-${new Date().toISOString().split('T')[0]}.log`);
-    this.currentLogLevel = logLevel;
-    this.logMode = logMode;
+    this.ownLogLevel = logLevel;
+    this.ownLogMode = logMode;
+  }
+
+  /**
+   * Set the level and mode of every logger, including the module-level ones already
+   * created, except loggers given their own
+   */
+  static configure(logLevel: keyof LogLevel, logMode: LogMode): void {
+    Logger.defaultLogLevel = logLevel;
+    Logger.defaultLogMode = logMode;
+  }
+
+  private get currentLogLevel(): keyof LogLevel {
+    return this.ownLogLevel ?? Logger.defaultLogLevel;
+  }
+
+  private get logMode(): LogMode {
+    return this.ownLogMode ?? Logger.defaultLogMode;
   }
 
   private async ensureLogDirectory(): Promise<void> {
@@ -131,7 +152,7 @@ class Logger {
   }
 
   public setLogLevel(level: keyof LogLevel): void {
-    this.currentLogLevel = level;
+    this.ownLogLevel = level;
   }
 
   public getLogFilePath(): string {
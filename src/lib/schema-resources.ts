@@ -0,0 +1,99 @@
+import {
+  ErrorCode,
+  McpError,
+  type Resource,
+  type ResourceTemplate,
+  type TextResourceContents
+} from '@modelcontextprotocol/sdk/types.js';
+import type { DatabaseConnection } from '../types/index.js';
+import {
+  describeDatabase,
+  describeSchemaObject,
+  listSchemaObjects
+} from '../utils/schema-introspection.js';
+
+export const SCHEMA_RESOURCE_URI = 'libsql://schema';
+
+const SCHEMA_MIME_TYPE = 'application/json';
+
+/**
+ * Publishes the database schema as MCP resources:
+ * one resource for the whole database plus one per table or view
+ */
+export class SchemaResourceProvider {
+  static getTableUri(name: string): string {
+    return `${SCHEMA_RESOURCE_URI}/${encodeURIComponent(name)}`;
+  }
+
+  static isSchemaUri(uri: string): boolean {
+    return uri === SCHEMA_RESOURCE_URI || uri.startsWith(`${SCHEMA_RESOURCE_URI}/`);
+  }
+
+  async listResources(connection: DatabaseConnection): Promise<Resource[]> {
+    const objects = await listSchemaObjects(connection);
+
+    return [
+      {
+        uri: SCHEMA_RESOURCE_URI,
+        name: 'Database schema',
+        description: 'All tables and views in the database with their columns',
+        mimeType: SCHEMA_MIME_TYPE
+      },
+      ...objects.map(object => ({
+        uri: SchemaResourceProvider.getTableUri(object.name),
+        name: `${object.type === 'view' ? 'View' : 'Table'}: ${object.name}`,
+        description: `Schema of the ${object.name} ${object.type}`,
+        mimeType: SCHEMA_MIME_TYPE
+      }))
+    ];
+  }
+
+  getResourceTemplates(): ResourceTemplate[] {
+    return [
+      {
+        uriTemplate: `${SCHEMA_RESOURCE_URI}/{table}`,
+        name: 'Table schema',
+        description: 'Columns and CREATE statement of a table or view',
+        mimeType: SCHEMA_MIME_TYPE
+      }
+    ];
+  }
+
+  async readResource(connection: DatabaseConnection, uri: string): Promise<TextResourceContents[]> {
+    if (uri === SCHEMA_RESOURCE_URI) {
+      const objects = await describeDatabase(connection);
+      return [this.toContents(uri, { objects })];
+    }
+
+    const name = this.parseTableName(uri);
+    const object = await describeSchemaObject(connection, name);
+    if (!object) {
+      throw new McpError(ErrorCode.InvalidParams, `Table or view '${name}' does not exist`, {
+        uri
+      });
+    }
+
+    return [this.toContents(uri, object)];
+  }
+
+  private parseTableName(uri: string): string {
+    const prefix = `${SCHEMA_RESOURCE_URI}/`;
+    if (!uri.startsWith(prefix) || uri.length === prefix.length) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    }
+
+    try {
+      return decodeURIComponent(uri.slice(prefix.length));
+    } catch {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid resource URI: ${uri}`);
+    }
+  }
+
+  private toContents(uri: string, data: unknown): TextResourceContents {
+    return {
+      uri,
+      mimeType: SCHEMA_MIME_TYPE,
+      text: JSON.stringify(data, null, 2)
+    };
+  }
+}
@@ -0,0 +1,187 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { ConnectionPool, DatabaseConnection } from '../types/index.js';
+import { listSchemaObjects } from '../utils/schema-introspection.js';
+import { SCHEMA_RESOURCE_URI, SchemaResourceProvider } from './schema-resources.js';
+import { Logger } from './logger.js';
+
+const logger = new Logger();
+
+export interface SchemaWatcherOptions {
+  /** How often to poll PRAGMA schema_version for out-of-band changes, 0 disables polling */
+  pollInterval: number;
+}
+
+export interface SchemaChange {
+  added: string[];
+  removed: string[];
+  modified: string[];
+}
+
+/**
+ * Tracks schema resource subscriptions per MCP server and notifies them when the
+ * schema changes, either after a schema-modifying tool call or when polling
+ * PRAGMA schema_version detects a change made by another process
+ */
+export class SchemaWatcher {
+  private subscriptions = new Map<Server, Set<string>>();
+  private schemaVersion: number | null = null;
+  private snapshot: Map<string, string | null> | null = null;
+  private pollTimer: ReturnType<typeof setInterval> | null = null;
+  private pendingCheck: Promise<SchemaChange | null> = Promise.resolve(null);
+
+  constructor(
+    private pool: ConnectionPool,
+    private options: SchemaWatcherOptions
+  ) {}
+
+  start(): void {
+    // Establish the baseline without notifying anyone
+    this.poll();
+
+    if (this.options.pollInterval > 0) {
+      this.pollTimer = setInterval(() => this.poll(), this.options.pollInterval);
+      this.pollTimer.unref();
+    }
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+    this.subscriptions.clear();
+  }
+
+  /**
+   * Watch a different pool, e.g. after a configuration reload. The next check compares
+   * against the previous snapshot, so subscribers hear about any difference.
+   */
+  setPool(pool: ConnectionPool): void {
+    this.pool = pool;
+    // schema_version is per database, so only the snapshot is comparable
+    this.schemaVersion = null;
+    this.poll();
+  }
+
+  addServer(server: Server): void {
+    if (!this.subscriptions.has(server)) {
+      this.subscriptions.set(server, new Set());
+    }
+  }
+
+  removeServer(server: Server): void {
+    this.subscriptions.delete(server);
+  }
+
+  subscribe(server: Server, uri: string): void {
+    this.addServer(server);
+    this.subscriptions.get(server)?.add(uri);
+    logger.debug('Resource subscription added', { uri });
+  }
+
+  unsubscribe(server: Server, uri: string): void {
+    this.subscriptions.get(server)?.delete(uri);
+    logger.debug('Resource subscription removed', { uri });
+  }
+
+  getSubscriptionCount(): number {
+    let count = 0;
+    for (const uris of this.subscriptions.values()) {
+      count += uris.size;
+    }
+    return count;
+  }
+
+  /**
+   * Compare the schema against the last snapshot and notify subscribers of any change.
+   * Checks are serialized so a poll and a tool-triggered check never overlap.
+   */
+  checkForChanges(connection: DatabaseConnection): Promise<SchemaChange | null> {
+    const check = this.pendingCheck.then(() => this.detectChanges(connection));
+    this.pendingCheck = check.catch(() => null);
+    return check;
+  }
+
+  private poll(): void {
+    this.pool
+      .getConnection()
+      .then(async connection => {
+        try {
+          await this.checkForChanges(connection);
+        } finally {
+          this.pool.releaseConnection(connection);
+        }
+      })
+      .catch(error => {
+        logger.warn('Schema change check failed', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      });
+  }
+
+  private async detectChanges(connection: DatabaseConnection): Promise<SchemaChange | null> {
+    const versionResult = await connection.execute('PRAGMA schema_version');
+    const versionRow = versionResult.rows[0] as Record<string, unknown> | undefined;
+    const version = Number(versionRow?.['schema_version'] ?? 0);
+
+    if (this.snapshot !== null && version === this.schemaVersion) {
+      return null;
+    }
+
+    const objects = await listSchemaObjects(connection);
+    const snapshot = new Map(objects.map(object => [object.name, object.sql]));
+    const previous = this.snapshot;
+
+    this.schemaVersion = version;
+    this.snapshot = snapshot;
+
+    if (previous === null) {
+      return null;
+    }
+
+    const change: SchemaChange = {
+      added: [...snapshot.keys()].filter(name => !previous.has(name)),
+      removed: [...previous.keys()].filter(name => !snapshot.has(name)),
+      modified: [...snapshot.keys()].filter(
+        name => previous.has(name) && previous.get(name) !== snapshot.get(name)
+      )
+    };
+
+    if (change.added.length + change.removed.length + change.modified.length === 0) {
+      return null;
+    }
+
+    logger.info('Database schema changed', { schemaVersion: version, ...change });
+    await this.notify(change);
+
+    return change;
+  }
+
+  private async notify(change: SchemaChange): Promise<void> {
+    const listChanged = change.added.length > 0 || change.removed.length > 0;
+    const changedUris = new Set([
+      SCHEMA_RESOURCE_URI,
+      ...[...change.added, ...change.removed, ...change.modified].map(name =>
+        SchemaResourceProvider.getTableUri(name)
+      )
+    ]);
+
+    for (const [server, uris] of this.subscriptions) {
+      try {
+        if (listChanged) {
+          await server.sendResourceListChanged();
+        }
+
+        for (const uri of uris) {
+          if (changedUris.has(uri)) {
+            await server.sendResourceUpdated({ uri });
+          }
+        }
+      } catch (error) {
+        logger.warn('Failed to send resource notification', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+}
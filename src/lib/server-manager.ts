@@ -1,27 +1,74 @@
+import { isDeepStrictEqual } from 'node:util';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { Logger } from './logger.js';
 import { LibSQLConnectionPool } from './database.js';
 import { ToolRegistry } from './base-tool.js';
-import type { DatabaseConfig } from '../types/index.js';
+import { PromptRegistry } from './base-prompt.js';
+import { McpHttpServer } from './http-server.js';
+import { SchemaResourceProvider } from './schema-resources.js';
+import { SchemaWatcher } from './schema-watcher.js';
+import { TransactionManager } from './transaction-manager.js';
+import type { CircuitBreakerStatus } from './circuit-breaker.js';
+import {
+  DEFAULT_DATABASE_NAME,
+  DEFAULT_HTTP_TRANSPORT,
+  POOL_DRAIN_TIMEOUT,
+  READ_REPLICA_RETRY_INTERVAL,
+  SCHEMA_POLL_INTERVAL,
+  TRANSACTION_IDLE_TIMEOUT
+} from './constants.js';
+import type { DatabaseConfig, DatabaseConnection, TransportConfig } from '../types/index.js';
 
 const logger = new Logger();
 
 export interface ServerManagerOptions {
+  /** Configuration of the default database */
   config: DatabaseConfig;
+  /** Name of the default database (default: 'default') */
+  defaultDatabase?: string;
+  /** Additional named databases, selectable through the tools' database argument */
+  databases?: Record<string, DatabaseConfig>;
+  /** Tools hidden from tools/list and rejected by tools/call */
+  disabledTools?: string[];
+  transport?: TransportConfig;
+  schemaPollInterval?: number;
+  /** Roll back a transaction left open this long without a call in ms (default: 1 minute) */
+  transactionIdleTimeout?: number;
   enableHotReload?: boolean;
   developmentMode?: boolean;
 }
 
+/**
+ * Settings that can change while the server keeps running
+ */
+export type ReloadOptions = Partial<
+  Pick<ServerManagerOptions, 'config' | 'defaultDatabase' | 'databases' | 'disabledTools'>
+>;
+
 export class ServerManager {
   private server: Server | null = null;
-  private pool: LibSQLConnectionPool | null = null;
+  private pools = new Map<string, LibSQLConnectionPool>();
+  /** Pools for databases configured with a readUrl, used by read-only tools */
+  private readPools = new Map<string, LibSQLConnectionPool>();
+  /** When each read replica last failed a checkout, reads skip it until the retry interval passes */
+  private readReplicaFailures = new Map<string, number>();
   private toolRegistry: ToolRegistry | null = null;
+  private promptRegistry: PromptRegistry | null = null;
   private transport: StdioServerTransport | null = null;
+  private httpServer: McpHttpServer | null = null;
+  private schemaResources = new SchemaResourceProvider();
+  private schemaWatcher: SchemaWatcher | null = null;
+  /** Transactions opened with begin-transaction, each holding a connection from its pool */
+  private transactions: TransactionManager;
   private isRunning = false;
   private isShuttingDown = false;
 
-  constructor(private options: ServerManagerOptions) {}
+  constructor(private options: ServerManagerOptions) {
+    this.transactions = new TransactionManager({
+      idleTimeout: options.transactionIdleTimeout ?? TRANSACTION_IDLE_TIMEOUT
+    });
+  }
 
   async start(): Promise<void> {
     if (this.isRunning) {
@@ -44,29 +91,48 @@ export class ServerManager {
         });
       }
 
-      // Initialize database connection pool
-      this.pool = new LibSQLConnectionPool(this.options.config);
-      await this.pool.initialize();
+      // Initialize one connection pool per database, plus one per read replica
+      this.pools = await this.createPools();
+      this.readPools = await this.createReadPools();
+
+      // Watch the default database for schema changes to notify resource subscribers
+      this.schemaWatcher = new SchemaWatcher(this.getPool(), {
+        pollInterval: this.options.schemaPollInterval ?? SCHEMA_POLL_INTERVAL
+      });
+      this.schemaWatcher.start();
 
       // Create and register tools
       this.toolRegistry = await this.createToolRegistry();
 
-      // Create and configure MCP server
-      this.server = await this.createMCPServer();
-
-      // Set up transport and connect
-      this.transport = new StdioServerTransport();
-
-      // Add error handling with more detailed logging
-      this.server.onerror = (error): void => {
-        logger.error('MCP Server error', {
-          error: error instanceof Error ? error.message : String(error),
-          stack: error instanceof Error ? error.stack : undefined,
-          errorType: typeof error
+      // Create and register prompts
+      this.promptRegistry = await this.createPromptRegistry();
+
+      if (this.options.transport?.type === 'http') {
+        // Each HTTP session gets its own MCP server sharing the registry and pool
+        this.httpServer = new McpHttpServer({
+          host: this.options.transport.host || DEFAULT_HTTP_TRANSPORT.host,
+          port: this.options.transport.port ?? DEFAULT_HTTP_TRANSPORT.port,
+          ...(this.options.transport.allowedHosts && {
+            allowedHosts: this.options.transport.allowedHosts
+          }),
+          ...(this.options.transport.allowedOrigins && {
+            allowedOrigins: this.options.transport.allowedOrigins
+          }),
+          ...(this.options.transport.sessionIdleTimeout !== undefined && {
+            sessionIdleTimeout: this.options.transport.sessionIdleTimeout
+          }),
+          createServer: (): Promise<Server> => this.createMCPServer(),
+          onSessionClosed: (server): void => this.schemaWatcher?.removeServer(server)
         });
-      };
+        await this.httpServer.listen();
+      } else {
+        // Create and configure MCP server
+        this.server = await this.createMCPServer();
 
-      await this.server.connect(this.transport);
+        // Set up transport and connect
+        this.transport = new StdioServerTransport();
+        await this.server.connect(this.transport);
+      }
 
       this.isRunning = true;
       logger.info('Server manager started successfully');
@@ -106,24 +172,96 @@ export class ServerManager {
     logger.info('Server manager stopped successfully');
   }
 
-  async reload(newConfig?: DatabaseConfig): Promise<void> {
+  /**
+   * Apply new settings and reconnect to the databases. The MCP server and its transport
+   * stay up, so connected clients (including a stdio session) keep their session.
+   */
+  async reload(newOptions?: ReloadOptions): Promise<void> {
     if (!this.isRunning) {
       throw new Error('Cannot reload: server is not running');
     }
 
     logger.info('Reloading server manager');
 
-    // Update config if provided
-    if (newConfig) {
-      this.options.config = newConfig;
-      logger.info('Updated configuration', { config: newConfig });
+    const previousOptions = this.options;
+    if (newOptions) {
+      this.options = { ...this.options, ...newOptions };
+      logger.info('Updated configuration', {
+        defaultDatabase: this.getDefaultDatabaseName(),
+        databases: Array.from(this.getDatabaseConfigs().keys()),
+        disabledTools: this.options.disabledTools || []
+      });
+    }
+
+    // Connect with the new settings before letting go of the old pools. Only databases
+    // whose settings changed are reconnected, a reload without new options reconnects all.
+    let configs: Map<string, DatabaseConfig>;
+    let changed: Map<string, DatabaseConfig>;
+    let pools: Map<string, LibSQLConnectionPool>;
+    let readPools: Map<string, LibSQLConnectionPool>;
+    try {
+      const previousConfigs = this.getDatabaseConfigs(previousOptions);
+      configs = this.getDatabaseConfigs();
+      changed = new Map(
+        Array.from(configs).filter(
+          ([name, config]) => !newOptions || !isDeepStrictEqual(previousConfigs.get(name), config)
+        )
+      );
+      pools = await this.createPools(changed);
+      for (const name of changed.keys()) {
+        this.readReplicaFailures.delete(name);
+      }
+      readPools = await this.createReadPools(changed);
+    } catch (error) {
+      this.options = previousOptions;
+      logger.error('Reload failed, keeping previous configuration', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+      throw error;
     }
 
-    // Stop current server
-    await this.stop();
+    const retiredPools = new Map<string, LibSQLConnectionPool>();
+    const retiredReadPools = new Map<string, LibSQLConnectionPool>();
+    for (const [name, pool] of this.pools) {
+      if (!configs.has(name) || changed.has(name)) {
+        retiredPools.set(name, pool);
+      }
+    }
+    for (const [name, pool] of this.readPools) {
+      if (!configs.has(name) || changed.has(name)) {
+        retiredReadPools.set(name, pool);
+      }
+    }
 
-    // Start with new configuration
-    await this.start();
+    const previousDefaultPool = this.pools.get(this.getDefaultDatabaseName(previousOptions));
+    const nextPools = new Map<string, LibSQLConnectionPool>();
+    for (const name of configs.keys()) {
+      const pool = pools.get(name) ?? this.pools.get(name);
+      if (pool) {
+        nextPools.set(name, pool);
+      }
+    }
+    for (const name of retiredReadPools.keys()) {
+      this.readPools.delete(name);
+    }
+
+    this.pools = nextPools;
+    this.readPools = new Map([...this.readPools, ...readPools]);
+    if (this.getPool() !== previousDefaultPool) {
+      this.schemaWatcher?.setPool(this.getPool());
+    }
+
+    // Open transactions hold connections from the old pools
+    await this.transactions.rollbackDatabases(
+      Array.from(retiredPools.keys()),
+      'configuration reload'
+    );
+    await this.drainPools(retiredPools);
+    await this.drainPools(retiredReadPools);
+
+    if (!this.sameTools(previousOptions.disabledTools, this.options.disabledTools)) {
+      await this.notifyToolListChanged();
+    }
 
     logger.info('Server manager reloaded successfully');
   }
@@ -137,6 +275,13 @@ export class ServerManager {
     shuttingDown: boolean;
     poolConnections?: number;
     registeredTools?: number;
+    registeredPrompts?: number;
+    httpSessions?: number;
+    resourceSubscriptions?: number;
+    databases?: Record<string, number>;
+    readReplicas?: Record<string, { connections: number; available: boolean }>;
+    openTransactions?: number;
+    circuitBreakers?: Record<string, CircuitBreakerStatus>;
   } {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const status: any = {
@@ -144,16 +289,58 @@ export class ServerManager {
       shuttingDown: this.isShuttingDown
     };
 
-    const poolConnections = this.pool?.getStatus?.()?.totalConnections;
+    const poolConnections = this.pools
+      .get(this.getDefaultDatabaseName())
+      ?.getStatus?.()?.totalConnections;
     if (poolConnections !== undefined) {
       status.poolConnections = poolConnections;
     }
 
+    if (this.pools.size > 0) {
+      status.databases = Object.fromEntries(
+        Array.from(this.pools, ([name, pool]) => [name, pool.getStatus?.()?.totalConnections ?? 0])
+      );
+      status.openTransactions = this.transactions.getOpenCount();
+
+      const circuitBreakers = Array.from(this.pools).flatMap(([name, pool]) => {
+        const breaker = pool.getStatus?.()?.circuitBreaker;
+        return breaker ? [[name, breaker] as const] : [];
+      });
+      if (circuitBreakers.length > 0) {
+        status.circuitBreakers = Object.fromEntries(circuitBreakers);
+      }
+    }
+
+    if (this.readPools.size > 0) {
+      status.readReplicas = Object.fromEntries(
+        Array.from(this.readPools, ([name, pool]) => [
+          name,
+          {
+            connections: pool.getStatus?.()?.totalConnections ?? 0,
+            available: this.isReadReplicaAvailable(name)
+          }
+        ])
+      );
+    }
+
     const registeredTools = this.toolRegistry?.getAll().length;
     if (registeredTools !== undefined) {
       status.registeredTools = registeredTools;
     }
 
+    const registeredPrompts = this.promptRegistry?.getAll().length;
+    if (registeredPrompts !== undefined) {
+      status.registeredPrompts = registeredPrompts;
+    }
+
+    if (this.httpServer) {
+      status.httpSessions = this.httpServer.getSessionCount();
+    }
+
+    if (this.schemaWatcher) {
+      status.resourceSubscriptions = this.schemaWatcher.getSubscriptionCount();
+    }
+
     return status;
   }
 
@@ -180,9 +367,17 @@ export class ServerManager {
     }
 
     // Log pool status
-    if (this.pool) {
-      const poolStatus = this.pool.getStatus();
-      logger.info('Connection pool status in development mode:', poolStatus);
+    for (const [name, pool] of this.pools) {
+      const poolStatus = pool.getStatus();
+      logger.info('Connection pool status in development mode:', { database: name, ...poolStatus });
+    }
+
+    for (const [name, pool] of this.readPools) {
+      const poolStatus = pool.getStatus();
+      logger.info('Read replica pool status in development mode:', {
+        database: name,
+        ...poolStatus
+      });
     }
   }
 
@@ -190,31 +385,69 @@ export class ServerManager {
     const { ToolRegistry } = await import('./base-tool.js');
     const { ReadQueryTool } = await import('../tools/read-query.js');
     const { WriteQueryTool } = await import('../tools/write-query.js');
+    const { ExecuteBatchTool } = await import('../tools/execute-batch.js');
     const { CreateTableTool } = await import('../tools/create-table.js');
     const { AlterTableTool } = await import('../tools/alter-table.js');
     const { ListTablesTool } = await import('../tools/list-tables.js');
     const { DescribeTableTool } = await import('../tools/describe-table.js');
+    const { ExplainQueryTool } = await import('../tools/explain-query.js');
+    const { SyncDatabaseTool } = await import('../tools/sync-database.js');
+    const { BeginTransactionTool } = await import('../tools/begin-transaction.js');
+    const { CommitTransactionTool } = await import('../tools/commit-transaction.js');
+    const { RollbackTransactionTool } = await import('../tools/rollback-transaction.js');
 
     const registry = new ToolRegistry();
     registry.register(new ReadQueryTool());
     registry.register(new WriteQueryTool());
+    registry.register(new ExecuteBatchTool());
     registry.register(new CreateTableTool());
     registry.register(new AlterTableTool());
     registry.register(new ListTablesTool());
     registry.register(new DescribeTableTool());
+    registry.register(new ExplainQueryTool());
+    registry.register(new SyncDatabaseTool());
+    registry.register(new BeginTransactionTool());
+    registry.register(new CommitTransactionTool());
+    registry.register(new RollbackTransactionTool());
+
+    return registry;
+  }
+
+  private async createPromptRegistry(): Promise<PromptRegistry> {
+    const { PromptRegistry } = await import('./base-prompt.js');
+    const { ExploreDatabasePrompt } = await import('../prompts/explore-database.js');
+    const { WriteMigrationPrompt } = await import('../prompts/write-migration.js');
+    const { ExplainQueryPerformancePrompt } = await import(
+      '../prompts/explain-query-performance.js'
+    );
+
+    const registry = new PromptRegistry();
+    registry.register(new ExploreDatabasePrompt());
+    registry.register(new WriteMigrationPrompt());
+    registry.register(new ExplainQueryPerformancePrompt());
 
     return registry;
   }
 
   private async createMCPServer(): Promise<Server> {
-    if (!this.pool || !this.toolRegistry) {
-      throw new Error('Pool and tool registry must be initialized first');
+    if (this.pools.size === 0 || !this.toolRegistry || !this.promptRegistry) {
+      throw new Error('Pool, tool registry and prompt registry must be initialized first');
     }
 
     const { Server } = await import('@modelcontextprotocol/sdk/server/index.js');
-    const { CallToolRequestSchema, ListToolsRequestSchema } = await import(
-      '@modelcontextprotocol/sdk/types.js'
-    );
+    const {
+      CallToolRequestSchema,
+      ListToolsRequestSchema,
+      ListResourcesRequestSchema,
+      ListResourceTemplatesRequestSchema,
+      ReadResourceRequestSchema,
+      SubscribeRequestSchema,
+      UnsubscribeRequestSchema,
+      ListPromptsRequestSchema,
+      GetPromptRequestSchema,
+      ErrorCode,
+      McpError
+    } = await import('@modelcontextprotocol/sdk/types.js');
 
     const server = new Server(
       {
@@ -223,11 +456,29 @@ export class ServerManager {
       },
       {
         capabilities: {
-          tools: {}
+          tools: {
+            listChanged: true
+          },
+          resources: {
+            subscribe: true,
+            listChanged: true
+          },
+          prompts: {}
         }
       }
     );
 
+    this.schemaWatcher?.addServer(server);
+
+    // Add error handling with more detailed logging
+    server.onerror = (error): void => {
+      logger.error('MCP Server error', {
+        error: error instanceof Error ? error.message : String(error),
+        stack: error instanceof Error ? error.stack : undefined,
+        errorType: typeof error
+      });
+    };
+
     // Set up handlers
     server.setRequestHandler(ListToolsRequestSchema, async () => {
       try {
@@ -235,7 +486,9 @@ export class ServerManager {
         if (!this.toolRegistry) {
           throw new Error('Tool registry not initialized');
         }
-        const tools = this.toolRegistry.getToolDefinitions();
+        const tools = this.toolRegistry
+          .getToolDefinitions()
+          .filter(tool => !this.isToolDisabled(tool.name));
         logger.info(`Returning ${tools.length} tool definitions`);
 
         return { tools };
@@ -247,32 +500,63 @@ export class ServerManager {
       }
     });
 
-    server.setRequestHandler(CallToolRequestSchema, async request => {
+    server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       let connection: any = null;
+      let pool: LibSQLConnectionPool | null = null;
+      let transactionId: string | null = null;
 
       try {
         logger.info(`Handling tool request: ${name}`, { arguments: args });
 
-        if (!this.pool) {
-          throw new Error('Database pool not initialized');
-        }
         if (!this.toolRegistry) {
           throw new Error('Tool registry not initialized');
         }
+        if (this.isToolDisabled(name)) {
+          throw new Error(`Tool ${name} is disabled`);
+        }
 
-        connection = await this.pool.getConnection();
+        const tool = this.toolRegistry.get(name);
+        const database = typeof args?.['database'] === 'string' ? args['database'] : undefined;
+        const databaseName = database || this.getDefaultDatabaseName();
+        const requestedTransaction =
+          tool?.supportsTransactions && typeof args?.['transactionId'] === 'string'
+            ? args['transactionId']
+            : undefined;
+
+        if (requestedTransaction) {
+          // Calls in a transaction run on the connection it holds instead of checking one out
+          connection = this.transactions.acquire(requestedTransaction, databaseName);
+          transactionId = requestedTransaction;
+        } else {
+          ({ pool, connection } = await this.checkoutConnection(database, tool?.readOnly ?? false));
+        }
 
+        const maxResultSize = this.getDatabaseConfigs().get(databaseName)?.maxResultSize;
         const result = await this.toolRegistry.execute(name, {
           connection,
-          arguments: args || {}
+          arguments: args || {},
+          signal: extra.signal,
+          retryTransientErrors: tool?.readOnly ?? false,
+          transactions: this.transactions.scope(
+            databaseName,
+            pool ?? this.getPool(database),
+            connection
+          ),
+          ...(maxResultSize !== undefined && { maxResultSize })
         });
 
         logger.info(`Tool executed successfully: ${name}`, {
           hasError: result.isError || false
         });
 
+        // Schema resources and subscriptions track the default database only
+        const isDefaultDatabase = pool === this.pools.get(this.getDefaultDatabaseName());
+        if (!result.isError && isDefaultDatabase && this.toolRegistry.get(name)?.modifiesSchema) {
+          await this.notifySchemaChange(connection);
+        }
+
         return result;
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : String(error);
@@ -291,11 +575,14 @@ export class ServerManager {
           isError: true
         };
       } finally {
-        if (connection) {
+        if (transactionId) {
+          this.transactions.release(transactionId);
+        }
+
+        // begin-transaction keeps its connection until the transaction ends
+        if (connection && pool && !this.transactions.isPinned(connection)) {
           try {
-            if (this.pool) {
-              this.pool.releaseConnection(connection);
-            }
+            pool.releaseConnection(connection);
           } catch (releaseError) {
             logger.error('Failed to release connection', {
               error: releaseError instanceof Error ? releaseError.message : String(releaseError)
@@ -305,12 +592,335 @@ export class ServerManager {
       }
     });
 
+    server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      try {
+        logger.info('Handling list resources request');
+        const resources = await this.withConnection(connection =>
+          this.schemaResources.listResources(connection)
+        );
+        logger.info(`Returning ${resources.length} resources`);
+
+        return { resources };
+      } catch (error) {
+        logger.error('Failed to list resources', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        throw error;
+      }
+    });
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return { resourceTemplates: this.schemaResources.getResourceTemplates() };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async request => {
+      const { uri } = request.params;
+
+      try {
+        logger.info(`Handling read resource request: ${uri}`);
+        const contents = await this.withConnection(connection =>
+          this.schemaResources.readResource(connection, uri)
+        );
+
+        return { contents };
+      } catch (error) {
+        logger.error(`Failed to read resource: ${uri}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        throw error;
+      }
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async request => {
+      const { uri } = request.params;
+      if (!SchemaResourceProvider.isSchemaUri(uri)) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+      }
+
+      logger.info(`Subscribing to resource: ${uri}`);
+      this.schemaWatcher?.subscribe(server, uri);
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+      const { uri } = request.params;
+
+      logger.info(`Unsubscribing from resource: ${uri}`);
+      this.schemaWatcher?.unsubscribe(server, uri);
+      return {};
+    });
+
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      if (!this.promptRegistry) {
+        throw new Error('Prompt registry not initialized');
+      }
+
+      logger.info('Handling list prompts request');
+      return { prompts: this.promptRegistry.getPromptDefinitions() };
+    });
+
+    server.setRequestHandler(GetPromptRequestSchema, async request => {
+      const { name, arguments: args } = request.params;
+
+      try {
+        logger.info(`Handling get prompt request: ${name}`, { arguments: args });
+
+        const promptRegistry = this.promptRegistry;
+        if (!promptRegistry) {
+          throw new Error('Prompt registry not initialized');
+        }
+
+        return await this.withConnection(connection =>
+          promptRegistry.getPrompt(name, { connection, arguments: args || {} })
+        );
+      } catch (error) {
+        logger.error(`Failed to get prompt: ${name}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+        throw error;
+      }
+    });
+
     return server;
   }
 
+  /**
+   * Let resource subscribers know about a schema change committed by a tool
+   */
+  private async notifySchemaChange(connection: DatabaseConnection): Promise<void> {
+    try {
+      await this.schemaWatcher?.checkForChanges(connection);
+    } catch (error) {
+      // A failed notification must not fail the tool call that changed the schema
+      logger.warn('Failed to check for schema changes', {
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+
+  /**
+   * Create and initialize a pool for every configured database, closing any
+   * already created if one fails
+   */
+  private async createPools(
+    configs = this.getDatabaseConfigs()
+  ): Promise<Map<string, LibSQLConnectionPool>> {
+    const pools = new Map<string, LibSQLConnectionPool>();
+
+    try {
+      for (const [name, config] of configs) {
+        const pool = new LibSQLConnectionPool(config);
+        pools.set(name, pool);
+        await pool.initialize();
+        logger.info(`Database ready: ${name}`, { url: config.url });
+      }
+    } catch (error) {
+      await this.closePools(pools);
+      throw error;
+    }
+
+    return pools;
+  }
+
+  /**
+   * Create a pool for every database with a readUrl. A replica that cannot be reached yet
+   * does not stop the server, reads fall back to the primary until it comes up.
+   */
+  private async createReadPools(
+    configs = this.getDatabaseConfigs()
+  ): Promise<Map<string, LibSQLConnectionPool>> {
+    const pools = new Map<string, LibSQLConnectionPool>();
+
+    for (const [name, config] of configs) {
+      if (!config.readUrl) {
+        continue;
+      }
+
+      const { readUrl, ...primaryConfig } = config;
+      const pool = new LibSQLConnectionPool({ ...primaryConfig, url: readUrl });
+      pools.set(name, pool);
+
+      try {
+        await pool.initialize();
+        logger.info(`Read replica ready: ${name}`, { url: readUrl });
+      } catch (error) {
+        this.readReplicaFailures.set(name, Date.now());
+        logger.warn(`Read replica unavailable, reads use the primary: ${name}`, {
+          url: readUrl,
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return pools;
+  }
+
+  /**
+   * Close pools, returning the errors instead of throwing
+   */
+  private async closePools(pools: Map<string, LibSQLConnectionPool>): Promise<string[]> {
+    const errors: string[] = [];
+
+    for (const [name, pool] of pools) {
+      try {
+        await pool.close();
+        logger.info('Database pool closed', { database: name });
+      } catch (error) {
+        const errorMsg = error instanceof Error ? error.message : String(error);
+        errors.push(`Error closing database pool ${name}: ${errorMsg}`);
+        logger.error('Error closing database pool', { database: name, error: errorMsg });
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * Close pools once the queries running on them finish, logging errors instead of throwing
+   */
+  private async drainPools(pools: Map<string, LibSQLConnectionPool>): Promise<void> {
+    await Promise.all(
+      Array.from(pools, async ([name, pool]) => {
+        try {
+          await pool.drain(POOL_DRAIN_TIMEOUT);
+          logger.info('Database pool closed', { database: name });
+        } catch (error) {
+          logger.error('Error closing database pool', {
+            database: name,
+            error: error instanceof Error ? error.message : String(error)
+          });
+        }
+      })
+    );
+  }
+
+  private isToolDisabled(name: string): boolean {
+    return this.options.disabledTools?.includes(name) ?? false;
+  }
+
+  private sameTools(previous: string[] = [], current: string[] = []): boolean {
+    return previous.length === current.length && previous.every(name => current.includes(name));
+  }
+
+  private async notifyToolListChanged(): Promise<void> {
+    const servers = this.httpServer ? this.httpServer.getServers() : [this.server];
+
+    for (const server of servers) {
+      try {
+        await server?.sendToolListChanged();
+      } catch (error) {
+        logger.warn('Failed to send tool list changed notification', {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+  }
+
+  private getDefaultDatabaseName(options = this.options): string {
+    return options.defaultDatabase || DEFAULT_DATABASE_NAME;
+  }
+
+  /**
+   * All configured databases by name, with the default database first
+   */
+  private getDatabaseConfigs(options = this.options): Map<string, DatabaseConfig> {
+    const configs = new Map<string, DatabaseConfig>([
+      [this.getDefaultDatabaseName(options), options.config]
+    ]);
+
+    for (const [name, config] of Object.entries(options.databases || {})) {
+      if (configs.has(name)) {
+        throw new Error(`Database ${name} is defined more than once`);
+      }
+      configs.set(name, config);
+    }
+
+    return configs;
+  }
+
+  /**
+   * Get the pool for a named database, or the default database when no name is given
+   */
+  private getPool(database?: string): LibSQLConnectionPool {
+    const name = database || this.getDefaultDatabaseName();
+    const pool = this.pools.get(name);
+
+    if (!pool) {
+      if (this.pools.size === 0) {
+        throw new Error('Database pool not initialized');
+      }
+      throw new Error(
+        `Unknown database: ${name}. Available databases: ${Array.from(this.pools.keys()).join(', ')}`
+      );
+    }
+
+    return pool;
+  }
+
+  private isReadReplicaAvailable(database: string): boolean {
+    const failedAt = this.readReplicaFailures.get(database);
+    return failedAt === undefined || Date.now() - failedAt >= READ_REPLICA_RETRY_INTERVAL;
+  }
+
+  /**
+   * Check out a connection for a tool call. Read-only tools use the database's read replica
+   * when it has one, falling back to the primary while the replica is failing.
+   */
+  private async checkoutConnection(
+    database: string | undefined,
+    readOnly: boolean
+  ): Promise<{ pool: LibSQLConnectionPool; connection: DatabaseConnection }> {
+    const primary = this.getPool(database);
+    const name = database || this.getDefaultDatabaseName();
+    const readPool = readOnly ? this.readPools.get(name) : undefined;
+
+    if (readPool && this.isReadReplicaAvailable(name)) {
+      try {
+        const connection = await readPool.getConnection();
+        this.readReplicaFailures.delete(name);
+        return { pool: readPool, connection };
+      } catch (error) {
+        this.readReplicaFailures.set(name, Date.now());
+        logger.warn(`Read replica unavailable, falling back to the primary: ${name}`, {
+          error: error instanceof Error ? error.message : String(error)
+        });
+      }
+    }
+
+    return { pool: primary, connection: await primary.getConnection() };
+  }
+
+  /**
+   * Run an operation with a pooled connection from the default database, releasing it afterwards
+   */
+  private async withConnection<T>(
+    operation: (connection: DatabaseConnection) => Promise<T>
+  ): Promise<T> {
+    const pool = this.getPool();
+
+    const connection = await pool.getConnection();
+    try {
+      return await operation(connection);
+    } finally {
+      try {
+        pool.releaseConnection(connection);
+      } catch (releaseError) {
+        logger.error('Failed to release connection', {
+          error: releaseError instanceof Error ? releaseError.message : String(releaseError)
+        });
+      }
+    }
+  }
+
   private async cleanup(): Promise<void> {
     const errors: string[] = [];
 
+    // Stop watching for schema changes
+    if (this.schemaWatcher) {
+      this.schemaWatcher.stop();
+      this.schemaWatcher = null;
+    }
+
     // Close server
     if (this.server) {
       try {
@@ -324,21 +934,31 @@ export class ServerManager {
       this.server = null;
     }
 
-    // Close database pool
-    if (this.pool) {
+    // Close HTTP transport and all of its sessions
+    if (this.httpServer) {
       try {
-        await this.pool.close();
-        logger.info('Database pool closed');
+        await this.httpServer.close();
       } catch (error) {
         const errorMsg = error instanceof Error ? error.message : String(error);
-        errors.push(`Error closing database pool: ${errorMsg}`);
-        logger.error('Error closing database pool', { error: errorMsg });
+        errors.push(`Error closing HTTP transport: ${errorMsg}`);
+        logger.error('Error closing HTTP transport', { error: errorMsg });
       }
-      this.pool = null;
+      this.httpServer = null;
     }
 
+    // Roll back transactions still open so their connections go back before the pools close
+    await this.transactions.rollbackAll('server shutdown');
+
+    // Close database pools
+    errors.push(...(await this.closePools(this.pools)));
+    errors.push(...(await this.closePools(this.readPools)));
+    this.pools = new Map();
+    this.readPools = new Map();
+    this.readReplicaFailures.clear();
+
     // Clear references
     this.toolRegistry = null;
+    this.promptRegistry = null;
     this.transport = null;
 
     if (errors.length > 0) {
@@ -0,0 +1,271 @@
+import { randomUUID } from 'crypto';
+import type { ConnectionPool, DatabaseConnection, DatabaseTransaction } from '../types/index.js';
+import { TransactionNotFoundError } from '../utils/error-handler.js';
+import { Logger } from './logger.js';
+
+const logger = new Logger();
+
+export interface TransactionManagerOptions {
+  /** Roll back a transaction after this many ms without a tool call running in it */
+  idleTimeout: number;
+}
+
+export interface TransactionInfo {
+  transactionId: string;
+  database: string;
+  idleTimeout: number;
+}
+
+/**
+ * Transaction controls handed to a tool call, bound to the database the call runs against
+ */
+export interface TransactionScope {
+  /** Start a transaction pinned to the connection checked out for the call */
+  begin: () => Promise<TransactionInfo>;
+  commit: (transactionId: string) => Promise<void>;
+  rollback: (transactionId: string) => Promise<void>;
+}
+
+interface OpenTransaction {
+  id: string;
+  database: string;
+  pool: ConnectionPool;
+  /** Pooled connection the transaction runs on, released when it ends */
+  connection: DatabaseConnection;
+  transaction: DatabaseTransaction;
+  startedAt: number;
+  /** Tool calls running in the transaction, which hold off the idle timeout */
+  activeCalls: number;
+  idleTimer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Keeps interactive transactions open across tool calls. Each one holds a pooled connection
+ * until it is committed, rolled back, or rolled back automatically after the idle timeout.
+ */
+export class TransactionManager {
+  private transactions = new Map<string, OpenTransaction>();
+
+  constructor(private options: TransactionManagerOptions) {}
+
+  /**
+   * Open a transaction on a connection checked out from pool. The connection stays out of
+   * the pool until the transaction ends.
+   */
+  async begin(
+    database: string,
+    pool: ConnectionPool,
+    connection: DatabaseConnection
+  ): Promise<TransactionInfo> {
+    const transaction = await connection.beginTransaction();
+    const entry: OpenTransaction = {
+      id: randomUUID(),
+      database,
+      pool,
+      connection,
+      transaction,
+      startedAt: Date.now(),
+      activeCalls: 0,
+      idleTimer: null
+    };
+
+    this.transactions.set(entry.id, entry);
+    this.scheduleIdleTimeout(entry);
+    logger.info('Transaction started', { transactionId: entry.id, database });
+
+    return { transactionId: entry.id, database, idleTimeout: this.options.idleTimeout };
+  }
+
+  /**
+   * Whether the connection belongs to an open transaction, so must not go back to the pool
+   */
+  isPinned(connection: DatabaseConnection): boolean {
+    for (const entry of this.transactions.values()) {
+      if (entry.connection === connection) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Get an open transaction for a tool call, pausing its idle timeout until release
+   */
+  acquire(transactionId: string, database: string): DatabaseTransaction {
+    const entry = this.find(transactionId, database);
+
+    this.clearIdleTimeout(entry);
+    entry.activeCalls++;
+
+    return entry.transaction;
+  }
+
+  release(transactionId: string): void {
+    const entry = this.transactions.get(transactionId);
+    if (!entry) {
+      return;
+    }
+
+    entry.activeCalls--;
+
+    // An interrupted call rolls the transaction back, which ends it
+    if (!entry.transaction.isOpen) {
+      logger.warn('Transaction rolled back after an interrupted call', {
+        transactionId,
+        database: entry.database
+      });
+      this.finish(entry);
+      return;
+    }
+
+    if (entry.activeCalls === 0) {
+      this.scheduleIdleTimeout(entry);
+    }
+  }
+
+  async commit(transactionId: string, database: string): Promise<void> {
+    const entry = this.find(transactionId, database);
+
+    try {
+      await entry.transaction.commit();
+      logger.info('Transaction committed', {
+        transactionId,
+        database,
+        duration: Date.now() - entry.startedAt
+      });
+    } finally {
+      this.finish(entry);
+    }
+  }
+
+  async rollback(transactionId: string, database: string): Promise<void> {
+    const entry = this.find(transactionId, database);
+
+    try {
+      await entry.transaction.rollback();
+      logger.info('Transaction rolled back', {
+        transactionId,
+        database,
+        duration: Date.now() - entry.startedAt
+      });
+    } finally {
+      this.finish(entry);
+    }
+  }
+
+  /**
+   * Roll back every open transaction and return the connections, e.g. on shutdown
+   */
+  async rollbackAll(reason: string): Promise<void> {
+    for (const entry of Array.from(this.transactions.values())) {
+      await this.abandon(entry, reason);
+    }
+  }
+
+  /**
+   * Roll back the open transactions of the given databases, e.g. when they are reconfigured
+   */
+  async rollbackDatabases(databases: string[], reason: string): Promise<void> {
+    for (const entry of Array.from(this.transactions.values())) {
+      if (databases.includes(entry.database)) {
+        await this.abandon(entry, reason);
+      }
+    }
+  }
+
+  getOpenCount(): number {
+    return this.transactions.size;
+  }
+
+  scope(database: string, pool: ConnectionPool, connection: DatabaseConnection): TransactionScope {
+    return {
+      begin: () => this.begin(database, pool, connection),
+      commit: transactionId => this.commit(transactionId, database),
+      rollback: transactionId => this.rollback(transactionId, database)
+    };
+  }
+
+  private find(transactionId: string, database: string): OpenTransaction {
+    const entry = this.transactions.get(transactionId);
+    if (!entry) {
+      throw new TransactionNotFoundError(transactionId);
+    }
+
+    if (entry.database !== database) {
+      throw new Error(
+        `Transaction ${transactionId} belongs to database ${entry.database}, not ${database}`
+      );
+    }
+
+    return entry;
+  }
+
+  private scheduleIdleTimeout(entry: OpenTransaction): void {
+    this.clearIdleTimeout(entry);
+
+    entry.idleTimer = setTimeout(
+      () => void this.abandon(entry, 'idle timeout'),
+      this.options.idleTimeout
+    );
+    entry.idleTimer.unref();
+  }
+
+  private clearIdleTimeout(entry: OpenTransaction): void {
+    if (entry.idleTimer) {
+      clearTimeout(entry.idleTimer);
+      entry.idleTimer = null;
+    }
+  }
+
+  /**
+   * Roll back a transaction nobody is going to finish. A call still running in it is
+   * abandoned rather than waited for.
+   */
+  private async abandon(entry: OpenTransaction, reason: string): Promise<void> {
+    if (this.transactions.get(entry.id) !== entry) {
+      return;
+    }
+
+    try {
+      if (entry.activeCalls > 0) {
+        await entry.transaction.close();
+      } else {
+        await entry.transaction.rollback();
+      }
+      logger.warn('Transaction rolled back automatically', {
+        transactionId: entry.id,
+        database: entry.database,
+        reason,
+        duration: Date.now() - entry.startedAt
+      });
+    } catch (error) {
+      logger.error('Failed to roll back transaction', {
+        transactionId: entry.id,
+        database: entry.database,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    } finally {
+      this.finish(entry);
+    }
+  }
+
+  /**
+   * Forget an ended transaction and return its connection to the pool
+   */
+  private finish(entry: OpenTransaction): void {
+    this.clearIdleTimeout(entry);
+
+    if (!this.transactions.delete(entry.id)) {
+      return;
+    }
+
+    try {
+      entry.pool.releaseConnection(entry.connection);
+    } catch (error) {
+      logger.error('Failed to release transaction connection', {
+        transactionId: entry.id,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+}
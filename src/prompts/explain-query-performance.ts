@@ -0,0 +1,66 @@
+import { z } from 'zod';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { BasePrompt, type PromptExecutionContext } from '../lib/base-prompt.js';
+import { describeTable, listSchemaObjects } from '../utils/schema-introspection.js';
+
+export const ExplainQueryPerformanceArgumentsSchema = z.object({
+  query: z
+    .string()
+    .min(1, 'Query cannot be empty')
+    .max(10000, 'Query too long (max 10,000 characters)')
+    .describe('SQL query to analyse')
+});
+
+export type ExplainQueryPerformanceArguments = z.infer<
+  typeof ExplainQueryPerformanceArgumentsSchema
+>;
+
+export class ExplainQueryPerformancePrompt extends BasePrompt {
+  readonly name = 'explain-query-performance';
+  readonly description =
+    "Explain a query's performance using the columns and indexes of the tables it references";
+  readonly argumentsSchema = ExplainQueryPerformanceArgumentsSchema;
+
+  protected async buildPrompt(context: PromptExecutionContext): Promise<GetPromptResult> {
+    const { query } = context.arguments as ExplainQueryPerformanceArguments;
+
+    // Embed only the tables and views the query mentions
+    const objects = await listSchemaObjects(context.connection);
+    const referenced = objects.filter(object => this.referencesName(query, object.name));
+
+    const tables = [];
+    for (const object of referenced) {
+      const table = await describeTable(context.connection, object.name);
+      if (table) {
+        tables.push(table);
+      }
+    }
+
+    let text = "Explain this query's performance and how to improve it.\n\n";
+    text += `Query:\n${query}\n\n`;
+
+    if (tables.length === 0) {
+      text += 'None of the tables in the database are referenced by this query.\n\n';
+    } else {
+      text += 'Schema of the referenced tables:\n\n';
+      text += tables.map(table => this.formatTable(table)).join('\n');
+      text += '\n';
+    }
+
+    text += 'Please:\n';
+    text += '1. Walk through how SQLite is likely to execute the query\n';
+    text +=
+      '2. Point out full table scans, temporary B-trees for ORDER BY/GROUP BY, and unused indexes\n';
+    text += '3. Suggest indexes or query rewrites, with the trade-offs for writes\n';
+
+    return {
+      description: `Performance analysis for a query over ${tables.length} table(s)`,
+      messages: [this.userMessage(text)]
+    };
+  }
+
+  private referencesName(query: string, name: string): boolean {
+    const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`(^|[^\\w])${escaped}($|[^\\w])`, 'i').test(query);
+  }
+}
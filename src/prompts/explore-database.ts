@@ -0,0 +1,60 @@
+import { z } from 'zod';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { BasePrompt, type PromptExecutionContext } from '../lib/base-prompt.js';
+import { describeTable, listSchemaObjects } from '../utils/schema-introspection.js';
+
+export const ExploreDatabaseArgumentsSchema = z.object({
+  focus: z
+    .string()
+    .max(1000, 'Focus too long (max 1,000 characters)')
+    .optional()
+    .describe('Optional question or area of the data to focus the exploration on')
+});
+
+export type ExploreDatabaseArguments = z.infer<typeof ExploreDatabaseArgumentsSchema>;
+
+export class ExploreDatabasePrompt extends BasePrompt {
+  readonly name = 'explore-database';
+  readonly description =
+    'Explore the connected database: summarise every table and view, their relationships, and useful queries, using the live schema';
+  readonly argumentsSchema = ExploreDatabaseArgumentsSchema;
+
+  protected async buildPrompt(context: PromptExecutionContext): Promise<GetPromptResult> {
+    const { focus } = context.arguments as ExploreDatabaseArguments;
+
+    const objects = await listSchemaObjects(context.connection);
+    const tables = [];
+    for (const object of objects) {
+      const table = await describeTable(context.connection, object.name);
+      if (table) {
+        tables.push(table);
+      }
+    }
+
+    let text = 'Help me understand this libSQL database.\n\n';
+
+    if (tables.length === 0) {
+      text += 'The database currently has no tables or views.\n\n';
+    } else {
+      text += `The database has ${tables.length} table(s) and view(s). Current schema:\n\n`;
+      text += tables.map(table => this.formatTable(table)).join('\n');
+      text += '\n';
+    }
+
+    text += 'Please:\n';
+    text += '1. Describe what each table or view appears to store\n';
+    text +=
+      '2. Explain how the tables relate to each other (foreign keys and naming conventions)\n';
+    text += '3. Use the read-query tool to sample a few rows where that helps\n';
+    text += '4. Suggest a handful of useful queries for this data\n';
+
+    if (focus) {
+      text += `\nFocus the exploration on: ${focus}\n`;
+    }
+
+    return {
+      description: `Explore database with ${tables.length} table(s) and view(s)`,
+      messages: [this.userMessage(text)]
+    };
+  }
+}
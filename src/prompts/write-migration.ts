@@ -0,0 +1,54 @@
+import { z } from 'zod';
+import { ErrorCode, McpError, type GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { BasePrompt, type PromptExecutionContext } from '../lib/base-prompt.js';
+import { describeTable } from '../utils/schema-introspection.js';
+
+export const WriteMigrationArgumentsSchema = z.object({
+  tableName: z
+    .string()
+    .min(1, 'Table name cannot be empty')
+    .max(128, 'Table name too long (max 128 characters)')
+    .describe('Table the migration applies to'),
+  change: z
+    .string()
+    .min(1, 'Change description cannot be empty')
+    .max(2000, 'Change description too long (max 2,000 characters)')
+    .describe('Description of the schema change to make')
+});
+
+export type WriteMigrationArguments = z.infer<typeof WriteMigrationArgumentsSchema>;
+
+export class WriteMigrationPrompt extends BasePrompt {
+  readonly name = 'write-migration';
+  readonly description =
+    'Write a migration for a table, based on its current columns, indexes and foreign keys';
+  readonly argumentsSchema = WriteMigrationArgumentsSchema;
+
+  protected async buildPrompt(context: PromptExecutionContext): Promise<GetPromptResult> {
+    const { tableName, change } = context.arguments as WriteMigrationArguments;
+
+    const table = await describeTable(context.connection, tableName);
+    if (!table || table.type !== 'table') {
+      throw new McpError(ErrorCode.InvalidParams, `Table '${tableName}' does not exist`);
+    }
+
+    let text = `Write a migration for the ${table.name} table.\n\n`;
+    text += `Requested change: ${change}\n\n`;
+    text += `Current schema:\n\n${this.formatTable(table)}\n`;
+    text += 'Requirements:\n';
+    text += '- Target SQLite/libSQL syntax. ALTER TABLE supports only ADD COLUMN, RENAME TO, ';
+    text +=
+      'RENAME COLUMN and DROP COLUMN; other changes need a new table, a data copy and a rename\n';
+    text +=
+      '- Keep existing indexes and foreign keys intact unless the change requires otherwise\n';
+    text += '- Provide the forward migration and a rollback\n';
+    text += '- Call out any data loss or long-running steps\n';
+    text +=
+      '- Apply DDL with the create-table and alter-table tools, and data changes with write-query\n';
+
+    return {
+      description: `Migration for table ${table.name}`,
+      messages: [this.userMessage(text)]
+    };
+  }
+}
@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { QUERY_TYPES } from '../lib/constants.js';
+import { analyzeSql, isName, isSymbol, isSystemTable, isWord } from '../utils/sql-tokenizer.js';
+import { DatabaseNameSchema, QueryMetricsSchema, QueryTimeoutSchema } from './common.js';
 
 /**
  * Input schema for alter-table tool
@@ -9,72 +12,65 @@ export const AlterTableInputSchema = z.object({
     .string()
     .min(1, 'Query cannot be empty')
     .max(10000, 'Query too long (max 10,000 characters)')
+    .refine(query => analyzeSql(query).type === QUERY_TYPES.ALTER_TABLE, {
+      message: 'Only ALTER TABLE statements are allowed'
+    })
     .refine(
       query => {
-        const trimmed = query.trim().toLowerCase();
-        return trimmed.startsWith('alter table');
-      },
-      {
-        message: 'Only ALTER TABLE statements are allowed'
-      }
-    )
-    .refine(
-      query => {
-        // Check for dangerous patterns that shouldn't be in DDL
+        // Check for keywords that shouldn't be in DDL, outside string literals, quoted
+        // identifiers and comments, or called as functions. DROP is only allowed for DROP
+        // COLUMN, ON DELETE and ON UPDATE only as foreign key actions of an added column.
         const prohibited = [
-          'pragma',
-          'attach',
-          'detach',
-          'drop table',
-          'drop database',
-          'drop view',
-          'drop index',
-          'delete',
-          'insert',
-          'update',
-          'truncate',
-          'vacuum',
-          'reindex',
-          'exec',
-          'execute'
+          'PRAGMA',
+          'ATTACH',
+          'DETACH',
+          'DELETE',
+          'INSERT',
+          'UPDATE',
+          'VACUUM',
+          'REINDEX'
         ];
-        const lowerQuery = query.toLowerCase();
-        return !prohibited.some(pattern => lowerQuery.includes(pattern));
+        const droppable = ['TABLE', 'DATABASE', 'VIEW', 'INDEX', 'TRIGGER'];
+        const { words, functions } = analyzeSql(query);
+        return (
+          !words.some(
+            (word, i) =>
+              (prohibited.includes(word) &&
+                !((word === 'DELETE' || word === 'UPDATE') && words[i - 1] === 'ON')) ||
+              (word === 'DROP' && droppable.includes(words[i + 1] ?? ''))
+          ) && !functions.some(name => prohibited.includes(name))
+        );
       },
       {
         message: 'Query contains prohibited operations'
       }
     )
+    .refine(query => !analyzeSql(query).tables.some(isSystemTable), {
+      message: 'Query attempts to access system tables'
+    })
+    .refine(query => !analyzeSql(query).hasSemicolon, {
+      message: 'Multi-statement queries are not allowed'
+    })
     .refine(
       query => {
-        // Prevent queries that try to access sensitive system tables
-        const systemTables = ['sqlite_master', 'sqlite_temp_master', 'sqlite_sequence'];
-        const lowerQuery = query.toLowerCase();
-        return !systemTables.some(table => lowerQuery.includes(table));
-      },
-      {
-        message: 'Query attempts to access system tables'
-      }
-    )
-    .refine(
-      query => {
-        // Check for multi-statement patterns - semicolon is the key indicator
-        return !query.includes(';');
-      },
-      {
-        message: 'Multi-statement queries are not allowed'
-      }
-    )
-    .refine(
-      query => {
-        // Basic ALTER TABLE syntax validation
-        const lowerQuery = query.toLowerCase();
-        // Must contain valid ALTER TABLE operations
-        const hasAddColumn = lowerQuery.includes('add column') || /\badd\s+\w+\s+\w+/.test(lowerQuery);
-        const hasRename = lowerQuery.includes('rename to') || lowerQuery.includes('rename column');
-        const hasDropColumn = lowerQuery.includes('drop column');
-        const hasTableName = /alter\s+table\s+[\w"`[\]]+\s+/i.test(query);
-        return hasTableName && (hasAddColumn || hasRename || hasDropColumn);
+        // Basic ALTER TABLE syntax validation: a table name followed by a valid
+        // operation, outside string literals and comments
+        const code = analyzeSql(query).tokens.filter(token => token.type !== 'comment');
+        let i = 2;
+        if (isName(code[i]) && isSymbol(code[i + 1], '.')) {
+          i += 2;
+        }
+        if (!isName(code[i])) {
+          return false;
+        }
+        const [operation, target, next] = code.slice(i + 1);
+        const hasAddColumn =
+          isWord(operation, 'ADD') &&
+          (isWord(target, 'COLUMN') || (isName(target) && isName(next)));
+        const hasRename =
+          isWord(operation, 'RENAME') && (isWord(target, 'TO') || isWord(target, 'COLUMN'));
+        const hasDropColumn = isWord(operation, 'DROP') && isWord(target, 'COLUMN');
+        return hasAddColumn || hasRename || hasDropColumn;
       },
       {
         message:
@@ -97,7 +93,20 @@ export const AlterTableInputSchema = z.object({
     .boolean()
     .optional()
     .default(false)
-    .describe('Whether to add IF EXISTS clause to prevent errors if table does not exist')
+    .describe('Whether to add IF EXISTS clause to prevent errors if table does not exist'),
+  timeoutMs: QueryTimeoutSchema,
+  database: DatabaseNameSchema
 });
 
 export type AlterTableInput = z.infer<typeof AlterTableInputSchema>;
+
+/**
+ * Structured output of alter-table
+ */
+export const AlterTableOutputSchema = z.object({
+  tableName: z.string(),
+  operation: z.string().describe('ADD COLUMN, RENAME TABLE, RENAME COLUMN, DROP COLUMN or unknown'),
+  metrics: QueryMetricsSchema
+});
+
+export type AlterTableOutput = z.infer<typeof AlterTableOutputSchema>;
@@ -0,0 +1,24 @@
+import { z } from 'zod';
+import { DatabaseNameSchema } from './common.js';
+
+/**
+ * Input schema for begin-transaction tool
+ * Selects the database to open the transaction on
+ */
+export const BeginTransactionInputSchema = z.object({
+  database: DatabaseNameSchema
+});
+
+export type BeginTransactionInput = z.infer<typeof BeginTransactionInputSchema>;
+
+/**
+ * Structured output of begin-transaction
+ */
+export const BeginTransactionOutputSchema = z.object({
+  transactionId: z.string(),
+  idleTimeout: z
+    .number()
+    .describe('Milliseconds without a call before the transaction is rolled back')
+});
+
+export type BeginTransactionOutput = z.infer<typeof BeginTransactionOutputSchema>;
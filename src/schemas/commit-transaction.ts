@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { DatabaseNameSchema, TransactionIdSchema } from './common.js';
+
+/**
+ * Input schema for commit-transaction tool
+ * The database must be the one the transaction was started on
+ */
+export const CommitTransactionInputSchema = z.object({
+  transactionId: TransactionIdSchema,
+  database: DatabaseNameSchema
+});
+
+export type CommitTransactionInput = z.infer<typeof CommitTransactionInputSchema>;
+
+/**
+ * Structured output of commit-transaction
+ */
+export const CommitTransactionOutputSchema = z.object({
+  transactionId: z.string(),
+  status: z.enum(['committed'])
+});
+
+export type CommitTransactionOutput = z.infer<typeof CommitTransactionOutputSchema>;
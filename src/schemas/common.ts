@@ -0,0 +1,52 @@
+import { z } from 'zod';
+
+/**
+ * Optional database name shared by every tool input schema
+ * Selects one of the databases configured with --db, or the default database when omitted
+ */
+export const DatabaseNameSchema = z
+  .string()
+  .min(1, 'Database name cannot be empty')
+  .optional()
+  .describe('Name of the database to run against (defaults to the default database)');
+
+/**
+ * Optional per-call query timeout shared by the query tools
+ * Overrides the configured --query-timeout for this call only
+ */
+export const QueryTimeoutSchema = z
+  .number()
+  .int('Timeout must be a whole number of milliseconds')
+  .min(100, 'Timeout must be at least 100ms')
+  .max(600000, 'Timeout cannot exceed 600,000ms (10 minutes)')
+  .optional()
+  .describe('Query timeout in milliseconds for this call (defaults to the configured timeout)');
+
+/**
+ * Id returned by begin-transaction
+ */
+export const TransactionIdSchema = z
+  .string()
+  .uuid('Invalid transaction id')
+  .describe('Id of an open transaction, as returned by begin-transaction');
+
+/**
+ * Performance metrics in the structured output of the query tools
+ */
+export const QueryMetricsSchema = z.object({
+  executionTime: z.number().describe('Execution time in milliseconds'),
+  rowsReturned: z.number().optional(),
+  rowsAffected: z.number().optional(),
+  retries: z
+    .number()
+    .optional()
+    .describe('Attempts that failed with a transient error and were retried'),
+  queryPlan: z.string().optional().describe('Rendered EXPLAIN QUERY PLAN tree, when requested')
+});
+
+/**
+ * rowid of the last inserted row, a string because rowids can exceed Number.MAX_SAFE_INTEGER
+ */
+export const LastInsertRowidSchema = z
+  .union([z.string(), z.null()])
+  .describe('rowid of the last inserted row, null when the statement inserted nothing');
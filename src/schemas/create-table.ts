@@ -1,4 +1,7 @@
 import { z } from 'zod';
+import { QUERY_TYPES } from '../lib/constants.js';
+import { analyzeSql, isName, isSymbol, isSystemTable, isWord } from '../utils/sql-tokenizer.js';
+import { DatabaseNameSchema, QueryMetricsSchema, QueryTimeoutSchema } from './common.js';
 
 /**
  * Input schema for create-table tool
@@ -9,70 +12,62 @@ export const CreateTableInputSchema = z.object({
     .string()
     .min(1, 'Query cannot be empty')
     .max(10000, 'Query too long (max 10,000 characters)')
+    .refine(query => analyzeSql(query).type === QUERY_TYPES.CREATE_TABLE, {
+      message: 'Only CREATE TABLE statements are allowed'
+    })
     .refine(
       query => {
-        const trimmed = query.trim().toLowerCase();
-        return trimmed.startsWith('create table');
-      },
-      {
-        message: 'Only CREATE TABLE statements are allowed'
-      }
-    )
-    .refine(
-      query => {
-        // Check for dangerous patterns that shouldn't be in DDL
+        // Check for keywords that shouldn't be in DDL, outside string literals, quoted
+        // identifiers and comments, or called as functions. ON DELETE and ON UPDATE are
+        // foreign key actions.
         const prohibited = [
-          'pragma',
-          'attach',
-          'detach',
-          'drop',
-          'delete',
-          'insert',
-          'update',
-          'truncate',
-          'vacuum',
-          'reindex',
-          'exec',
-          'execute'
+          'PRAGMA',
+          'ATTACH',
+          'DETACH',
+          'DROP',
+          'DELETE',
+          'INSERT',
+          'UPDATE',
+          'VACUUM',
+          'REINDEX'
         ];
-        const lowerQuery = query.toLowerCase();
-        return !prohibited.some(pattern => lowerQuery.includes(pattern));
+        const { words, functions } = analyzeSql(query);
+        return (
+          !words.some(
+            (word, i) =>
+              prohibited.includes(word) &&
+              !((word === 'DELETE' || word === 'UPDATE') && words[i - 1] === 'ON')
+          ) && !functions.some(name => prohibited.includes(name))
+        );
       },
       {
         message: 'Query contains prohibited operations'
       }
     )
+    .refine(query => !analyzeSql(query).tables.some(isSystemTable), {
+      message: 'Query attempts to access system tables'
+    })
+    .refine(query => !analyzeSql(query).hasSemicolon, {
+      message: 'Multi-statement queries are not allowed'
+    })
     .refine(
       query => {
-        // Prevent queries that try to access sensitive system tables
-        const systemTables = ['sqlite_master', 'sqlite_temp_master', 'sqlite_sequence'];
-        const lowerQuery = query.toLowerCase();
-        return !systemTables.some(table => lowerQuery.includes(table));
-      },
-      {
-        message: 'Query attempts to access system tables'
-      }
-    )
-    .refine(
-      query => {
-        // Check for multi-statement patterns - semicolon is the key indicator
-        return !query.includes(';');
-      },
-      {
-        message: 'Multi-statement queries are not allowed'
-      }
-    )
-    .refine(
-      query => {
-        // Basic CREATE TABLE syntax validation
-        const lowerQuery = query.toLowerCase();
-        // Must contain table name and column definitions
-        const hasTableName = /create\s+table\s+(?:if\s+not\s+exists\s+)?[\w"`[\]]+\s*\(/i.test(
-          query
+        // Basic CREATE TABLE syntax validation: a table name followed by parenthesised
+        // column definitions, outside string literals and comments
+        const code = analyzeSql(query).tokens.filter(token => token.type !== 'comment');
+        let i = 2;
+        if (isWord(code[i], 'IF') && isWord(code[i + 1], 'NOT') && isWord(code[i + 2], 'EXISTS')) {
+          i += 3;
+        }
+        if (isName(code[i]) && isSymbol(code[i + 1], '.')) {
+          i += 2;
+        }
+        return (
+          isName(code[i]) &&
+          isSymbol(code[i + 1], '(') &&
+          isName(code[i + 2]) &&
+          code.slice(i + 3).some(token => isSymbol(token, ')'))
         );
-        const hasColumns = /\(\s*\w+/i.test(query);
-        const hasClosingParen = lowerQuery.includes(')');
-        return hasTableName && hasColumns && hasClosingParen;
       },
       {
         message: 'Invalid CREATE TABLE syntax - must include table name and column definitions'
@@ -94,7 +89,19 @@ export const CreateTableInputSchema = z.object({
     .boolean()
     .optional()
     .default(false)
-    .describe('Whether to add IF NOT EXISTS clause to prevent errors if table already exists')
+    .describe('Whether to add IF NOT EXISTS clause to prevent errors if table already exists'),
+  timeoutMs: QueryTimeoutSchema,
+  database: DatabaseNameSchema
 });
 
 export type CreateTableInput = z.infer<typeof CreateTableInputSchema>;
+
+/**
+ * Structured output of create-table
+ */
+export const CreateTableOutputSchema = z.object({
+  tableName: z.string(),
+  metrics: QueryMetricsSchema
+});
+
+export type CreateTableOutput = z.infer<typeof CreateTableOutputSchema>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { DatabaseNameSchema, QueryMetricsSchema } from './common.js';
 
 /**
  * Input schema for describe-table tool
@@ -49,7 +50,50 @@ export const DescribeTableInputSchema = z.object({
     .enum(['table', 'json'])
     .optional()
     .default('table')
-    .describe('Output format - table for human-readable, json for structured data')
+    .describe('Output format - table for human-readable, json for structured data'),
+  database: DatabaseNameSchema
 });
 
 export type DescribeTableInput = z.infer<typeof DescribeTableInputSchema>;
+
+/**
+ * Structured output of describe-table, columns as returned by PRAGMA table_info and
+ * indexes and foreign keys as read by schema-introspection.ts
+ */
+export const DescribeTableOutputSchema = z.object({
+  table: z.object({
+    name: z.string(),
+    sql: z.union([z.string(), z.null()]),
+    columns: z.array(
+      z.object({
+        cid: z.number(),
+        name: z.string(),
+        type: z.string(),
+        notnull: z.number(),
+        dflt_value: z.unknown(),
+        pk: z.number()
+      })
+    ),
+    indexes: z.array(
+      z.object({
+        name: z.string(),
+        unique: z.boolean(),
+        origin: z.string(),
+        partial: z.boolean(),
+        columns: z.array(z.string())
+      })
+    ),
+    foreignKeys: z.array(
+      z.object({
+        from: z.string(),
+        table: z.string(),
+        to: z.string(),
+        on_update: z.string(),
+        on_delete: z.string()
+      })
+    )
+  }),
+  metrics: QueryMetricsSchema
+});
+
+export type DescribeTableOutput = z.infer<typeof DescribeTableOutputSchema>;
@@ -0,0 +1,50 @@
+import { z } from 'zod';
+import {
+  DatabaseNameSchema,
+  LastInsertRowidSchema,
+  QueryMetricsSchema,
+  QueryTimeoutSchema,
+  TransactionIdSchema
+} from './common.js';
+import { WriteQueryInputSchema } from './write-query.js';
+
+/**
+ * One statement of a batch, validated with the same rules as write-query
+ */
+export const BatchStatementSchema = WriteQueryInputSchema.pick({
+  query: true,
+  parameters: true
+});
+
+/**
+ * Input schema for execute-batch tool
+ * Validates every statement of the batch before any of them runs
+ */
+export const ExecuteBatchInputSchema = z.object({
+  statements: z
+    .array(BatchStatementSchema)
+    .min(1, 'Batch must contain at least one statement')
+    .max(100, 'Too many statements (max 100)')
+    .describe('INSERT, UPDATE or DELETE statements to run in order as one transaction'),
+  timeoutMs: QueryTimeoutSchema,
+  transactionId: TransactionIdSchema.optional(),
+  database: DatabaseNameSchema
+});
+
+export type ExecuteBatchInput = z.infer<typeof ExecuteBatchInputSchema>;
+
+/**
+ * Structured output of execute-batch, one result per statement in order
+ */
+export const ExecuteBatchOutputSchema = z.object({
+  results: z.array(
+    z.object({
+      rowsAffected: z.number(),
+      lastInsertRowid: LastInsertRowidSchema
+    })
+  ),
+  totalRowsAffected: z.number(),
+  metrics: QueryMetricsSchema
+});
+
+export type ExecuteBatchOutput = z.infer<typeof ExecuteBatchOutputSchema>;
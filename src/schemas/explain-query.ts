@@ -0,0 +1,62 @@
+import { z } from 'zod';
+import { QUERY_TYPES } from '../lib/constants.js';
+import { analyzeSql } from '../utils/sql-tokenizer.js';
+import { DatabaseNameSchema, QueryMetricsSchema, QueryTimeoutSchema } from './common.js';
+import { ReadQueryInputSchema } from './read-query.js';
+import { WriteQueryInputSchema } from './write-query.js';
+
+/**
+ * Input schema for explain-query tool
+ * Accepts the statements read-query and write-query accept, validated the same way
+ */
+export const ExplainQueryInputSchema = z.object({
+  query: z.string().superRefine((query, ctx) => {
+    const { type } = analyzeSql(query);
+    const statementSchema =
+      type === QUERY_TYPES.SELECT
+        ? ReadQueryInputSchema.shape.query
+        : type === QUERY_TYPES.INSERT || type === QUERY_TYPES.UPDATE || type === QUERY_TYPES.DELETE
+          ? WriteQueryInputSchema.shape.query
+          : null;
+
+    if (!statementSchema) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: 'Only SELECT, INSERT, UPDATE and DELETE queries can be explained'
+      });
+      return;
+    }
+
+    for (const issue of statementSchema.safeParse(query).error?.issues ?? []) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: issue.message });
+    }
+  }),
+  parameters: ReadQueryInputSchema.shape.parameters,
+  timeoutMs: QueryTimeoutSchema,
+  database: DatabaseNameSchema
+});
+
+export type ExplainQueryInput = z.infer<typeof ExplainQueryInputSchema>;
+
+/**
+ * Structured output of explain-query
+ */
+export const ExplainQueryOutputSchema = z.object({
+  plan: z.array(
+    z.object({
+      id: z.number(),
+      parent: z.number().describe('id of the enclosing step, 0 at the top level'),
+      detail: z.string()
+    })
+  ),
+  warnings: z.array(
+    z.object({
+      type: z.enum(['full-scan', 'temp-b-tree']),
+      detail: z.string(),
+      message: z.string()
+    })
+  ),
+  metrics: QueryMetricsSchema
+});
+
+export type ExplainQueryOutput = z.infer<typeof ExplainQueryOutputSchema>;
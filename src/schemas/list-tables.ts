@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { DatabaseNameSchema, QueryMetricsSchema } from './common.js';
 
 /**
  * Input schema for list-tables tool
@@ -37,7 +38,27 @@ export const ListTablesInputSchema = z.object({
     .default('list')
     .describe(
       'Output format - table for detailed view, json for structured data, list for simple names'
-    )
+    ),
+  database: DatabaseNameSchema
 });
 
 export type ListTablesInput = z.infer<typeof ListTablesInputSchema>;
+
+/**
+ * Structured output of list-tables
+ */
+export const ListTablesOutputSchema = z.object({
+  objects: z.array(
+    z.object({
+      name: z.string(),
+      type: z.enum(['table', 'view', 'index']),
+      sql: z.union([z.string(), z.null()]),
+      rowCount: z.union([z.number(), z.null()]),
+      columnCount: z.union([z.number(), z.null()])
+    })
+  ),
+  totalCount: z.number(),
+  metrics: QueryMetricsSchema
+});
+
+export type ListTablesOutput = z.infer<typeof ListTablesOutputSchema>;
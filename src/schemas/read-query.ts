@@ -1,4 +1,12 @@
 import { z } from 'zod';
+import { QUERY_TYPES } from '../lib/constants.js';
+import { analyzeSql, isSystemTable } from '../utils/sql-tokenizer.js';
+import {
+  DatabaseNameSchema,
+  QueryMetricsSchema,
+  QueryTimeoutSchema,
+  TransactionIdSchema
+} from './common.js';
 
 /**
  * Input schema for read-query tool
@@ -9,72 +17,104 @@ export const ReadQueryInputSchema = z.object({
     .string()
     .min(1, 'Query cannot be empty')
     .max(10000, 'Query too long (max 10,000 characters)')
+    .refine(query => analyzeSql(query).type === QUERY_TYPES.SELECT, {
+      message: 'Only SELECT queries are allowed for read operations'
+    })
     .refine(
       query => {
-        const trimmed = query.trim().toLowerCase();
-        return trimmed.startsWith('select');
-      },
-      {
-        message: 'Only SELECT queries are allowed for read operations'
-      }
-    )
-    .refine(
-      query => {
-        // Check for common dangerous patterns
+        // Check for dangerous keywords and functions; words inside string literals,
+        // quoted identifiers and comments do not count, but comments are not allowed.
+        // Functions are also checked by name, as SQLite calls "randomblob"(1) too
         const dangerous = [
-          'pragma',
-          'attach',
-          'detach',
-          'drop',
-          'delete',
-          'update',
-          'insert',
-          'create',
-          'alter',
-          'truncate',
-          'union',
-          'except',
-          'intersect',
-          '--',
-          '/*',
-          '*/',
-          'load_extension',
-          'randomblob'
+          'PRAGMA',
+          'ATTACH',
+          'DETACH',
+          'DROP',
+          'DELETE',
+          'UPDATE',
+          'INSERT',
+          'CREATE',
+          'ALTER',
+          'UNION',
+          'EXCEPT',
+          'INTERSECT',
+          'LOAD_EXTENSION',
+          'RANDOMBLOB',
+          'ZEROBLOB'
         ];
-        const lowerQuery = query.toLowerCase();
-        return !dangerous.some(pattern => lowerQuery.includes(pattern));
+        const { words, functions, hasComments } = analyzeSql(query);
+        return !hasComments && ![...words, ...functions].some(word => dangerous.includes(word));
       },
       {
         message: 'Query contains prohibited operations'
       }
     )
-    .refine(
-      query => {
-        // Check for system table access
-        const systemTables = ['sqlite_master', 'sqlite_temp_master', 'sqlite_sequence', 'pragma_'];
-        const lowerQuery = query.toLowerCase();
-        return !systemTables.some(table => lowerQuery.includes(table));
-      },
-      {
-        message: 'Query attempts to access system tables'
-      }
-    )
-    .refine(
-      query => {
-        // Check for multi-statement patterns - semicolon is the key indicator
-        return !query.includes(';');
-      },
-      {
-        message: 'Multi-statement queries are not allowed'
-      }
-    ),
+    .refine(query => !analyzeSql(query).tables.some(isSystemTable), {
+      message: 'Query attempts to access system tables'
+    })
+    .refine(query => !analyzeSql(query).hasSemicolon, {
+      message: 'Multi-statement queries are not allowed'
+    }),
   parameters: z
     .array(z.union([z.string(), z.number(), z.boolean(), z.null()]))
     .optional()
     .default([])
     .refine(params => params.length <= 100, {
       message: 'Too many parameters (max 100)'
-    })
+    }),
+  pageSize: z
+    .number()
+    .int('Page size must be a whole number of rows')
+    .min(1, 'Page size must be at least 1')
+    .max(1000, 'Page size cannot exceed 1,000 rows')
+    .optional()
+    .describe('Return results in pages of this many rows, with a cursor for the next page'),
+  cursor: z
+    .string()
+    .min(1, 'Cursor cannot be empty')
+    .max(1000, 'Cursor too long')
+    .optional()
+    .describe(
+      'Cursor returned by a previous call, to fetch the next page; repeat the same query and parameters'
+    ),
+  format: z
+    .enum(['table', 'json', 'csv', 'markdown', 'ndjson'])
+    .optional()
+    .default('table')
+    .describe(
+      'Output format - table for human-readable, json for columns with their types, rows and metrics, csv, markdown, or ndjson for one JSON object per row'
+    ),
+  includePlan: z
+    .boolean()
+    .optional()
+    .default(false)
+    .describe('Also return the EXPLAIN QUERY PLAN tree of the query in the metrics'),
+  timeoutMs: QueryTimeoutSchema,
+  transactionId: TransactionIdSchema.optional(),
+  database: DatabaseNameSchema
 });
 
 export type ReadQueryInput = z.infer<typeof ReadQueryInputSchema>;
+
+/**
+ * Structured output of read-query, the same in every format
+ */
+export const ReadQueryOutputSchema = z.object({
+  columns: z.array(
+    z.object({
+      name: z.string(),
+      type: z.union([z.string(), z.null()]).describe('Declared column type, null for expressions')
+    })
+  ),
+  rows: z.array(z.record(z.unknown())).describe('Rows as objects keyed by column name'),
+  rowCount: z.number(),
+  page: z
+    .object({
+      firstRow: z.number().describe('Position of the first row of the page, from 1'),
+      nextCursor: z.string().optional().describe('Cursor for the next page, absent on the last')
+    })
+    .optional(),
+  metrics: QueryMetricsSchema
+});
+
+export type ReadQueryOutput = z.infer<typeof ReadQueryOutputSchema>;
@@ -0,0 +1,23 @@
+import { z } from 'zod';
+import { DatabaseNameSchema, TransactionIdSchema } from './common.js';
+
+/**
+ * Input schema for rollback-transaction tool
+ * The database must be the one the transaction was started on
+ */
+export const RollbackTransactionInputSchema = z.object({
+  transactionId: TransactionIdSchema,
+  database: DatabaseNameSchema
+});
+
+export type RollbackTransactionInput = z.infer<typeof RollbackTransactionInputSchema>;
+
+/**
+ * Structured output of rollback-transaction
+ */
+export const RollbackTransactionOutputSchema = z.object({
+  transactionId: z.string(),
+  status: z.enum(['rolled-back'])
+});
+
+export type RollbackTransactionOutput = z.infer<typeof RollbackTransactionOutputSchema>;
@@ -0,0 +1,25 @@
+import { z } from 'zod';
+import { DatabaseNameSchema, QueryMetricsSchema } from './common.js';
+
+/**
+ * Input schema for sync-database tool
+ * Selects the embedded replica to sync with its primary
+ */
+export const SyncDatabaseInputSchema = z.object({
+  database: DatabaseNameSchema
+});
+
+export type SyncDatabaseInput = z.infer<typeof SyncDatabaseInputSchema>;
+
+/**
+ * Structured output of sync-database
+ */
+export const SyncDatabaseOutputSchema = z.object({
+  framesSynced: z.number(),
+  frameNo: z
+    .union([z.number(), z.null()])
+    .describe('Replication frame the replica is at, null when there was nothing to sync'),
+  metrics: QueryMetricsSchema
+});
+
+export type SyncDatabaseOutput = z.infer<typeof SyncDatabaseOutputSchema>;
@@ -1,4 +1,13 @@
 import { z } from 'zod';
+import { QUERY_TYPES } from '../lib/constants.js';
+import { analyzeSql, isSystemTable } from '../utils/sql-tokenizer.js';
+import {
+  DatabaseNameSchema,
+  LastInsertRowidSchema,
+  QueryMetricsSchema,
+  QueryTimeoutSchema,
+  TransactionIdSchema
+} from './common.js';
 
 /**
  * Input schema for write-query tool
@@ -11,9 +20,12 @@ export const WriteQueryInputSchema = z.object({
     .max(10000, 'Query too long (max 10,000 characters)')
     .refine(
       query => {
-        const trimmed = query.trim().toLowerCase();
-        const writeOperations = ['insert', 'update', 'delete'];
-        return writeOperations.some(op => trimmed.startsWith(op));
+        const writeOperations: (string | undefined)[] = [
+          QUERY_TYPES.INSERT,
+          QUERY_TYPES.UPDATE,
+          QUERY_TYPES.DELETE
+        ];
+        return writeOperations.includes(analyzeSql(query).type);
       },
       {
         message: 'Only INSERT, UPDATE, DELETE queries are allowed for write operations'
@@ -21,21 +33,20 @@ export const WriteQueryInputSchema = z.object({
     )
     .refine(
       query => {
-        // Check for dangerous patterns that shouldn't be in write queries
+        // Check for keywords that shouldn't be in write queries, outside string literals,
+        // quoted identifiers and comments, and for functions of the same name
         const prohibited = [
-          'pragma',
-          'attach',
-          'detach',
-          'drop database',
-          'drop table',
-          'create',
-          'alter',
-          'truncate',
-          'vacuum',
-          'reindex'
+          'PRAGMA',
+          'ATTACH',
+          'DETACH',
+          'DROP',
+          'CREATE',
+          'ALTER',
+          'VACUUM',
+          'REINDEX'
         ];
-        const lowerQuery = query.toLowerCase();
-        return !prohibited.some(pattern => lowerQuery.includes(pattern));
+        const { words, functions } = analyzeSql(query);
+        return ![...words, ...functions].some(word => prohibited.includes(word));
       },
       {
         message: 'Query contains prohibited operations'
@@ -44,9 +55,7 @@ export const WriteQueryInputSchema = z.object({
     .refine(
       query => {
         // Prevent queries that try to read from sensitive system tables
-        const systemTables = ['sqlite_master', 'sqlite_temp_master', 'sqlite_sequence', 'pragma_'];
-        const lowerQuery = query.toLowerCase();
-        return !systemTables.some(table => lowerQuery.includes(table));
+        return !analyzeSql(query).tables.some(isSystemTable);
       },
       {
         message: 'Query attempts to access system tables'
@@ -63,7 +72,21 @@ export const WriteQueryInputSchema = z.object({
     .boolean()
     .optional()
     .default(true)
-    .describe('Whether to wrap the query in a transaction for automatic rollback on errors')
+    .describe('Whether to wrap the query in a transaction for automatic rollback on errors'),
+  timeoutMs: QueryTimeoutSchema,
+  transactionId: TransactionIdSchema.optional(),
+  database: DatabaseNameSchema
 });
 
 export type WriteQueryInput = z.infer<typeof WriteQueryInputSchema>;
+
+/**
+ * Structured output of write-query
+ */
+export const WriteQueryOutputSchema = z.object({
+  rowsAffected: z.number(),
+  lastInsertRowid: LastInsertRowidSchema,
+  metrics: QueryMetricsSchema
+});
+
+export type WriteQueryOutput = z.infer<typeof WriteQueryOutputSchema>;
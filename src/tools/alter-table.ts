@@ -1,12 +1,19 @@
 import { BaseTool, type ToolExecutionContext, type ToolExecutionResult } from '../lib/base-tool.js';
 import { formatPerformanceMetrics } from '../utils/performance.js';
-import { AlterTableInputSchema, type AlterTableInput } from '../schemas/alter-table.js';
+import {
+  AlterTableInputSchema,
+  AlterTableOutputSchema,
+  type AlterTableInput,
+  type AlterTableOutput
+} from '../schemas/alter-table.js';
 
 export class AlterTableTool extends BaseTool {
   readonly name = 'alter-table';
   readonly description =
     'Execute ALTER TABLE DDL statements on the libSQL database. Supports adding columns, renaming tables/columns, and dropping columns with transaction support for safety.';
   readonly inputSchema = AlterTableInputSchema;
+  override readonly outputSchema = AlterTableOutputSchema;
+  override readonly modifiesSchema = true;
 
   protected async executeImpl(context: ToolExecutionContext): Promise<ToolExecutionResult> {
     const { query, parameters, useTransaction, ifExists } = context.arguments as AlterTableInput;
@@ -47,10 +54,8 @@ export class AlterTableTool extends BaseTool {
 
       const executionTime = Date.now() - startTime;
 
-      const metrics = formatPerformanceMetrics({
-        executionTime,
-        rowsAffected: result.rowsAffected
-      });
+      const queryMetrics = { executionTime, rowsAffected: result.rowsAffected };
+      const metrics = formatPerformanceMetrics(queryMetrics);
 
       // Extract table name and operation from query for user feedback
       const { tableName, operation } = this.extractTableInfo(processedQuery);
@@ -69,13 +74,20 @@ export class AlterTableTool extends BaseTool {
 
       output += `\n${metrics}`;
 
+      const structuredContent: AlterTableOutput = {
+        tableName,
+        operation,
+        metrics: queryMetrics
+      };
+
       return {
         content: [
           {
             type: 'text',
             text: output
           }
-        ]
+        ],
+        structuredContent
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
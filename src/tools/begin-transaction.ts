@@ -0,0 +1,53 @@
+import { BaseTool, type ToolExecutionContext, type ToolExecutionResult } from '../lib/base-tool.js';
+import {
+  BeginTransactionInputSchema,
+  BeginTransactionOutputSchema,
+  type BeginTransactionOutput
+} from '../schemas/begin-transaction.js';
+
+export class BeginTransactionTool extends BaseTool {
+  readonly name = 'begin-transaction';
+  readonly description =
+    'Start a write transaction that spans several tool calls, so reads and writes can be checked and applied atomically. Returns a transaction ID to pass to read-query and write-query, then end it with commit-transaction or rollback-transaction. Idle transactions are rolled back automatically.';
+  readonly inputSchema = BeginTransactionInputSchema;
+  override readonly outputSchema = BeginTransactionOutputSchema;
+
+  protected async executeImpl(context: ToolExecutionContext): Promise<ToolExecutionResult> {
+    try {
+      if (!context.transactions) {
+        throw new Error('Transactions are not available');
+      }
+
+      const { transactionId, idleTimeout } = await context.transactions.begin();
+
+      let output = 'Transaction started\n\n';
+      output += `Transaction ID: ${transactionId}\n\n`;
+      output +=
+        'Pass this transactionId to read-query and write-query to run them inside the transaction, then call commit-transaction or rollback-transaction.\n';
+      output += `The transaction is rolled back automatically after ${Math.round(idleTimeout / 1000)} seconds without a call.`;
+
+      const structuredContent: BeginTransactionOutput = { transactionId, idleTimeout };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: output
+          }
+        ],
+        structuredContent
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error starting transaction: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+}
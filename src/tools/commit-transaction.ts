@@ -0,0 +1,51 @@
+import { BaseTool, type ToolExecutionContext, type ToolExecutionResult } from '../lib/base-tool.js';
+import {
+  CommitTransactionInputSchema,
+  CommitTransactionOutputSchema,
+  type CommitTransactionInput,
+  type CommitTransactionOutput
+} from '../schemas/commit-transaction.js';
+
+export class CommitTransactionTool extends BaseTool {
+  readonly name = 'commit-transaction';
+  readonly description =
+    'Commit a transaction started with begin-transaction, making all of its writes permanent and ending it.';
+  readonly inputSchema = CommitTransactionInputSchema;
+  override readonly outputSchema = CommitTransactionOutputSchema;
+  override readonly supportsTransactions = true;
+
+  protected async executeImpl(context: ToolExecutionContext): Promise<ToolExecutionResult> {
+    const { transactionId } = context.arguments as CommitTransactionInput;
+
+    try {
+      if (!context.transactions) {
+        throw new Error('Transactions are not available');
+      }
+
+      await context.transactions.commit(transactionId);
+
+      const structuredContent: CommitTransactionOutput = { transactionId, status: 'committed' };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Transaction ${transactionId} committed`
+          }
+        ],
+        structuredContent
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error committing transaction: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+}
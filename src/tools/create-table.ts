@@ -1,12 +1,19 @@
 import { BaseTool, type ToolExecutionContext, type ToolExecutionResult } from '../lib/base-tool.js';
 import { formatPerformanceMetrics } from '../utils/performance.js';
-import { CreateTableInputSchema, type CreateTableInput } from '../schemas/create-table.js';
+import {
+  CreateTableInputSchema,
+  CreateTableOutputSchema,
+  type CreateTableInput,
+  type CreateTableOutput
+} from '../schemas/create-table.js';
 
 export class CreateTableTool extends BaseTool {
   readonly name = 'create-table';
   readonly description =
     'Execute CREATE TABLE DDL statements on the libSQL database. Supports table creation with automatic IF NOT EXISTS handling and transaction support for safety.';
   readonly inputSchema = CreateTableInputSchema;
+  override readonly outputSchema = CreateTableOutputSchema;
+  override readonly modifiesSchema = true;
 
   protected async executeImpl(context: ToolExecutionContext): Promise<ToolExecutionResult> {
     const { query, parameters, useTransaction, ifNotExists } =
@@ -44,10 +51,8 @@ export class CreateTableTool extends BaseTool {
 
       const executionTime = Date.now() - startTime;
 
-      const metrics = formatPerformanceMetrics({
-        executionTime,
-        rowsAffected: result.rowsAffected
-      });
+      const queryMetrics = { executionTime, rowsAffected: result.rowsAffected };
+      const metrics = formatPerformanceMetrics(queryMetrics);
 
       // Extract table name from query for user feedback
       const tableName = this.extractTableName(processedQuery);
@@ -65,13 +70,16 @@ export class CreateTableTool extends BaseTool {
 
       output += `\n${metrics}`;
 
+      const structuredContent: CreateTableOutput = { tableName, metrics: queryMetrics };
+
       return {
         content: [
           {
             type: 'text',
             text: output
           }
-        ]
+        ],
+        structuredContent
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
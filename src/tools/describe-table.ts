@@ -1,12 +1,20 @@
 import { BaseTool, type ToolExecutionContext, type ToolExecutionResult } from '../lib/base-tool.js';
 import { formatPerformanceMetrics } from '../utils/performance.js';
-import { DescribeTableInputSchema, type DescribeTableInput } from '../schemas/describe-table.js';
+import { describeSchemaObject, getForeignKeys, getIndexes } from '../utils/schema-introspection.js';
+import {
+  DescribeTableInputSchema,
+  DescribeTableOutputSchema,
+  type DescribeTableInput,
+  type DescribeTableOutput
+} from '../schemas/describe-table.js';
 
 export class DescribeTableTool extends BaseTool {
   readonly name = 'describe-table';
   readonly description =
     'Get comprehensive schema information for a specific table including columns, indexes, foreign keys, and constraints. Supports both human-readable and JSON output formats.';
   readonly inputSchema = DescribeTableInputSchema;
+  override readonly outputSchema = DescribeTableOutputSchema;
+  override readonly readOnly = true;
 
   protected async executeImpl(context: ToolExecutionContext): Promise<ToolExecutionResult> {
     const { tableName, includeIndexes, includeForeignKeys, format } =
@@ -18,18 +26,10 @@ export class DescribeTableTool extends BaseTool {
       // Sanitize table name for PRAGMA queries
       const sanitizedTableName = this.sanitizeTableName(tableName);
 
-      // First check if table exists
-      const tableExistsQuery = `
-        SELECT name, sql
-        FROM sqlite_master 
-        WHERE type='table' AND name=?
-      `;
+      // Look up the table and its columns
+      const table = await describeSchemaObject(context.connection, sanitizedTableName, ['table']);
 
-      const tableExistsResult = await context.connection.execute(tableExistsQuery, [
-        sanitizedTableName
-      ]);
-
-      if (tableExistsResult.rows.length === 0) {
+      if (!table) {
         return {
           content: [
             {
@@ -41,49 +41,23 @@ export class DescribeTableTool extends BaseTool {
         };
       }
 
-      // Get table schema information
-      const schemaQuery = `PRAGMA table_info("${sanitizedTableName}")`;
-      const schemaResult = await context.connection.execute(schemaQuery);
-
       const tableInfo = {
-        name: sanitizedTableName,
-        sql: tableExistsResult.rows[0].sql as string,
-        columns: schemaResult.rows,
-        indexes: [] as Array<Record<string, unknown>>,
-        foreignKeys: [] as Array<Record<string, unknown>>
+        name: table.name,
+        sql: table.sql,
+        columns: table.columns,
+        // Get table indexes and foreign keys if requested
+        indexes: includeIndexes ? await getIndexes(context.connection, table.name) : [],
+        foreignKeys: includeForeignKeys ? await getForeignKeys(context.connection, table.name) : []
       };
 
-      // Get table indexes if requested
-      if (includeIndexes) {
-        const indexQuery = `PRAGMA index_list("${sanitizedTableName}")`;
-        const indexResult = await context.connection.execute(indexQuery);
-
-        for (const index of indexResult.rows) {
-          const indexInfoQuery = `PRAGMA index_info("${index.name}")`;
-          const indexInfoResult = await context.connection.execute(indexInfoQuery);
-
-          tableInfo.indexes.push({
-            name: index.name,
-            unique: index.unique,
-            origin: index.origin,
-            partial: index.partial,
-            columns: indexInfoResult.rows
-          });
-        }
-      }
-
-      // Get foreign keys if requested
-      if (includeForeignKeys) {
-        const foreignKeyQuery = `PRAGMA foreign_key_list("${sanitizedTableName}")`;
-        const foreignKeyResult = await context.connection.execute(foreignKeyQuery);
-        tableInfo.foreignKeys = foreignKeyResult.rows;
-      }
-
       const executionTime = Date.now() - startTime;
 
-      const metrics = formatPerformanceMetrics({
-        executionTime
-      });
+      const queryMetrics = { executionTime, retries: context.queryStats?.retries };
+      const metrics = formatPerformanceMetrics(queryMetrics);
+      const structuredContent: DescribeTableOutput = {
+        table: tableInfo,
+        metrics: queryMetrics
+      };
 
       if (format === 'json') {
         return {
@@ -102,7 +76,8 @@ export class DescribeTableTool extends BaseTool {
                 2
               )
             }
-          ]
+          ],
+          structuredContent
         };
       }
 
@@ -121,7 +96,7 @@ export class DescribeTableTool extends BaseTool {
       output += '│ Name            │ Type            │ Not Null│ Default     │ Primary Key │\n';
       output += '├─────────────────┼─────────────────┼─────────┼─────────────┼─────────────┤\n';
 
-      for (const row of schemaResult.rows) {
+      for (const row of tableInfo.columns) {
         const name = String(row.name || '').padEnd(15);
         const type = String(row.type || '').padEnd(15);
         const notNull = (row.notnull ? 'YES' : 'NO').padEnd(7);
@@ -136,11 +111,8 @@ export class DescribeTableTool extends BaseTool {
       if (includeIndexes && tableInfo.indexes.length > 0) {
         output += 'Indexes:\n';
         for (const index of tableInfo.indexes) {
-          const indexRecord = index as Record<string, unknown>;
-          const indexType = indexRecord['unique'] ? 'UNIQUE INDEX' : 'INDEX';
-          const columns = indexRecord['columns'] as Array<Record<string, unknown>>;
-          const columnNames = columns.map(col => col['name']).join(', ');
-          output += `- ${indexRecord['name']} (${indexType}) on (${columnNames})\n`;
+          const indexType = index.unique ? 'UNIQUE INDEX' : 'INDEX';
+          output += `- ${index.name} (${indexType}) on (${index.columns.join(', ')})\n`;
         }
         output += '\n';
       } else if (includeIndexes) {
@@ -151,8 +123,7 @@ export class DescribeTableTool extends BaseTool {
       if (includeForeignKeys && tableInfo.foreignKeys.length > 0) {
         output += 'Foreign Keys:\n';
         for (const fk of tableInfo.foreignKeys) {
-          const fkRecord = fk as Record<string, unknown>;
-          output += `- ${fkRecord['from']} → ${fkRecord['table']}.${fkRecord['to']} (${fkRecord['on_update']}/${fkRecord['on_delete']})\n`;
+          output += `- ${fk.from} → ${fk.table}.${fk.to} (${fk.on_update}/${fk.on_delete})\n`;
         }
         output += '\n';
       } else if (includeForeignKeys) {
@@ -167,7 +138,8 @@ export class DescribeTableTool extends BaseTool {
             type: 'text',
             text: output
           }
-        ]
+        ],
+        structuredContent
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -0,0 +1,93 @@
+import { BaseTool, type ToolExecutionContext, type ToolExecutionResult } from '../lib/base-tool.js';
+import { QUERY_TYPES } from '../lib/constants.js';
+import { formatPerformanceMetrics } from '../utils/performance.js';
+import { analyzeSql } from '../utils/sql-tokenizer.js';
+import {
+  ExecuteBatchInputSchema,
+  ExecuteBatchOutputSchema,
+  type ExecuteBatchInput,
+  type ExecuteBatchOutput
+} from '../schemas/execute-batch.js';
+import type { ResultSet } from '@libsql/client';
+
+export class ExecuteBatchTool extends BaseTool {
+  readonly name = 'execute-batch';
+  readonly description =
+    'Execute several INSERT, UPDATE, DELETE queries in order as one atomic unit: if any statement fails, none of them are applied. Returns affected rows and insert IDs for each statement. Supports parameterized queries for security.';
+  readonly inputSchema = ExecuteBatchInputSchema;
+  override readonly outputSchema = ExecuteBatchOutputSchema;
+  override readonly supportsTransactions = true;
+
+  protected async executeImpl(context: ToolExecutionContext): Promise<ToolExecutionResult> {
+    const { statements, transactionId } = context.arguments as ExecuteBatchInput;
+
+    try {
+      const startTime = Date.now();
+
+      const results: ResultSet[] = await context.connection.batch(
+        statements.map(({ query, parameters }) => ({ query, params: parameters }))
+      );
+
+      const executionTime = Date.now() - startTime;
+      const totalRowsAffected = results.reduce((total, result) => total + result.rowsAffected, 0);
+
+      const queryMetrics = { executionTime, rowsAffected: totalRowsAffected };
+      const metrics = formatPerformanceMetrics(queryMetrics);
+
+      let output = `Batch executed successfully (${results.length} statement${results.length === 1 ? '' : 's'})\n\n`;
+      const statementResults: ExecuteBatchOutput['results'] = [];
+
+      results.forEach((result, index) => {
+        output += `${index + 1}. Rows affected: ${result.rowsAffected}`;
+        // lastInsertRowid carries over from earlier statements, so only INSERTs report it
+        const isInsert = analyzeSql(statements[index]?.query ?? '').type === QUERY_TYPES.INSERT;
+        const hasInsertRowid =
+          isInsert && result.lastInsertRowid !== undefined && result.lastInsertRowid !== null;
+        if (hasInsertRowid) {
+          output += `, last insert row ID: ${result.lastInsertRowid}`;
+        }
+        output += '\n';
+
+        statementResults.push({
+          rowsAffected: result.rowsAffected,
+          lastInsertRowid: hasInsertRowid ? String(result.lastInsertRowid) : null
+        });
+      });
+
+      output += `\nTotal rows affected: ${totalRowsAffected}\n`;
+
+      if (transactionId) {
+        output += `\nNot visible outside transaction ${transactionId} until it is committed\n`;
+      }
+
+      output += `\n${metrics}`;
+
+      const structuredContent: ExecuteBatchOutput = {
+        results: statementResults,
+        totalRowsAffected,
+        metrics: queryMetrics
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: output
+          }
+        ],
+        structuredContent
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error executing batch: ${errorMessage} (no statements were applied)`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import { BaseTool, type ToolExecutionContext, type ToolExecutionResult } from '../lib/base-tool.js';
+import { formatPerformanceMetrics } from '../utils/performance.js';
+import { explainQueryPlan, findPlanWarnings, renderQueryPlan } from '../utils/query-plan.js';
+import {
+  ExplainQueryInputSchema,
+  ExplainQueryOutputSchema,
+  type ExplainQueryInput,
+  type ExplainQueryOutput
+} from '../schemas/explain-query.js';
+
+export class ExplainQueryTool extends BaseTool {
+  readonly name = 'explain-query';
+  readonly description =
+    'Show how the libSQL database would run a SELECT, INSERT, UPDATE or DELETE query, without running it. Renders the EXPLAIN QUERY PLAN tree and flags full table scans and temporary B-trees, the usual signs of a missing index.';
+  readonly inputSchema = ExplainQueryInputSchema;
+  override readonly outputSchema = ExplainQueryOutputSchema;
+  // Only plans the statement, so even writes are safe to explain on a read replica
+  override readonly readOnly = true;
+
+  protected async executeImpl(context: ToolExecutionContext): Promise<ToolExecutionResult> {
+    const { query, parameters } = context.arguments as ExplainQueryInput;
+
+    try {
+      const startTime = Date.now();
+      const plan = await explainQueryPlan(context.connection, query, parameters);
+      const executionTime = Date.now() - startTime;
+
+      const warnings = findPlanWarnings(plan);
+      const queryMetrics = { executionTime, retries: context.queryStats?.retries };
+      const metrics = formatPerformanceMetrics(queryMetrics);
+
+      let output = `${renderQueryPlan(plan)}\n\n`;
+
+      if (warnings.length > 0) {
+        output += 'Warnings:\n';
+        for (const warning of warnings) {
+          output += `- ${warning.message}\n`;
+        }
+      } else {
+        output += 'No full table scans or temporary B-trees.\n';
+      }
+
+      output += `\nPerformance: ${metrics}`;
+
+      const structuredContent: ExplainQueryOutput = { plan, warnings, metrics: queryMetrics };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: output
+          }
+        ],
+        structuredContent
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error explaining query: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+}
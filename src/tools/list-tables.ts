@@ -1,12 +1,25 @@
 import { BaseTool, type ToolExecutionContext, type ToolExecutionResult } from '../lib/base-tool.js';
 import { formatPerformanceMetrics } from '../utils/performance.js';
-import { ListTablesInputSchema, type ListTablesInput } from '../schemas/list-tables.js';
+import {
+  getColumns,
+  listSchemaObjects,
+  quoteIdentifier,
+  type SchemaObjectType
+} from '../utils/schema-introspection.js';
+import {
+  ListTablesInputSchema,
+  ListTablesOutputSchema,
+  type ListTablesInput,
+  type ListTablesOutput
+} from '../schemas/list-tables.js';
 
 export class ListTablesTool extends BaseTool {
   readonly name = 'list-tables';
   readonly description =
     'List all tables, views, and indexes in the libSQL database with optional filtering and detailed information. Supports multiple output formats and pattern matching.';
   readonly inputSchema = ListTablesInputSchema;
+  override readonly outputSchema = ListTablesOutputSchema;
+  override readonly readOnly = true;
 
   protected async executeImpl(context: ToolExecutionContext): Promise<ToolExecutionResult> {
     const { includeSystemTables, includeViews, includeIndexes, includeDetails, pattern, format } =
@@ -25,6 +38,17 @@ export class ListTablesTool extends BaseTool {
 
       const executionTime = Date.now() - startTime;
 
+      const queryMetrics = {
+        executionTime,
+        rowsReturned: objects.length,
+        retries: context.queryStats?.retries
+      };
+      const structuredContent: ListTablesOutput = {
+        objects: objects as ListTablesOutput['objects'],
+        totalCount: objects.length,
+        metrics: queryMetrics
+      };
+
       if (format === 'json') {
         return {
           content: [
@@ -49,20 +73,19 @@ export class ListTablesTool extends BaseTool {
                 2
               )
             }
-          ]
+          ],
+          structuredContent
         };
       }
 
-      const metrics = formatPerformanceMetrics({
-        executionTime,
-        rowsReturned: objects.length
-      });
+      const metrics = formatPerformanceMetrics(queryMetrics);
 
-      if (format === 'table' || includeDetails) {
-        return this.formatAsTable(objects, metrics);
-      } else {
-        return this.formatAsList(objects, metrics);
-      }
+      const result =
+        format === 'table' || includeDetails
+          ? this.formatAsTable(objects, metrics)
+          : this.formatAsList(objects, metrics);
+
+      return { ...result, structuredContent };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       return {
@@ -86,56 +109,33 @@ export class ListTablesTool extends BaseTool {
       pattern?: string;
     }
   ): Promise<unknown[]> {
-    const types = ['table'];
+    const types: SchemaObjectType[] = ['table'];
     if (options.includeViews) types.push('view');
     if (options.includeIndexes) types.push('index');
 
-    const whereConditions = [`type IN (${types.map(() => '?').join(', ')})`];
-    const params = [...types];
-
-    // System tables filter
-    if (!options.includeSystemTables) {
-      whereConditions.push("name NOT LIKE 'sqlite_%'");
-    }
-
-    // Pattern filter
-    if (options.pattern) {
-      whereConditions.push('name LIKE ?');
-      params.push(options.pattern);
-    }
-
-    const query = `
-      SELECT name, type, sql
-      FROM sqlite_master 
-      WHERE ${whereConditions.join(' AND ')}
-      ORDER BY type, name
-    `;
-
-    const result = await context.connection.execute(query, params);
+    const schemaObjects = await listSchemaObjects(context.connection, types, {
+      includeSystemTables: options.includeSystemTables,
+      ...(options.pattern && { pattern: options.pattern })
+    });
 
     const objects = [];
-    for (const row of result.rows) {
-      const rowRecord = row as Record<string, unknown>;
+    for (const schemaObject of schemaObjects) {
       const obj: Record<string, unknown> = {
-        name: rowRecord['name'],
-        type: rowRecord['type'],
-        sql: rowRecord['sql'],
+        ...schemaObject,
         rowCount: null,
         columnCount: null
       };
 
       // Get additional details for tables if requested
-      if (rowRecord['type'] === 'table') {
+      if (schemaObject.type === 'table') {
         try {
           // Get row count
-          const countQuery = `SELECT COUNT(*) as count FROM "${rowRecord['name']}"`;
+          const countQuery = `SELECT COUNT(*) as count FROM ${quoteIdentifier(schemaObject.name)}`;
           const countResult = await context.connection.execute(countQuery);
           obj['rowCount'] = (countResult.rows[0] as Record<string, unknown>)?.['count'] || 0;
 
           // Get column count
-          const columnsQuery = `PRAGMA table_info("${rowRecord['name']}")`;
-          const columnsResult = await context.connection.execute(columnsQuery);
-          obj['columnCount'] = columnsResult.rows.length;
+          obj['columnCount'] = (await getColumns(context.connection, schemaObject.name)).length;
         } catch {
           // If we can't get details, continue without them
           obj['rowCount'] = null;
@@ -1,66 +1,136 @@
 import { BaseTool, type ToolExecutionContext, type ToolExecutionResult } from '../lib/base-tool.js';
 import { formatPerformanceMetrics } from '../utils/performance.js';
-import { ReadQueryInputSchema, type ReadQueryInput } from '../schemas/read-query.js';
+import {
+  ReadQueryInputSchema,
+  ReadQueryOutputSchema,
+  type ReadQueryInput,
+  type ReadQueryOutput
+} from '../schemas/read-query.js';
 import { DEFAULT_CONFIG } from '../lib/constants.js';
-import type { ResultSet } from '@libsql/client';
+import {
+  decodeCursor,
+  getPaginationStrategy,
+  readPage,
+  type Page,
+  type PagePosition
+} from '../utils/pagination.js';
+import { explainQueryPlan, renderQueryPlan } from '../utils/query-plan.js';
+import {
+  formatCsv,
+  formatMarkdown,
+  formatNdjson,
+  toRecords,
+  toResultColumns
+} from '../utils/result-format.js';
+import type { ResultSet, Row } from '@libsql/client';
+
+/** Rows shown when a query is not paged */
+const MAX_DISPLAY_ROWS = 100;
 
 export class ReadQueryTool extends BaseTool {
   readonly name = 'read-query';
   readonly description = 'Execute SELECT queries on the libSQL database';
   readonly inputSchema = ReadQueryInputSchema;
+  override readonly outputSchema = ReadQueryOutputSchema;
+  override readonly readOnly = true;
+  override readonly supportsTransactions = true;
 
   protected async executeImpl(context: ToolExecutionContext): Promise<ToolExecutionResult> {
-    const { query, parameters } = context.arguments as ReadQueryInput;
+    const { query, parameters, pageSize, cursor, format, includePlan } =
+      context.arguments as ReadQueryInput;
 
     try {
       const startTime = Date.now();
+      const maxResultSize = context.maxResultSize ?? DEFAULT_CONFIG.maxResultSize;
 
-      // Execute query with timeout handling
-      const result = await Promise.race([
-        parameters && parameters.length > 0
-          ? context.connection.execute(query, parameters)
-          : context.connection.execute(query),
-        new Promise((_, reject) =>
-          setTimeout(() => reject(new Error(`Query timeout after ${DEFAULT_CONFIG.queryTimeout}ms`)), DEFAULT_CONFIG.queryTimeout)
-        )
-      ]) as ResultSet;
+      let columns: string[];
+      let columnTypes: string[];
+      let rows: Row[];
+      let page: Page | undefined;
 
-      const executionTime = Date.now() - startTime;
+      // The connection enforces the configured or per-call timeout
+      if (pageSize !== undefined || cursor !== undefined) {
+        page = await this.readPage(context, maxResultSize);
+        columns = page.columns;
+        columnTypes = page.columnTypes;
+        rows = page.rows;
+      } else {
+        const result: ResultSet =
+          parameters && parameters.length > 0
+            ? await context.connection.execute(query, parameters)
+            : await context.connection.execute(query);
+
+        // Check result size limit
+        if (result.rows.length > maxResultSize) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: `Error: Query result too large (${result.rows.length} rows, max ${maxResultSize}), use pageSize to fetch it in pages`
+              }
+            ],
+            isError: true
+          };
+        }
 
-      // Check result size limit
-      if (result.rows.length > DEFAULT_CONFIG.maxResultSize) {
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error: Query result too large (${result.rows.length} rows, max ${DEFAULT_CONFIG.maxResultSize})`
-            }
-          ],
-          isError: true
-        };
+        columns = result.columns || [];
+        columnTypes = result.columnTypes || [];
+        rows = result.rows;
       }
 
-      const metrics = formatPerformanceMetrics({
+      const executionTime = Date.now() - startTime;
+
+      // Planned after the query so the plan does not count towards its execution time
+      const queryPlan = includePlan
+        ? renderQueryPlan(await explainQueryPlan(context.connection, query, parameters))
+        : undefined;
+
+      const queryMetrics = {
         executionTime,
-        rowsReturned: result.rows.length
-      });
+        rowsReturned: rows.length,
+        retries: context.queryStats?.retries,
+        ...(queryPlan && { queryPlan })
+      };
+      const metrics = formatPerformanceMetrics(queryMetrics);
+
+      const records = toRecords(columns, rows);
+      const structuredContent: ReadQueryOutput = {
+        columns: toResultColumns(columns, columnTypes),
+        rows: records,
+        rowCount: records.length,
+        ...(page && {
+          page: {
+            firstRow: page.offset + 1,
+            ...(page.nextCursor && { nextCursor: page.nextCursor })
+          }
+        }),
+        metrics: queryMetrics
+      };
+
+      if (format && format !== 'table') {
+        return this.formatOutput(format, columns, structuredContent, metrics, page);
+      }
+
+      // A page is shown in full, it is already bounded by pageSize
+      const displayLimit = page ? rows.length : MAX_DISPLAY_ROWS;
 
       // Format the results
       let output = 'Query executed successfully\n\n';
 
-      if (result.rows.length === 0) {
+      if (rows.length === 0) {
         output += 'No rows returned.\n';
       } else {
         // Format as a table
-        const columns = result.columns || [];
-        output += `Found ${result.rows.length} row(s):\n\n`;
+        output += page
+          ? `Showing rows ${page.offset + 1}-${page.offset + rows.length}:\n\n`
+          : `Found ${rows.length} row(s):\n\n`;
 
         if (columns.length > 0) {
           // Calculate column widths for better formatting
           const columnWidths = columns.map((col: string) => {
             const headerWidth = col.length;
             const maxDataWidth = Math.max(
-              ...result.rows.slice(0, 100).map((row: Record<string, unknown>) => {
+              ...rows.slice(0, displayLimit).map((row: Record<string, unknown>) => {
                 const value = row[col];
                 return value === null ? 4 : String(value).length; // 4 for 'NULL'
               })
@@ -78,8 +148,8 @@ export class ReadQueryTool extends BaseTool {
           const separator = columnWidths.map((width: number) => '-'.repeat(width)).join('-+-');
           output += `${separator}\n`;
 
-          // Add rows (limit to first 100 rows for display)
-          const displayRows = result.rows.slice(0, 100);
+          // Add rows (the whole page, or the first 100 rows for display)
+          const displayRows = rows.slice(0, displayLimit);
           for (const row of displayRows) {
             const rowValues = columns.map((col: string, i: number) => {
               const value = row[col];
@@ -89,16 +159,22 @@ export class ReadQueryTool extends BaseTool {
             output += `${rowValues.join(' | ')}\n`;
           }
 
-          if (result.rows.length > 100) {
-            output += `\n... and ${result.rows.length - 100} more rows (use LIMIT clause to see more)\n`;
+          if (rows.length > displayLimit) {
+            output += `\n... and ${rows.length - displayLimit} more rows (use LIMIT clause or pageSize to see more)\n`;
           }
         } else {
           // Fallback for queries without column metadata
-          output += JSON.stringify(result.rows.slice(0, 10), null, 2);
-          if (result.rows.length > 10) {
-            output += `\n... and ${result.rows.length - 10} more rows\n`;
+          output += JSON.stringify(rows.slice(0, 10), null, 2);
+          if (rows.length > 10) {
+            output += `\n... and ${rows.length - 10} more rows\n`;
           }
         }
+
+        if (page) {
+          output += page.nextCursor
+            ? `\nMore rows available. Fetch the next page with the same query and parameters and cursor: ${page.nextCursor}\n`
+            : '\nNo more rows.\n';
+        }
       }
 
       output += `\nPerformance: ${metrics}`;
@@ -108,13 +184,18 @@ export class ReadQueryTool extends BaseTool {
         output += `\nParameters: ${parameters.length} parameter(s) used`;
       }
 
+      if (queryPlan) {
+        output += `\n\n${queryPlan}`;
+      }
+
       return {
         content: [
           {
             type: 'text',
             text: output
           }
-        ]
+        ],
+        structuredContent
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
@@ -129,4 +210,72 @@ export class ReadQueryTool extends BaseTool {
       };
     }
   }
+
+  /**
+   * Render every fetched row in a machine-readable format. JSON is the structured content
+   * itself, the other formats leave the metrics and next cursor to a second content item
+   * so the first holds nothing but data.
+   */
+  private formatOutput(
+    format: Exclude<ReadQueryInput['format'], 'table' | undefined>,
+    columns: string[],
+    structuredContent: ReadQueryOutput,
+    metrics: string,
+    page: Page | undefined
+  ): ToolExecutionResult {
+    const records = structuredContent.rows;
+
+    if (format === 'json') {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(structuredContent, null, 2)
+          }
+        ],
+        structuredContent
+      };
+    }
+
+    const data =
+      format === 'csv'
+        ? formatCsv(columns, records)
+        : format === 'markdown'
+          ? formatMarkdown(columns, records)
+          : formatNdjson(records);
+
+    let footer = `Performance: ${metrics}`;
+    if (page) {
+      footer += page.nextCursor
+        ? `\nMore rows available. Fetch the next page with the same query and parameters and cursor: ${page.nextCursor}`
+        : '\nNo more rows.';
+    }
+    if (structuredContent.metrics.queryPlan) {
+      footer += `\n\n${structuredContent.metrics.queryPlan}`;
+    }
+
+    return {
+      content: [
+        { type: 'text', text: data },
+        { type: 'text', text: footer }
+      ],
+      structuredContent
+    };
+  }
+
+  /**
+   * Fetch the first page, or the page a cursor points at. pageSize may change between
+   * pages and is capped by the result size limit.
+   */
+  private readPage(context: ToolExecutionContext, maxResultSize: number): Promise<Page> {
+    const { query, parameters = [], pageSize, cursor } = context.arguments as ReadQueryInput;
+    const position: PagePosition = cursor
+      ? decodeCursor(cursor, query, parameters)
+      : { strategy: getPaginationStrategy(query), pageSize: pageSize ?? 0, offset: 0 };
+
+    return readPage(context.connection, query, parameters, {
+      ...position,
+      pageSize: Math.min(pageSize ?? position.pageSize, maxResultSize)
+    });
+  }
 }
@@ -0,0 +1,51 @@
+import { BaseTool, type ToolExecutionContext, type ToolExecutionResult } from '../lib/base-tool.js';
+import {
+  RollbackTransactionInputSchema,
+  RollbackTransactionOutputSchema,
+  type RollbackTransactionInput,
+  type RollbackTransactionOutput
+} from '../schemas/rollback-transaction.js';
+
+export class RollbackTransactionTool extends BaseTool {
+  readonly name = 'rollback-transaction';
+  readonly description =
+    'Roll back a transaction started with begin-transaction, discarding all of its writes and ending it.';
+  readonly inputSchema = RollbackTransactionInputSchema;
+  override readonly outputSchema = RollbackTransactionOutputSchema;
+  override readonly supportsTransactions = true;
+
+  protected async executeImpl(context: ToolExecutionContext): Promise<ToolExecutionResult> {
+    const { transactionId } = context.arguments as RollbackTransactionInput;
+
+    try {
+      if (!context.transactions) {
+        throw new Error('Transactions are not available');
+      }
+
+      await context.transactions.rollback(transactionId);
+
+      const structuredContent: RollbackTransactionOutput = { transactionId, status: 'rolled-back' };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Transaction ${transactionId} rolled back`
+          }
+        ],
+        structuredContent
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error rolling back transaction: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+}
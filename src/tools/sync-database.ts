@@ -0,0 +1,57 @@
+import { BaseTool, type ToolExecutionContext, type ToolExecutionResult } from '../lib/base-tool.js';
+import { formatPerformanceMetrics } from '../utils/performance.js';
+import {
+  SyncDatabaseInputSchema,
+  SyncDatabaseOutputSchema,
+  type SyncDatabaseOutput
+} from '../schemas/sync-database.js';
+
+export class SyncDatabaseTool extends BaseTool {
+  readonly name = 'sync-database';
+  readonly description =
+    'Sync an embedded replica with its remote primary database right away instead of waiting for the next periodic sync. Reports how many frames were pulled. Only available when the server runs with a sync URL.';
+  readonly inputSchema = SyncDatabaseInputSchema;
+  override readonly outputSchema = SyncDatabaseOutputSchema;
+  // Synced frames can carry schema changes made on the primary
+  override readonly modifiesSchema = true;
+
+  protected async executeImpl(context: ToolExecutionContext): Promise<ToolExecutionResult> {
+    try {
+      const startTime = Date.now();
+      const result = await context.connection.sync();
+      const executionTime = Date.now() - startTime;
+
+      const metrics = formatPerformanceMetrics({ executionTime });
+      const summary = result
+        ? `Sync complete: ${result.framesSynced} frame${result.framesSynced === 1 ? '' : 's'} synced, replica at frame ${result.frameNo}`
+        : 'Sync complete: no new frames to sync';
+
+      const structuredContent: SyncDatabaseOutput = {
+        framesSynced: result?.framesSynced ?? 0,
+        frameNo: result?.frameNo ?? null,
+        metrics: { executionTime }
+      };
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `${summary}\n\n${metrics}`
+          }
+        ],
+        structuredContent
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `Error syncing database: ${errorMessage}`
+          }
+        ],
+        isError: true
+      };
+    }
+  }
+}
@@ -1,15 +1,23 @@
 import { BaseTool, type ToolExecutionContext, type ToolExecutionResult } from '../lib/base-tool.js';
 import { formatPerformanceMetrics } from '../utils/performance.js';
-import { WriteQueryInputSchema, type WriteQueryInput } from '../schemas/write-query.js';
+import {
+  WriteQueryInputSchema,
+  WriteQueryOutputSchema,
+  type WriteQueryInput,
+  type WriteQueryOutput
+} from '../schemas/write-query.js';
 
 export class WriteQueryTool extends BaseTool {
   readonly name = 'write-query';
   readonly description =
     'Execute INSERT, UPDATE, DELETE queries on the libSQL database. Returns affected row count and performance metrics. Supports parameterized queries for security.';
   readonly inputSchema = WriteQueryInputSchema;
+  override readonly outputSchema = WriteQueryOutputSchema;
+  override readonly supportsTransactions = true;
 
   protected async executeImpl(context: ToolExecutionContext): Promise<ToolExecutionResult> {
-    const { query, parameters, useTransaction } = context.arguments as WriteQueryInput;
+    const { query, parameters, useTransaction, transactionId } =
+      context.arguments as WriteQueryInput;
 
     try {
       const startTime = Date.now();
@@ -33,10 +41,8 @@ export class WriteQueryTool extends BaseTool {
 
       const executionTime = Date.now() - startTime;
 
-      const metrics = formatPerformanceMetrics({
-        executionTime,
-        rowsAffected: result.rowsAffected
-      });
+      const queryMetrics = { executionTime, rowsAffected: result.rowsAffected };
+      const metrics = formatPerformanceMetrics(queryMetrics);
 
       let output = `Query executed successfully${useTransaction ? ' (with transaction)' : ''}\n\n`;
       output += `Rows affected: ${result.rowsAffected}\n`;
@@ -45,15 +51,29 @@ export class WriteQueryTool extends BaseTool {
         output += `Last insert row ID: ${result.lastInsertRowid}\n`;
       }
 
+      if (transactionId) {
+        output += `\nNot visible outside transaction ${transactionId} until it is committed\n`;
+      }
+
       output += `\n${metrics}`;
 
+      const structuredContent: WriteQueryOutput = {
+        rowsAffected: result.rowsAffected,
+        lastInsertRowid:
+          result.lastInsertRowid !== undefined && result.lastInsertRowid !== null
+            ? String(result.lastInsertRowid)
+            : null,
+        metrics: queryMetrics
+      };
+
       return {
         content: [
           {
             type: 'text',
             text: output
           }
-        ]
+        ],
+        structuredContent
       };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
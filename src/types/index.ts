@@ -1,18 +1,76 @@
+/**
+ * Per-connection SQLite settings applied with PRAGMA statements when a connection opens
+ */
+export interface ConnectionInitSettings {
+  /** Enforce foreign key constraints */
+  foreignKeys?: boolean | undefined;
+  /** How long to wait for a lock held by another connection in ms before failing with SQLITE_BUSY */
+  busyTimeout?: number | undefined;
+  /** Page cache size, in pages when positive or in KiB when negative */
+  cacheSize?: number | undefined;
+}
+
 export interface DatabaseConfig {
   url: string;
   authToken?: string;
+  /** File to re-read authToken from when it changes or authentication fails */
+  authTokenFile?: string;
   minConnections?: number;
   maxConnections?: number;
   connectionTimeout?: number;
+  /** Attempts for a connection or a retryable query, including the first (1 disables retries) */
+  retryAttempts?: number;
+  /** Delay before the first retry in ms, doubled for each retry after it */
   retryInterval?: number;
+  /** Upper bound for the delay between retries in ms */
+  retryMaxDelay?: number;
+  /** Spread each retry delay randomly by up to this fraction (0-1) */
+  retryJitter?: number;
+  /** Consecutive connection failures after which calls fail fast instead of waiting */
+  circuitBreakerThreshold?: number;
+  /** How long calls fail fast before a reconnection attempt, in ms */
+  circuitBreakerResetTimeout?: number;
   queryTimeout?: number;
   maxResultSize?: number;
+  /** Close connections idle this long in ms, down to minConnections (0 disables) */
+  idleTimeout?: number;
+  /** Replace connections older than this in ms, e.g. before a session token expires (0 disables) */
+  maxLifetime?: number;
+  /** Key to open an encrypted local database file */
+  encryptionKey?: string;
+  /** Read replica used by read-only tools, with the same auth token as url */
+  readUrl?: string;
+  /** Remote primary to sync from, which makes url a local embedded replica file */
+  syncUrl?: string;
+  /** Sync the embedded replica automatically every syncInterval seconds */
+  syncInterval?: number;
+  /** Make writes visible to reads on the replica as soon as the write returns */
+  readYourWrites?: boolean;
+  /** Settings applied to every new connection of a local database */
+  connectionInit?: ConnectionInitSettings;
+}
+
+export type TransportType = 'stdio' | 'http';
+
+export interface TransportConfig {
+  type: TransportType;
+  host?: string;
+  port?: number;
+  /** Host header names the HTTP transport accepts */
+  allowedHosts?: string[];
+  /** Browser origins allowed to call the HTTP transport */
+  allowedOrigins?: string[];
+  /** Close HTTP sessions without a request for this many ms (0 disables) */
+  sessionIdleTimeout?: number;
 }
 
 export interface QueryMetrics {
   executionTime: number;
   rowsAffected?: number;
   rowsReturned?: number;
+  /** Attempts that failed with a transient error before the query succeeded */
+  retries?: number;
+  /** Rendered EXPLAIN QUERY PLAN tree, when requested */
   queryPlan?: string;
 }
 
@@ -26,13 +84,53 @@ export interface WriteResult {
   metrics: QueryMetrics;
 }
 
+export interface QueryOptions {
+  /** Abandons the query, or rolls back the transaction, when aborted */
+  signal?: AbortSignal;
+  /** Overrides the configured queryTimeout for this call */
+  timeoutMs?: number;
+  /** Retry transient failures, only for statements that are safe to run twice */
+  retry?: boolean;
+  /** Called for each retry, with the attempt that failed */
+  onRetry?: (attempt: number, error: Error) => void;
+}
+
+export interface SyncResult {
+  /** Replication frame the replica is at after the sync */
+  frameNo: number;
+  framesSynced: number;
+}
+
+export interface BatchStatement {
+  query: string;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  params?: any[];
+}
+
 export interface DatabaseConnection {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  execute: (query: string, params?: any) => Promise<any>;
+  execute: (query: string, params?: any, options?: QueryOptions) => Promise<any>;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  transaction: <T>(fn: (tx: any) => Promise<T>) => Promise<T>;
+  transaction: <T>(fn: (tx: any) => Promise<T>, options?: QueryOptions) => Promise<T>;
+  /** Run statements in order as one write transaction, applying none of them if any fails */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  batch: (statements: BatchStatement[], options?: QueryOptions) => Promise<any[]>;
   close: () => Promise<void>;
   isHealthy: () => Promise<boolean>;
+  /** Pull new frames from the primary into an embedded replica, null if there was nothing to sync */
+  sync: () => Promise<SyncResult | null>;
+  /** Open a write transaction that stays open across calls until committed or rolled back */
+  beginTransaction: () => Promise<DatabaseTransaction>;
+}
+
+/**
+ * An open write transaction. execute runs inside it, and transaction wraps its work
+ * in a savepoint so a failed call leaves the rest of the transaction intact.
+ */
+export interface DatabaseTransaction extends DatabaseConnection {
+  readonly isOpen: boolean;
+  commit: () => Promise<void>;
+  rollback: () => Promise<void>;
 }
 
 export interface ConnectionPool {
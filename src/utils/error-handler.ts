@@ -21,6 +21,35 @@ export class ConnectionError extends DatabaseError {
   }
 }
 
+export class EncryptionKeyError extends ConnectionError {
+  constructor(keyProvided: boolean, originalError?: Error) {
+    super(
+      keyProvided
+        ? 'Cannot open database: the encryption key is wrong, or the file is not a libSQL database'
+        : 'Cannot open database: the file is encrypted (provide --encryption-key, --encryption-key-file or LIBSQL_ENCRYPTION_KEY) or is not a libSQL database',
+      originalError
+    );
+    this.name = 'EncryptionKeyError';
+  }
+}
+
+export class DatabaseUnavailableError extends ConnectionError {
+  constructor(
+    public readonly retryInMs: number,
+    lastError?: Error
+  ) {
+    super(
+      `Database unavailable: connections keep failing${lastError ? ` (${lastError.message})` : ''}, ${
+        retryInMs > 0
+          ? `next reconnection attempt in ${Math.ceil(retryInMs / 1000)}s`
+          : 'reconnecting now'
+      }`,
+      lastError
+    );
+    this.name = 'DatabaseUnavailableError';
+  }
+}
+
 export class QueryValidationError extends DatabaseError {
   constructor(message: string, query?: string) {
     super(message, undefined, query);
@@ -35,6 +64,20 @@ export class QueryTimeoutError extends DatabaseError {
   }
 }
 
+export class QueryCancelledError extends DatabaseError {
+  constructor(query?: string) {
+    super('Query cancelled by the client', undefined, query);
+    this.name = 'QueryCancelledError';
+  }
+}
+
+export class TransactionNotFoundError extends DatabaseError {
+  constructor(transactionId: string) {
+    super(`Transaction ${transactionId} not found: it was committed, rolled back or timed out`);
+    this.name = 'TransactionNotFoundError';
+  }
+}
+
 export class ResultSizeError extends DatabaseError {
   constructor(resultSize: number, maxSize: number) {
     super(`Result set too large: ${resultSize} rows exceeds limit of ${maxSize}`);
@@ -89,12 +132,54 @@ export function withTimeout<T>(
   timeoutMs: number,
   timeoutError?: Error
 ): Promise<T> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
   return Promise.race([
     promise,
     new Promise<never>((_, reject) => {
-      setTimeout(() => {
+      timer = setTimeout(() => {
         reject(timeoutError || new QueryTimeoutError(timeoutMs));
       }, timeoutMs);
     })
-  ]);
+  ]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Reject as soon as the signal aborts, without waiting for the promise to settle
+ */
+export function withAbortSignal<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal,
+  abortError?: () => Error
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  const createError = abortError || ((): Error => new QueryCancelledError());
+
+  if (signal.aborted) {
+    // The abandoned promise may still reject later
+    promise.catch(() => undefined);
+    return Promise.reject(createError());
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => {
+      promise.catch(() => undefined);
+      reject(createError());
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
 }
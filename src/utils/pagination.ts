@@ -0,0 +1,267 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { ResultSet, Row } from '@libsql/client';
+import type { DatabaseConnection } from '../types/index.js';
+import { QueryValidationError } from './error-handler.js';
+import { tokenizeSql } from './sql-tokenizer.js';
+
+export type PaginationStrategy = 'keyset' | 'offset';
+
+export type QueryParameter = string | number | boolean | null;
+
+/**
+ * Position of a page within a result set, carried between calls in an opaque cursor
+ */
+export interface PagePosition {
+  strategy: PaginationStrategy;
+  pageSize: number;
+  /** Rows returned by the pages before this one */
+  offset: number;
+  /** rowid of the last row of the previous page, for keyset pagination */
+  lastRowid?: number | undefined;
+}
+
+export interface Page {
+  columns: string[];
+  /** Declared type of each column, empty when the column has none */
+  columnTypes: string[];
+  rows: Row[];
+  /** Position of the first row of the page in the whole result set, from 0 */
+  offset: number;
+  strategy: PaginationStrategy;
+  /** Cursor for the next page, absent on the last page */
+  nextCursor?: string;
+}
+
+interface CursorPayload {
+  v: 1;
+  /** Fingerprint of the query and parameters the cursor belongs to */
+  f: string;
+  s: PaginationStrategy;
+  n: number;
+  o: number;
+  k?: number;
+}
+
+/** Alias of the rowid column added to keyset page queries, stripped from the page */
+const ROWID_COLUMN = '__page_rowid';
+
+const MAX_PAGE_SIZE = 1000;
+
+/** Signs cursors so a client cannot forge or edit one, they expire when the server restarts */
+const CURSOR_KEY = randomBytes(32);
+
+/**
+ * SELECT list, FROM clause and WHERE clause of a query that reads a single table, the
+ * only shape that can be paged by rowid without changing its meaning
+ */
+const SINGLE_TABLE_QUERY_PATTERN =
+  /^select\s+(.+?)\s+(from\s+(?:[A-Za-z_][\w$]*|"[^"]+"|`[^`]+`|\[[^\]]+\])(?:\s+(?:as\s+)?(?!where\b)[A-Za-z_]\w*)?)(?:\s+where\s+(.+))?$/is;
+
+/**
+ * Clauses and functions that group, order or limit rows, so a page is not a slice of
+ * the table in rowid order
+ */
+const NOT_KEYSET_PATTERN =
+  /\b(?:distinct|join|group\s+by|order\s+by|having|limit|offset|window|over|union|except|intersect|with)\b|\b(?:count|sum|avg|min|max|total|group_concat|json_group_array|json_group_object)\s*\(/i;
+
+function isIntegerInRange(value: unknown, min: number, max = Number.MAX_SAFE_INTEGER): boolean {
+  return Number.isInteger(value) && (value as number) >= min && (value as number) <= max;
+}
+
+function sign(payload: string): Buffer {
+  return createHmac('sha256', CURSOR_KEY).update(payload).digest();
+}
+
+/**
+ * Whether the query has one FROM, outside parentheses. A FROM in a subquery, string
+ * literal, quoted identifier or comment would be taken for the table's by the single-table
+ * pattern, so it rules out keyset pagination.
+ */
+function hasSingleFromClause(query: string): boolean {
+  let depth = 0;
+  let topLevelFroms = 0;
+
+  for (const token of tokenizeSql(query)) {
+    if (token.type === 'symbol' && token.text === '(') depth++;
+    if (token.type === 'symbol' && token.text === ')') depth--;
+    if (token.type === 'word' && token.value === 'FROM' && depth === 0) topLevelFroms++;
+  }
+
+  return topLevelFroms === 1 && query.match(/\bfrom\b/gi)?.length === 1;
+}
+
+/**
+ * SELECT list, FROM clause and WHERE clause of a query that can be paged by rowid
+ */
+function matchSingleTableQuery(query: string): RegExpExecArray | null {
+  const trimmed = query.trim();
+
+  return !NOT_KEYSET_PATTERN.test(trimmed) && hasSingleFromClause(trimmed)
+    ? SINGLE_TABLE_QUERY_PATTERN.exec(trimmed)
+    : null;
+}
+
+function fingerprint(query: string, parameters: QueryParameter[]): string {
+  return createHash('sha256')
+    .update(JSON.stringify([query.trim(), parameters]))
+    .digest('base64url')
+    .slice(0, 16);
+}
+
+export function encodeCursor(
+  position: PagePosition,
+  query: string,
+  parameters: QueryParameter[]
+): string {
+  const payload: CursorPayload = {
+    v: 1,
+    f: fingerprint(query, parameters),
+    s: position.strategy,
+    n: position.pageSize,
+    o: position.offset,
+    ...(position.lastRowid !== undefined && { k: position.lastRowid })
+  };
+
+  const encoded = Buffer.from(JSON.stringify(payload)).toString('base64url');
+  return `${encoded}.${sign(encoded).toString('base64url')}`;
+}
+
+/**
+ * Decode a cursor, rejecting one that is malformed, was not issued by this server or was
+ * issued for another query or other parameters
+ */
+export function decodeCursor(
+  cursor: string,
+  query: string,
+  parameters: QueryParameter[]
+): PagePosition {
+  const [encoded = '', signature = ''] = cursor.split('.');
+  const expected = sign(encoded);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new QueryValidationError('Invalid cursor', query);
+  }
+
+  let payload: Partial<CursorPayload>;
+
+  try {
+    payload = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8')) as CursorPayload;
+  } catch {
+    throw new QueryValidationError('Invalid cursor', query);
+  }
+
+  // pageSize and offset are inlined into SQL, where a negative LIMIT means no limit.
+  // rowids can be negative, so lastRowid only has to be a safe integer
+  if (
+    payload?.v !== 1 ||
+    (payload.s !== 'keyset' && payload.s !== 'offset') ||
+    !isIntegerInRange(payload.n, 1, MAX_PAGE_SIZE) ||
+    !isIntegerInRange(payload.o, 0) ||
+    (payload.k !== undefined && !isIntegerInRange(payload.k, Number.MIN_SAFE_INTEGER))
+  ) {
+    throw new QueryValidationError('Invalid cursor', query);
+  }
+
+  if (payload.f !== fingerprint(query, parameters)) {
+    throw new QueryValidationError(
+      'Cursor belongs to a different query or parameters, repeat the query and parameters it was returned for',
+      query
+    );
+  }
+
+  return {
+    strategy: payload.s,
+    pageSize: payload.n as number,
+    offset: payload.o as number,
+    lastRowid: payload.k
+  };
+}
+
+/**
+ * Pick keyset pagination for queries that read a single table, offset pagination otherwise
+ */
+export function getPaginationStrategy(query: string): PaginationStrategy {
+  return matchSingleTableQuery(query) ? 'keyset' : 'offset';
+}
+
+/**
+ * SQL for one page of query, fetching one row more than the page size to tell whether
+ * another page follows. Keyset pages continue after the last rowid seen, offset pages
+ * wrap the query in a subquery. Positions are integers, so they are inlined and the
+ * query's own parameters bind unchanged.
+ */
+export function buildPageQuery(query: string, position: PagePosition): string {
+  const limit = position.pageSize + 1;
+  const match = position.strategy === 'keyset' && matchSingleTableQuery(query);
+
+  if (!match) {
+    return `SELECT * FROM (${query.trim()}) LIMIT ${limit} OFFSET ${position.offset}`;
+  }
+
+  const [, columns, from, where] = match;
+  const conditions = [
+    ...(where ? [`(${where})`] : []),
+    ...(position.lastRowid !== undefined ? [`rowid > ${position.lastRowid}`] : [])
+  ];
+
+  const whereClause = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+  return `SELECT ${columns}, rowid AS ${ROWID_COLUMN} ${from}${whereClause} ORDER BY rowid LIMIT ${limit}`;
+}
+
+/**
+ * Fetch one page of a SELECT query. Views and WITHOUT ROWID tables have no rowid, so
+ * keyset pagination falls back to offset pagination for them.
+ */
+export async function readPage(
+  connection: DatabaseConnection,
+  query: string,
+  parameters: QueryParameter[],
+  position: PagePosition
+): Promise<Page> {
+  const run = (sql: string): Promise<ResultSet> =>
+    parameters.length > 0 ? connection.execute(sql, parameters) : connection.execute(sql);
+
+  let strategy = position.strategy;
+  let result: ResultSet;
+
+  try {
+    result = await run(buildPageQuery(query, position));
+  } catch (error) {
+    if (strategy !== 'keyset' || !/no such column: rowid/i.test(String(error))) {
+      throw error;
+    }
+    strategy = 'offset';
+    result = await run(buildPageQuery(query, { ...position, strategy }));
+  }
+
+  const rows = result.rows.slice(0, position.pageSize);
+  const hasMore = result.rows.length > position.pageSize;
+  const lastRowid =
+    strategy === 'keyset' && rows.length > 0
+      ? Number(rows[rows.length - 1]?.[ROWID_COLUMN])
+      : undefined;
+
+  const columns = result.columns ?? [];
+  const visible = columns.map(column => column !== ROWID_COLUMN);
+
+  return {
+    columns: columns.filter((_, i) => visible[i]),
+    columnTypes: (result.columnTypes ?? []).filter((_, i) => visible[i]),
+    rows,
+    offset: position.offset,
+    strategy,
+    ...(hasMore && {
+      nextCursor: encodeCursor(
+        {
+          strategy,
+          pageSize: position.pageSize,
+          offset: position.offset + rows.length,
+          lastRowid
+        },
+        query,
+        parameters
+      )
+    })
+  };
+}
@@ -9,8 +9,7 @@ export class PerformanceMonitor {
       rowsReturned: result.rows.length
     };
 
-    // libSQL doesn't provide query plans in the same way as SQLite
-    // queryPlan is optional, so we don't include it if not available
+    // Results carry no query plan, read-query adds one from EXPLAIN QUERY PLAN (see query-plan.ts)
 
     return metrics;
   }
@@ -39,6 +38,10 @@ export class PerformanceMonitor {
       parts.push(`${metrics.rowsReturned} returned`);
     }
 
+    if (metrics.retries !== undefined && metrics.retries > 0) {
+      parts.push(`${metrics.retries} ${metrics.retries === 1 ? 'retry' : 'retries'}`);
+    }
+
     return parts.join(', ');
   }
 }
@@ -47,11 +50,13 @@ export function formatPerformanceMetrics(params: {
   executionTime: number;
   rowsAffected?: number;
   rowsReturned?: number;
+  retries?: number | undefined;
 }): string {
   const metrics: QueryMetrics = {
     executionTime: params.executionTime,
     ...(params.rowsAffected !== undefined && { rowsAffected: params.rowsAffected }),
-    ...(params.rowsReturned !== undefined && { rowsReturned: params.rowsReturned })
+    ...(params.rowsReturned !== undefined && { rowsReturned: params.rowsReturned }),
+    ...(params.retries !== undefined && { retries: params.retries })
   };
 
   return PerformanceMonitor.formatMetrics(metrics);
@@ -0,0 +1,96 @@
+import type { ResultSet } from '@libsql/client';
+import type { DatabaseConnection } from '../types/index.js';
+import type { QueryParameter } from './pagination.js';
+
+/**
+ * One step of a plan, as returned by EXPLAIN QUERY PLAN
+ */
+export interface QueryPlanStep {
+  id: number;
+  /** id of the enclosing step, 0 at the top level */
+  parent: number;
+  detail: string;
+}
+
+export type QueryPlanWarningType = 'full-scan' | 'temp-b-tree';
+
+export interface QueryPlanWarning {
+  type: QueryPlanWarningType;
+  detail: string;
+  message: string;
+}
+
+/**
+ * Run EXPLAIN QUERY PLAN for a statement. The statement itself is only planned, never run,
+ * so this is safe for writes too.
+ */
+export async function explainQueryPlan(
+  connection: DatabaseConnection,
+  query: string,
+  parameters: QueryParameter[] = []
+): Promise<QueryPlanStep[]> {
+  const sql = `EXPLAIN QUERY PLAN ${query.trim()}`;
+  const result: ResultSet =
+    parameters.length > 0
+      ? await connection.execute(sql, parameters)
+      : await connection.execute(sql);
+
+  return result.rows.map(row => ({
+    id: Number(row['id']),
+    parent: Number(row['parent']),
+    detail: String(row['detail'])
+  }));
+}
+
+/**
+ * Render the plan as a tree, like the sqlite3 shell's .eqp output
+ */
+export function renderQueryPlan(steps: QueryPlanStep[]): string {
+  const lines = ['QUERY PLAN'];
+
+  const renderChildren = (parent: number, prefix: string): void => {
+    const children = steps.filter(step => step.parent === parent);
+    children.forEach((step, i) => {
+      const last = i === children.length - 1;
+      lines.push(`${prefix}${last ? '`--' : '|--'}${step.detail}`);
+      // A step cannot be its own parent, but guard against looping on malformed rows
+      if (step.id !== parent) {
+        renderChildren(step.id, `${prefix}${last ? '   ' : '|  '}`);
+      }
+    });
+  };
+
+  renderChildren(0, '');
+  return lines.join('\n');
+}
+
+/**
+ * Steps that read every row of a table or sort through a temporary B-tree, the usual
+ * signs of a missing index
+ */
+export function findPlanWarnings(steps: QueryPlanStep[]): QueryPlanWarning[] {
+  const warnings: QueryPlanWarning[] = [];
+
+  for (const { detail } of steps) {
+    // "SCAN users", or "SCAN TABLE users" before SQLite 3.36; "SCAN users USING INDEX" reads an index
+    const scan = /^SCAN (?:TABLE )?([^\s(]\S*)(?!.*\bUSING\b)/.exec(detail);
+    if (scan && scan[1] !== 'CONSTANT') {
+      warnings.push({
+        type: 'full-scan',
+        detail,
+        message: `Full table scan of ${scan[1]}, an index on the filtered columns may help`
+      });
+    }
+
+    const tempBTree = /USE TEMP B-TREE FOR (.+)$/.exec(detail);
+    if (tempBTree) {
+      warnings.push({
+        type: 'temp-b-tree',
+        detail,
+        message: `Temporary B-tree for ${tempBTree[1]}, an index matching it would avoid the sort`
+      });
+    }
+  }
+
+  return warnings;
+}
@@ -0,0 +1,84 @@
+import type { Row } from '@libsql/client';
+
+export interface ResultColumn {
+  name: string;
+  /** Declared type from the table definition, null for expressions */
+  type: string | null;
+}
+
+export type ResultRecord = Record<string, unknown>;
+
+/**
+ * Make a value safe for JSON and text output: BigInts become decimal strings and
+ * BLOBs base64 strings, so nothing is lost or throws on JSON.stringify
+ */
+export function serializeValue(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value instanceof ArrayBuffer) {
+    return Buffer.from(value).toString('base64');
+  }
+  if (ArrayBuffer.isView(value)) {
+    return Buffer.from(value.buffer, value.byteOffset, value.byteLength).toString('base64');
+  }
+  return value;
+}
+
+export function toResultColumns(columns: string[], columnTypes: string[]): ResultColumn[] {
+  return columns.map((name, i) => ({ name, type: columnTypes[i] || null }));
+}
+
+/**
+ * Plain objects keyed by column name, holding only the given columns
+ */
+export function toRecords(columns: string[], rows: Row[]): ResultRecord[] {
+  return rows.map(row =>
+    Object.fromEntries(columns.map(column => [column, serializeValue(row[column])]))
+  );
+}
+
+function escapeCsv(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * RFC 4180 CSV with a header row, NULL as an empty field
+ */
+export function formatCsv(columns: string[], records: ResultRecord[]): string {
+  const lines = [
+    columns.map(escapeCsv).join(','),
+    ...records.map(record => columns.map(column => escapeCsv(record[column])).join(','))
+  ];
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+function escapeMarkdown(value: unknown): string {
+  if (value === null || value === undefined) {
+    return 'NULL';
+  }
+  return String(value).replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
+}
+
+/**
+ * GitHub-flavored Markdown table
+ */
+export function formatMarkdown(columns: string[], records: ResultRecord[]): string {
+  const lines = [
+    `| ${columns.map(escapeMarkdown).join(' | ')} |`,
+    `| ${columns.map(() => '---').join(' | ')} |`,
+    ...records.map(record => `| ${columns.map(c => escapeMarkdown(record[c])).join(' | ')} |`)
+  ];
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * One JSON object per line
+ */
+export function formatNdjson(records: ResultRecord[]): string {
+  return records.map(record => `${JSON.stringify(record)}\n`).join('');
+}
@@ -0,0 +1,108 @@
+import { DatabaseUnavailableError, withAbortSignal } from './error-handler.js';
+
+export interface RetryPolicy {
+  /** Attempts including the first, so 1 disables retries */
+  maxAttempts: number;
+  /** Delay before the first retry in ms, doubled for each retry after it */
+  initialDelay: number;
+  /** Upper bound for the delay between two attempts in ms */
+  maxDelay: number;
+  /** Spread each delay randomly by up to this fraction (0-1), so clients do not retry in step */
+  jitter: number;
+}
+
+export interface RetryOptions {
+  /** Whether a failure is worth another attempt, defaults to isTransientError */
+  shouldRetry?: (error: Error) => boolean;
+  /** Called before waiting for each retry, with the attempt that failed */
+  onRetry?: (attempt: number, delay: number, error: Error) => void;
+  /** Stops the wait for the next attempt, rejecting with QueryCancelledError */
+  signal?: AbortSignal;
+}
+
+const TRANSIENT_ERROR_CODES = new Set([
+  'SQLITE_BUSY',
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT'
+]);
+
+const TRANSIENT_MESSAGE_PATTERN =
+  /SQLITE_BUSY|database is locked|socket hang up|fetch failed|HTTP status 5\d\d/i;
+
+/**
+ * Whether an error is likely to go away on its own: a busy database, a dropped network
+ * connection or a 5xx response from a remote libSQL server. Network errors are often
+ * wrapped, so the cause chain is checked too.
+ */
+export function isTransientError(error: unknown): boolean {
+  // The circuit breaker has already given up on the database for now
+  if (error instanceof DatabaseUnavailableError) {
+    return false;
+  }
+
+  let current: unknown = error;
+
+  for (let depth = 0; current instanceof Error && depth < 5; depth++) {
+    const code = (current as { code?: unknown }).code;
+    if (typeof code === 'string' && TRANSIENT_ERROR_CODES.has(code)) {
+      return true;
+    }
+    if (TRANSIENT_MESSAGE_PATTERN.test(current.message)) {
+      return true;
+    }
+    current = current.cause;
+  }
+
+  return false;
+}
+
+/**
+ * Delay before the given retry (1 for the first), with exponential backoff and jitter
+ */
+export function getRetryDelay(
+  policy: RetryPolicy,
+  retry: number,
+  random: () => number = Math.random
+): number {
+  const delay = Math.min(policy.initialDelay * 2 ** (retry - 1), policy.maxDelay);
+  const spread = delay * Math.min(Math.max(policy.jitter, 0), 1);
+
+  return Math.round(delay - spread + random() * 2 * spread);
+}
+
+/**
+ * Run operation until it succeeds, fails with an error not worth retrying, or runs out
+ * of attempts. The last error is rethrown as is.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  options: RetryOptions = {}
+): Promise<T> {
+  const shouldRetry = options.shouldRetry ?? isTransientError;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (
+        attempt >= policy.maxAttempts ||
+        options.signal?.aborted ||
+        !(error instanceof Error) ||
+        !shouldRetry(error)
+      ) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(policy, attempt);
+      options.onRetry?.(attempt, delay, error);
+
+      await withAbortSignal(new Promise(resolve => setTimeout(resolve, delay)), options.signal);
+    }
+  }
+}
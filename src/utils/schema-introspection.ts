@@ -0,0 +1,231 @@
+import type { DatabaseConnection } from '../types/index.js';
+
+export type SchemaObjectType = 'table' | 'view' | 'index';
+
+export interface SchemaObject {
+  name: string;
+  type: SchemaObjectType;
+  sql: string | null;
+}
+
+/**
+ * Column row as returned by PRAGMA table_info
+ */
+export interface ColumnInfo {
+  cid: number;
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: unknown;
+  pk: number;
+}
+
+export interface SchemaObjectDetails extends SchemaObject {
+  columns: ColumnInfo[];
+}
+
+export interface IndexInfo {
+  name: string;
+  unique: boolean;
+  origin: string;
+  partial: boolean;
+  columns: string[];
+}
+
+/**
+ * Foreign key row as returned by PRAGMA foreign_key_list
+ */
+export interface ForeignKeyInfo {
+  from: string;
+  table: string;
+  to: string;
+  on_update: string;
+  on_delete: string;
+}
+
+export interface TableDescription extends SchemaObjectDetails {
+  indexes: IndexInfo[];
+  foreignKeys: ForeignKeyInfo[];
+}
+
+export function quoteIdentifier(name: string): string {
+  return `"${name.replace(/"/g, '""')}"`;
+}
+
+export interface ListSchemaObjectsOptions {
+  /** Include SQLite internal tables such as sqlite_sequence */
+  includeSystemTables?: boolean;
+  /** LIKE pattern the object names must match */
+  pattern?: string;
+}
+
+/**
+ * List user tables and views from sqlite_master, skipping SQLite internal tables
+ * unless asked for them
+ */
+export async function listSchemaObjects(
+  connection: DatabaseConnection,
+  types: SchemaObjectType[] = ['table', 'view'],
+  options: ListSchemaObjectsOptions = {}
+): Promise<SchemaObject[]> {
+  const conditions = [`type IN (${types.map(() => '?').join(', ')})`];
+  const params: string[] = [...types];
+
+  if (!options.includeSystemTables) {
+    conditions.push("name NOT LIKE 'sqlite_%'");
+  }
+
+  if (options.pattern) {
+    conditions.push('name LIKE ?');
+    params.push(options.pattern);
+  }
+
+  const query = `
+    SELECT name, type, sql
+    FROM sqlite_master
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY type, name
+  `;
+
+  const result = await connection.execute(query, params);
+
+  return result.rows.map((row: Record<string, unknown>) => ({
+    name: String(row['name']),
+    type: row['type'] as SchemaObjectType,
+    sql: (row['sql'] as string | null) ?? null
+  }));
+}
+
+/**
+ * Get column definitions for a table or view via PRAGMA table_info
+ */
+export async function getColumns(
+  connection: DatabaseConnection,
+  name: string
+): Promise<ColumnInfo[]> {
+  const result = await connection.execute(`PRAGMA table_info(${quoteIdentifier(name)})`);
+
+  return result.rows.map((row: Record<string, unknown>) => ({
+    cid: Number(row['cid']),
+    name: String(row['name']),
+    type: String(row['type'] ?? ''),
+    notnull: Number(row['notnull']),
+    dflt_value: row['dflt_value'] ?? null,
+    pk: Number(row['pk'])
+  }));
+}
+
+/**
+ * Get indexes and their columns via PRAGMA index_list and PRAGMA index_info
+ */
+export async function getIndexes(
+  connection: DatabaseConnection,
+  table: string
+): Promise<IndexInfo[]> {
+  const result = await connection.execute(`PRAGMA index_list(${quoteIdentifier(table)})`);
+  const indexes: IndexInfo[] = [];
+
+  for (const row of result.rows as Record<string, unknown>[]) {
+    const name = String(row['name']);
+    const infoResult = await connection.execute(`PRAGMA index_info(${quoteIdentifier(name)})`);
+
+    indexes.push({
+      name,
+      unique: Boolean(row['unique']),
+      origin: String(row['origin'] ?? ''),
+      partial: Boolean(row['partial']),
+      columns: (infoResult.rows as Record<string, unknown>[]).map(info => String(info['name']))
+    });
+  }
+
+  return indexes;
+}
+
+/**
+ * Get foreign keys via PRAGMA foreign_key_list
+ */
+export async function getForeignKeys(
+  connection: DatabaseConnection,
+  table: string
+): Promise<ForeignKeyInfo[]> {
+  const result = await connection.execute(`PRAGMA foreign_key_list(${quoteIdentifier(table)})`);
+
+  return (result.rows as Record<string, unknown>[]).map(row => ({
+    from: String(row['from']),
+    table: String(row['table']),
+    to: String(row['to']),
+    on_update: String(row['on_update'] ?? 'NO ACTION'),
+    on_delete: String(row['on_delete'] ?? 'NO ACTION')
+  }));
+}
+
+/**
+ * Look up a single table or view with its columns, or null if it does not exist
+ */
+export async function describeSchemaObject(
+  connection: DatabaseConnection,
+  name: string,
+  types: SchemaObjectType[] = ['table', 'view']
+): Promise<SchemaObjectDetails | null> {
+  const result = await connection.execute(
+    `
+    SELECT name, type, sql
+    FROM sqlite_master
+    WHERE name = ? AND type IN (${types.map(() => '?').join(', ')}) AND name NOT LIKE 'sqlite_%'
+  `,
+    [name, ...types]
+  );
+
+  const row = result.rows[0] as Record<string, unknown> | undefined;
+  if (!row) {
+    return null;
+  }
+
+  return {
+    name: String(row['name']),
+    type: row['type'] as SchemaObjectType,
+    sql: (row['sql'] as string | null) ?? null,
+    columns: await getColumns(connection, String(row['name']))
+  };
+}
+
+/**
+ * Describe every user table and view in the database
+ */
+export async function describeDatabase(
+  connection: DatabaseConnection
+): Promise<SchemaObjectDetails[]> {
+  const objects = await listSchemaObjects(connection);
+  const details: SchemaObjectDetails[] = [];
+
+  for (const object of objects) {
+    details.push({ ...object, columns: await getColumns(connection, object.name) });
+  }
+
+  return details;
+}
+
+/**
+ * Describe a table or view with columns, indexes and foreign keys,
+ * or null if it does not exist
+ */
+export async function describeTable(
+  connection: DatabaseConnection,
+  name: string
+): Promise<TableDescription | null> {
+  const object = await describeSchemaObject(connection, name);
+  if (!object) {
+    return null;
+  }
+
+  // Views have no indexes or foreign keys of their own
+  if (object.type === 'view') {
+    return { ...object, indexes: [], foreignKeys: [] };
+  }
+
+  return {
+    ...object,
+    indexes: await getIndexes(connection, object.name),
+    foreignKeys: await getForeignKeys(connection, object.name)
+  };
+}
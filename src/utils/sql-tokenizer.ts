@@ -0,0 +1,316 @@
+import { QUERY_TYPES } from '../lib/constants.js';
+
+export type QueryType = (typeof QUERY_TYPES)[keyof typeof QUERY_TYPES];
+
+export type SqlTokenType =
+  | 'word'
+  | 'identifier'
+  | 'string'
+  | 'blob'
+  | 'number'
+  | 'parameter'
+  | 'comment'
+  | 'symbol';
+
+export interface SqlToken {
+  type: SqlTokenType;
+  /** Source text of the token */
+  text: string;
+  /** Upper-cased for words, unquoted for identifiers, the source text otherwise */
+  value: string;
+}
+
+/**
+ * Facts about a query drawn from its tokens, so that keywords and table names inside
+ * string literals, quoted identifiers and comments are never mistaken for real ones
+ */
+export interface SqlAnalysis {
+  tokens: SqlToken[];
+  /** Upper-cased bare words outside strings, quoted identifiers and comments, in order */
+  words: string[];
+  /** Type of the first statement, undefined when it is none of QUERY_TYPES */
+  type: QueryType | undefined;
+  /** Lower-cased names of the tables and table-valued functions the query references */
+  tables: string[];
+  /** Upper-cased names of the functions the query calls, quoted or not */
+  functions: string[];
+  hasComments: boolean;
+  hasSemicolon: boolean;
+}
+
+const WORD_START = /[A-Za-z_\u0080-\uffff]/;
+const WORD_PART = /[\w$\u0080-\uffff]/;
+const MULTI_CHAR_OPERATORS = ['->>', '||', '<=', '>=', '<>', '!=', '==', '<<', '>>', '->'];
+
+/** Clauses that end the comma-separated table list of a FROM clause */
+const FROM_LIST_END = new Set([
+  'WHERE',
+  'GROUP',
+  'HAVING',
+  'WINDOW',
+  'ORDER',
+  'LIMIT',
+  'UNION',
+  'EXCEPT',
+  'INTERSECT',
+  'RETURNING',
+  'SET',
+  'VALUES',
+  'SELECT'
+]);
+
+/** Words that start a subquery rather than a parenthesised table list after FROM */
+const SUBQUERY_START = new Set(['SELECT', 'WITH', 'VALUES']);
+
+const STATEMENT_START = new Set(['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'REPLACE', 'VALUES']);
+
+function readQuoted(sql: string, start: number, close: string): number {
+  let i = start + 1;
+  while (i < sql.length) {
+    if (sql[i] === close) {
+      // A doubled quote is an escaped quote, brackets cannot be escaped
+      if (close !== ']' && sql[i + 1] === close) {
+        i += 2;
+        continue;
+      }
+      return i + 1;
+    }
+    i++;
+  }
+  // Unterminated: SQLite rejects the query, so the rest of it is never run
+  return sql.length;
+}
+
+/**
+ * Split SQL into tokens the way SQLite's tokenizer does
+ */
+export function tokenizeSql(sql: string): SqlToken[] {
+  const tokens: SqlToken[] = [];
+  let i = 0;
+
+  const push = (type: SqlTokenType, end: number, value?: string): void => {
+    const text = sql.slice(i, end);
+    tokens.push({ type, text, value: value ?? text });
+    i = end;
+  };
+
+  while (i < sql.length) {
+    const char = sql[i] as string;
+    const next = sql[i + 1];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '-' && next === '-') {
+      const end = sql.indexOf('\n', i);
+      push('comment', end === -1 ? sql.length : end);
+    } else if (char === '/' && next === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      push('comment', end === -1 ? sql.length : end + 2);
+    } else if (char === "'") {
+      push('string', readQuoted(sql, i, "'"));
+    } else if ((char === 'x' || char === 'X') && next === "'") {
+      push('blob', readQuoted(sql, i + 1, "'"));
+    } else if (char === '"' || char === '`' || char === '[') {
+      const close = char === '[' ? ']' : char;
+      const end = readQuoted(sql, i, close);
+      const inner = sql.slice(i + 1, sql[end - 1] === close ? end - 1 : end);
+      push('identifier', end, close === ']' ? inner : inner.split(close + close).join(close));
+    } else if (/\d/.test(char) || (char === '.' && next !== undefined && /\d/.test(next))) {
+      const match = /^(?:0x[\da-f]+|(?:\d[\d_]*(?:\.[\d_]*)?|\.\d[\d_]*)(?:e[+-]?\d+)?)/i.exec(
+        sql.slice(i)
+      );
+      push('number', i + (match?.[0].length ?? 1));
+    } else if (char === '?' || char === ':' || char === '@' || char === '$') {
+      const match = /^(?:\?\d*|[:@$][\w$]+)/.exec(sql.slice(i));
+      if (match && match[0].length > (char === '?' ? 0 : 1)) {
+        push('parameter', i + match[0].length);
+      } else {
+        push('symbol', i + 1);
+      }
+    } else if (WORD_START.test(char)) {
+      let end = i + 1;
+      while (end < sql.length && WORD_PART.test(sql[end] as string)) {
+        end++;
+      }
+      push('word', end, sql.slice(i, end).toUpperCase());
+    } else {
+      const operator = MULTI_CHAR_OPERATORS.find(op => sql.startsWith(op, i));
+      push('symbol', i + (operator?.length ?? 1));
+    }
+  }
+
+  return tokens;
+}
+
+export const isName = (token: SqlToken | undefined): token is SqlToken =>
+  token?.type === 'word' || token?.type === 'identifier';
+
+export const isWord = (token: SqlToken | undefined, value: string): boolean =>
+  token?.type === 'word' && token.value === value;
+
+export const isSymbol = (token: SqlToken | undefined, text: string): boolean =>
+  token?.type === 'symbol' && token.text === text;
+
+/**
+ * Type of the first statement. A WITH clause is skipped: its common table expressions
+ * are parenthesised, so the first statement keyword outside parentheses starts the
+ * statement itself.
+ */
+export function getStatementType(tokens: SqlToken[]): QueryType | undefined {
+  const code = tokens.filter(token => token.type !== 'comment');
+  let start = 0;
+
+  if (code[0]?.type === 'word' && code[0].value === 'WITH') {
+    let depth = 0;
+    start = code.findIndex((token, i) => {
+      if (isSymbol(token, '(')) depth++;
+      if (isSymbol(token, ')')) depth--;
+      return i > 0 && depth === 0 && token.type === 'word' && STATEMENT_START.has(token.value);
+    });
+    if (start === -1) {
+      return undefined;
+    }
+  }
+
+  const [first, second] = code
+    .slice(start, start + 2)
+    .map(token => (token.type === 'word' ? token.value : undefined));
+
+  switch (first) {
+    case 'SELECT':
+      return QUERY_TYPES.SELECT;
+    case 'INSERT':
+      return QUERY_TYPES.INSERT;
+    case 'UPDATE':
+      return QUERY_TYPES.UPDATE;
+    case 'DELETE':
+      return QUERY_TYPES.DELETE;
+    case 'CREATE':
+      return second === 'TABLE' ? QUERY_TYPES.CREATE_TABLE : undefined;
+    case 'ALTER':
+      return second === 'TABLE' ? QUERY_TYPES.ALTER_TABLE : undefined;
+    case 'DROP':
+      return QUERY_TYPES.DROP;
+    case 'PRAGMA':
+      return QUERY_TYPES.PRAGMA;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Name tokens of the tables in code, the last name of schema-qualified ones
+ */
+function findTableTokens(code: SqlToken[]): Set<SqlToken> {
+  const tables = new Set<SqlToken>();
+  // For each open parenthesis, and the top level, whether it holds a FROM table list
+  const fromLists: boolean[] = [false];
+  let expectTable = false;
+
+  for (let i = 0; i < code.length; i++) {
+    const token = code[i] as SqlToken;
+    const word = token.type === 'word' ? token.value : undefined;
+    const previous = code[i - 1]?.type === 'word' ? code[i - 1]?.value : undefined;
+
+    if (expectTable) {
+      expectTable = false;
+
+      if (isSymbol(token, '(')) {
+        const next = code[i + 1];
+        const isTableList = !(next?.type === 'word' && SUBQUERY_START.has(next.value));
+        fromLists.push(isTableList);
+        expectTable = isTableList;
+        continue;
+      }
+
+      if (isName(token) && !(word && FROM_LIST_END.has(word))) {
+        let name = token;
+        while (isSymbol(code[i + 1], '.') && isName(code[i + 2])) {
+          name = code[i + 2] as SqlToken;
+          i += 2;
+        }
+        tables.add(name);
+        continue;
+      }
+    }
+
+    if (isSymbol(token, '(')) {
+      fromLists.push(false);
+    } else if (isSymbol(token, ')')) {
+      if (fromLists.length > 1) fromLists.pop();
+    } else if (isSymbol(token, ',') || isSymbol(token, ';')) {
+      expectTable = isSymbol(token, ',') && fromLists[fromLists.length - 1] === true;
+      if (isSymbol(token, ';')) fromLists[fromLists.length - 1] = false;
+    } else if (word === 'FROM' || word === 'JOIN') {
+      fromLists[fromLists.length - 1] = true;
+      expectTable = true;
+    } else if (word === 'INTO' || word === 'REFERENCES') {
+      expectTable = true;
+    } else if (word === 'UPDATE' && previous !== 'ON' && previous !== 'DO') {
+      // UPDATE OR REPLACE t
+      if (code[i + 1]?.value === 'OR') i += 2;
+      expectTable = true;
+    } else if (word === 'TABLE') {
+      // CREATE TABLE IF NOT EXISTS t, DROP TABLE IF EXISTS t
+      while (
+        code[i + 1]?.type === 'word' &&
+        ['IF', 'NOT', 'EXISTS'].includes(code[i + 1]?.value ?? '')
+      ) {
+        i++;
+      }
+      expectTable = true;
+    } else if (word && FROM_LIST_END.has(word)) {
+      fromLists[fromLists.length - 1] = false;
+    }
+  }
+
+  return tables;
+}
+
+/**
+ * Tables named after FROM, JOIN, INTO, UPDATE, TABLE and REFERENCES, and in the
+ * comma-separated and parenthesised table lists of FROM clauses. Schema-qualified names
+ * give the table name alone; table-valued functions such as pragma_table_info count as
+ * tables.
+ */
+export function getReferencedTables(tokens: SqlToken[]): string[] {
+  const code = tokens.filter(token => token.type !== 'comment');
+  const names = [...findTableTokens(code)].map(token => token.value.toLowerCase());
+  return [...new Set(names)];
+}
+
+/**
+ * Functions called in the query: names followed by a parenthesis that are not tables.
+ * SQLite calls a function by its quoted name too, so "randomblob"(1) counts as RANDOMBLOB.
+ * Keywords followed by a parenthesis, such as IN and VALUES, are included as well.
+ */
+export function getCalledFunctions(tokens: SqlToken[]): string[] {
+  const code = tokens.filter(token => token.type !== 'comment');
+  const tables = findTableTokens(code);
+  const functions = code.filter(
+    (token, i) => isName(token) && isSymbol(code[i + 1], '(') && !tables.has(token)
+  );
+  return [...new Set(functions.map(token => token.value.toUpperCase()))];
+}
+
+/**
+ * SQLite's internal tables, such as sqlite_master and sqlite_sequence, and the PRAGMA
+ * table-valued functions
+ */
+export function isSystemTable(name: string): boolean {
+  return /^(?:sqlite_|pragma_)/i.test(name);
+}
+
+export function analyzeSql(sql: string): SqlAnalysis {
+  const tokens = tokenizeSql(sql);
+
+  return {
+    tokens,
+    words: tokens.filter(token => token.type === 'word').map(token => token.value),
+    type: getStatementType(tokens),
+    tables: getReferencedTables(tokens),
+    functions: getCalledFunctions(tokens),
+    hasComments: tokens.some(token => token.type === 'comment'),
+    hasSemicolon: tokens.some(token => isSymbol(token, ';'))
+  };
+}